@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "public"."MusicApiCacheEntry" (
+    "key" TEXT NOT NULL,
+    "value" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "staleUntil" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MusicApiCacheEntry_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "MusicApiCacheEntry_staleUntil_idx" ON "public"."MusicApiCacheEntry"("staleUntil");
@@ -0,0 +1,17 @@
+-- DropIndex
+DROP INDEX "public"."Album_externalId_key";
+
+-- DropIndex
+DROP INDEX "public"."Artist_externalId_key";
+
+-- AlterTable
+ALTER TABLE "public"."Album" ADD COLUMN     "provider" TEXT NOT NULL DEFAULT 'spotify';
+
+-- AlterTable
+ALTER TABLE "public"."Artist" ADD COLUMN     "provider" TEXT NOT NULL DEFAULT 'spotify';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Album_provider_externalId_key" ON "public"."Album"("provider", "externalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Artist_provider_externalId_key" ON "public"."Artist"("provider", "externalId");
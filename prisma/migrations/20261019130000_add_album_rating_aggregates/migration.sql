@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "public"."Album" ADD COLUMN     "averageRating" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "ratingSum" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "reviewCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."AlbumRatingCount" (
+    "albumId" INTEGER NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "AlbumRatingCount_pkey" PRIMARY KEY ("albumId","rating")
+);
+
+-- CreateIndex
+CREATE INDEX "Album_averageRating_idx" ON "public"."Album"("averageRating");
+
+-- CreateIndex
+CREATE INDEX "Album_reviewCount_idx" ON "public"."Album"("reviewCount");
+
+-- AddForeignKey
+ALTER TABLE "public"."AlbumRatingCount" ADD CONSTRAINT "AlbumRatingCount_albumId_fkey" FOREIGN KEY ("albumId") REFERENCES "public"."Album"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill des agrégats à partir des critiques existantes
+INSERT INTO "public"."AlbumRatingCount" ("albumId", "rating", "count")
+SELECT "albumId", "rating", COUNT(*)
+FROM "public"."Review"
+GROUP BY "albumId", "rating";
+
+UPDATE "public"."Album" AS a
+SET "reviewCount" = r."reviewCount",
+    "ratingSum" = r."ratingSum",
+    "averageRating" = r."ratingSum"::DOUBLE PRECISION / r."reviewCount"
+FROM (
+    SELECT "albumId", COUNT(*)::INTEGER AS "reviewCount", SUM("rating")::INTEGER AS "ratingSum"
+    FROM "public"."Review"
+    GROUP BY "albumId"
+) AS r
+WHERE a."id" = r."albumId";
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Review_createdAt_idx" ON "public"."Review"("createdAt");
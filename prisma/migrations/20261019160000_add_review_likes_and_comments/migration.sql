@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "public"."ReviewLike" (
+    "userId" INTEGER NOT NULL,
+    "reviewId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewLike_pkey" PRIMARY KEY ("userId","reviewId")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ReviewComment" (
+    "id" SERIAL NOT NULL,
+    "reviewId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "parentId" INTEGER,
+    "content" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReviewComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReviewLike_reviewId_idx" ON "public"."ReviewLike"("reviewId");
+
+-- CreateIndex
+CREATE INDEX "ReviewComment_reviewId_createdAt_idx" ON "public"."ReviewComment"("reviewId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReviewComment_parentId_idx" ON "public"."ReviewComment"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewLike" ADD CONSTRAINT "ReviewLike_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewLike" ADD CONSTRAINT "ReviewLike_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "public"."Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewComment" ADD CONSTRAINT "ReviewComment_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "public"."Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewComment" ADD CONSTRAINT "ReviewComment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewComment" ADD CONSTRAINT "ReviewComment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "public"."ReviewComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
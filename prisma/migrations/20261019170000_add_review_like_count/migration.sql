@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."Review" ADD COLUMN     "likeCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill : nombre de "j'aime" existants
+UPDATE "public"."Review" AS r
+SET "likeCount" = (
+    SELECT COUNT(*) FROM "public"."ReviewLike" AS l WHERE l."reviewId" = r."id"
+);
+
+-- CreateIndex
+CREATE INDEX "Review_likeCount_idx" ON "public"."Review"("likeCount");
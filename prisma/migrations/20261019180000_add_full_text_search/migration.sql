@@ -0,0 +1,42 @@
+-- Recherche insensible aux accents : configurations plein texte qui retirent
+-- les accents (unaccent) avant l'analyse. La forme à deux arguments de
+-- to_tsvector est immuable et peut donc alimenter une colonne générée
+CREATE EXTENSION IF NOT EXISTS "unaccent";
+
+-- Noms propres (titres, artistes, pseudos) : pas de racinisation
+CREATE TEXT SEARCH CONFIGURATION "public"."simple_unaccent" (COPY = pg_catalog.simple);
+ALTER TEXT SEARCH CONFIGURATION "public"."simple_unaccent"
+    ALTER MAPPING FOR hword, hword_part, word WITH unaccent, simple;
+
+-- Texte libre des critiques : racinisation française
+CREATE TEXT SEARCH CONFIGURATION "public"."french_unaccent" (COPY = pg_catalog.french);
+ALTER TEXT SEARCH CONFIGURATION "public"."french_unaccent"
+    ALTER MAPPING FOR hword, hword_part, word WITH unaccent, french_stem;
+
+-- AlterTable
+ALTER TABLE "public"."Album" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('public.simple_unaccent'::regconfig, coalesce("title", ''))) STORED;
+
+-- AlterTable
+ALTER TABLE "public"."Artist" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('public.simple_unaccent'::regconfig, coalesce("name", ''))) STORED;
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('public.simple_unaccent'::regconfig, coalesce("username", ''))) STORED;
+
+-- AlterTable
+ALTER TABLE "public"."Review" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('public.french_unaccent'::regconfig, coalesce("comment", ''))) STORED;
+
+-- CreateIndex
+CREATE INDEX "Album_searchVector_idx" ON "public"."Album" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Artist_searchVector_idx" ON "public"."Artist" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "User_searchVector_idx" ON "public"."User" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Review_searchVector_idx" ON "public"."Review" USING GIN ("searchVector");
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "public"."Track" (
+    "id" SERIAL NOT NULL,
+    "albumId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "durationMs" INTEGER,
+    "discNumber" INTEGER NOT NULL DEFAULT 1,
+    "trackNumber" INTEGER NOT NULL,
+
+    CONSTRAINT "Track_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ReviewTrackRating" (
+    "reviewId" INTEGER NOT NULL,
+    "trackId" INTEGER NOT NULL,
+    "rating" INTEGER NOT NULL,
+
+    CONSTRAINT "ReviewTrackRating_pkey" PRIMARY KEY ("reviewId","trackId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Track_albumId_discNumber_trackNumber_key" ON "public"."Track"("albumId", "discNumber", "trackNumber");
+
+-- CreateIndex
+CREATE INDEX "ReviewTrackRating_trackId_idx" ON "public"."ReviewTrackRating"("trackId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Track" ADD CONSTRAINT "Track_albumId_fkey" FOREIGN KEY ("albumId") REFERENCES "public"."Album"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewTrackRating" ADD CONSTRAINT "ReviewTrackRating_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "public"."Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewTrackRating" ADD CONSTRAINT "ReviewTrackRating_trackId_fkey" FOREIGN KEY ("trackId") REFERENCES "public"."Track"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "public"."AlbumArtistRole" AS ENUM ('MAIN', 'FEATURED');
+
+-- CreateTable
+CREATE TABLE "public"."AlbumArtist" (
+    "albumId" INTEGER NOT NULL,
+    "artistId" INTEGER NOT NULL,
+    "role" "public"."AlbumArtistRole" NOT NULL DEFAULT 'MAIN',
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "AlbumArtist_pkey" PRIMARY KEY ("albumId","artistId")
+);
+
+-- CreateIndex
+CREATE INDEX "AlbumArtist_artistId_idx" ON "public"."AlbumArtist"("artistId");
+
+-- AddForeignKey
+ALTER TABLE "public"."AlbumArtist" ADD CONSTRAINT "AlbumArtist_albumId_fkey" FOREIGN KEY ("albumId") REFERENCES "public"."Album"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."AlbumArtist" ADD CONSTRAINT "AlbumArtist_artistId_fkey" FOREIGN KEY ("artistId") REFERENCES "public"."Artist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill : l'artiste principal des albums existants, en position 0
+INSERT INTO "public"."AlbumArtist" ("albumId", "artistId", "role", "position")
+SELECT "id", "artistId", 'MAIN', 0 FROM "public"."Album";
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "public"."Artist" ADD COLUMN     "popularity" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."Genre" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+
+    CONSTRAINT "Genre_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ArtistGenre" (
+    "artistId" INTEGER NOT NULL,
+    "genreId" INTEGER NOT NULL,
+
+    CONSTRAINT "ArtistGenre_pkey" PRIMARY KEY ("artistId","genreId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Genre_slug_key" ON "public"."Genre"("slug");
+
+-- CreateIndex
+CREATE INDEX "ArtistGenre_genreId_idx" ON "public"."ArtistGenre"("genreId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ArtistGenre" ADD CONSTRAINT "ArtistGenre_artistId_fkey" FOREIGN KEY ("artistId") REFERENCES "public"."Artist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ArtistGenre" ADD CONSTRAINT "ArtistGenre_genreId_fkey" FOREIGN KEY ("genreId") REFERENCES "public"."Genre"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Artist" ADD COLUMN     "albumsSyncedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Artist_albumsSyncedAt_idx" ON "public"."Artist"("albumsSyncedAt");
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "public"."CatalogEntityType" AS ENUM ('ALBUM', 'ARTIST');
+
+-- DropForeignKey
+ALTER TABLE "public"."Review" DROP CONSTRAINT "Review_albumId_fkey";
+
+-- AlterTable
+ALTER TABLE "public"."Album" ADD COLUMN     "lastSyncedAt" TIMESTAMP(3),
+ADD COLUMN     "removedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Artist" ADD COLUMN     "lastSyncedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."CatalogChange" (
+    "id" SERIAL NOT NULL,
+    "entityType" "public"."CatalogEntityType" NOT NULL,
+    "entityId" INTEGER NOT NULL,
+    "field" TEXT NOT NULL,
+    "oldValue" TEXT,
+    "newValue" TEXT,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CatalogChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Album_lastSyncedAt_idx" ON "public"."Album"("lastSyncedAt");
+
+-- CreateIndex
+CREATE INDEX "Artist_lastSyncedAt_idx" ON "public"."Artist"("lastSyncedAt");
+
+-- CreateIndex
+CREATE INDEX "CatalogChange_entityType_entityId_idx" ON "public"."CatalogChange"("entityType", "entityId");
+
+-- CreateIndex
+CREATE INDEX "CatalogChange_detectedAt_idx" ON "public"."CatalogChange"("detectedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."Review" ADD CONSTRAINT "Review_albumId_fkey" FOREIGN KEY ("albumId") REFERENCES "public"."Album"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
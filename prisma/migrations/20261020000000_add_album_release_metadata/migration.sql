@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "public"."AlbumType" AS ENUM ('ALBUM', 'EP', 'SINGLE', 'COMPILATION');
+
+-- CreateEnum
+CREATE TYPE "public"."ReleaseDatePrecision" AS ENUM ('YEAR', 'MONTH', 'DAY');
+
+-- AlterTable
+ALTER TABLE "public"."Album" ADD COLUMN     "albumType" "public"."AlbumType",
+ADD COLUMN     "label" TEXT,
+ADD COLUMN     "releaseDatePrecision" "public"."ReleaseDatePrecision",
+ADD COLUMN     "totalTracks" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Album_albumType_idx" ON "public"."Album"("albumType");
+
+-- Backfill : nombre de pistes des albums dont les pistes sont déjà enregistrées
+-- (le type, le label et la précision seront renseignés au prochain rafraîchissement)
+UPDATE "public"."Album" AS a
+SET "totalTracks" = t."count"
+FROM (
+    SELECT "albumId", COUNT(*)::INTEGER AS "count"
+    FROM "public"."Track"
+    GROUP BY "albumId"
+) AS t
+WHERE t."albumId" = a."id";
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."ListenLog" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "albumId" INTEGER NOT NULL,
+    "listenedOn" TIMESTAMP(3) NOT NULL,
+    "rating" INTEGER,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ListenLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ListenLog_userId_listenedOn_idx" ON "public"."ListenLog"("userId", "listenedOn");
+
+-- CreateIndex
+CREATE INDEX "ListenLog_albumId_idx" ON "public"."ListenLog"("albumId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ListenLog" ADD CONSTRAINT "ListenLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ListenLog" ADD CONSTRAINT "ListenLog_albumId_fkey" FOREIGN KEY ("albumId") REFERENCES "public"."Album"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
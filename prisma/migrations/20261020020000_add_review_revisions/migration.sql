@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "public"."Review" ADD COLUMN     "updatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."ReviewRevision" (
+    "id" SERIAL NOT NULL,
+    "reviewId" INTEGER NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReviewRevision_reviewId_createdAt_idx" ON "public"."ReviewRevision"("reviewId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewRevision" ADD CONSTRAINT "ReviewRevision_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "public"."Review"("id") ON DELETE CASCADE ON UPDATE CASCADE;
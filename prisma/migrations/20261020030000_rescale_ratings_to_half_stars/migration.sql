@@ -0,0 +1,49 @@
+-- Passage des notes sur l'échelle interne de 1 à 10 (demi-étoiles) :
+-- une note de N étoiles devient 2N. Les notes de 6 à 10, acceptées jusqu'ici
+-- à la modification d'une critique, étaient déjà saisies sur 10 : elles sont
+-- conservées telles quelles (les critiques concernées sont listées ci-dessous)
+DO $$
+DECLARE
+    r RECORD;
+BEGIN
+    FOR r IN SELECT "id", "rating" FROM "public"."Review" WHERE "rating" > 5 LOOP
+        RAISE NOTICE 'Review % : note % conservée sur l''échelle de 1 à 10', r."id", r."rating";
+    END LOOP;
+END $$;
+
+UPDATE "public"."Review"
+SET "rating" = CASE WHEN "rating" <= 5 THEN GREATEST("rating", 1) * 2 ELSE LEAST("rating", 10) END;
+
+UPDATE "public"."ReviewRevision"
+SET "rating" = CASE WHEN "rating" <= 5 THEN GREATEST("rating", 1) * 2 ELSE LEAST("rating", 10) END;
+
+UPDATE "public"."ListenLog"
+SET "rating" = CASE WHEN "rating" <= 5 THEN GREATEST("rating", 1) * 2 ELSE LEAST("rating", 10) END
+WHERE "rating" IS NOT NULL;
+
+-- Notes de pistes : toujours validées de 1 à 5 étoiles
+UPDATE "public"."ReviewTrackRating" SET "rating" = "rating" * 2;
+
+-- Reconstruction des agrégats des albums à partir des critiques converties
+DELETE FROM "public"."AlbumRatingCount";
+
+INSERT INTO "public"."AlbumRatingCount" ("albumId", "rating", "count")
+SELECT "albumId", "rating", COUNT(*)
+FROM "public"."Review"
+GROUP BY "albumId", "rating";
+
+UPDATE "public"."Album"
+SET "reviewCount" = 0,
+    "ratingSum" = 0,
+    "averageRating" = 0;
+
+UPDATE "public"."Album" AS a
+SET "reviewCount" = r."reviewCount",
+    "ratingSum" = r."ratingSum",
+    "averageRating" = r."ratingSum"::DOUBLE PRECISION / r."reviewCount"
+FROM (
+    SELECT "albumId", COUNT(*)::INTEGER AS "reviewCount", SUM("rating")::INTEGER AS "ratingSum"
+    FROM "public"."Review"
+    GROUP BY "albumId"
+) AS r
+WHERE a."id" = r."albumId";
@@ -0,0 +1,44 @@
+import { toAlbumOutput } from './album-output';
+import { ReleaseDatePrecision } from './enums/release-date-precision.enum';
+
+describe('toAlbumOutput', () => {
+  const album = (precision: ReleaseDatePrecision | null) => ({
+    id: 1,
+    title: 'The Dark Side of the Moon',
+    releaseDate: new Date('1973-03-01T00:00:00Z'),
+    releaseDatePrecision: precision,
+  });
+
+  it('should render release dates at their precision', () => {
+    expect(toAlbumOutput(album(ReleaseDatePrecision.Year))).toEqual({
+      ...album(ReleaseDatePrecision.Year),
+      releaseDate: '1973',
+    });
+    expect(toAlbumOutput(album(ReleaseDatePrecision.Month))).toEqual({
+      ...album(ReleaseDatePrecision.Month),
+      releaseDate: '1973-03',
+    });
+    expect(toAlbumOutput(album(null))).toEqual({
+      ...album(null),
+      releaseDate: '1973-03-01',
+    });
+  });
+
+  it('should keep albums without a release date', () => {
+    expect(toAlbumOutput({ id: 2, releaseDate: null })).toEqual({
+      id: 2,
+      releaseDate: null,
+    });
+  });
+
+  it('should give the average rating in stars when it is read', () => {
+    expect(
+      toAlbumOutput({ id: 3, releaseDate: null, averageRating: 7 }),
+    ).toEqual({
+      id: 3,
+      releaseDate: null,
+      averageRating: 7,
+      averageStars: 3.5,
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { $Enums } from '@prisma/client';
+import { formatReleaseDate } from './release-date';
+import { toStars } from './rating-scale';
+
+// Champs d'un album lu par Prisma utilisés pour sa restitution
+export interface AlbumRow {
+  releaseDate: Date | null;
+  releaseDatePrecision?: $Enums.ReleaseDatePrecision | null;
+  averageRating?: number;
+}
+
+// Album tel que renvoyé par l'API, seul ou dans une autre réponse (critiques,
+// classements, journal d'écoute...) :
+// - date de sortie restituée à sa précision réelle ("1973", "1973-03" ou "1973-03-01")
+// - note moyenne accompagnée de sa valeur en étoiles (averageStars) lorsqu'elle est lue
+export function toAlbumOutput<T extends AlbumRow>(
+  album: T,
+): Omit<T, 'releaseDate'> & {
+  releaseDate: string | null;
+  averageStars?: number;
+} {
+  return {
+    ...album,
+    releaseDate: album.releaseDate
+      ? formatReleaseDate(album.releaseDate, album.releaseDatePrecision)
+      : null,
+    ...(album.averageRating !== undefined && {
+      averageStars: toStars(album.averageRating),
+    }),
+  };
+}
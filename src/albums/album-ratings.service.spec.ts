@@ -0,0 +1,325 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AlbumRatingsService } from './album-ratings.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+
+describe('AlbumRatingsService', () => {
+  let service: AlbumRatingsService;
+
+  const mockPrismaService = {
+    album: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    albumRatingCount: {
+      update: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    review: {
+      groupBy: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn((callback: (tx: unknown) => unknown): unknown =>
+      callback(mockPrismaService),
+    ),
+  };
+
+  // Client de transaction tel que reçu par applyRatingChange
+  const mockTransactionClient =
+    mockPrismaService as unknown as Prisma.TransactionClient;
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlbumRatingsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AlbumRatingsService>(AlbumRatingsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('applyRatingChange', () => {
+    it('should add a new rating to the album aggregates', async () => {
+      mockPrismaService.album.update.mockResolvedValueOnce({
+        ratingSum: 9,
+        reviewCount: 2,
+      });
+
+      await service.applyRatingChange(mockTransactionClient, 1, { added: 5 });
+
+      expect(mockPrismaService.album.update).toHaveBeenNthCalledWith(1, {
+        where: { id: 1 },
+        data: {
+          reviewCount: { increment: 1 },
+          ratingSum: { increment: 5 },
+        },
+      });
+      expect(mockPrismaService.album.update).toHaveBeenNthCalledWith(2, {
+        where: { id: 1 },
+        data: { averageRating: 4.5 },
+      });
+      expect(mockPrismaService.albumRatingCount.upsert).toHaveBeenCalledWith({
+        where: { albumId_rating: { albumId: 1, rating: 5 } },
+        create: { albumId: 1, rating: 5, count: 1 },
+        update: { count: { increment: 1 } },
+      });
+      expect(mockPrismaService.albumRatingCount.update).not.toHaveBeenCalled();
+    });
+
+    it('should move a rating between histogram buckets on update', async () => {
+      mockPrismaService.album.update.mockResolvedValueOnce({
+        ratingSum: 6,
+        reviewCount: 2,
+      });
+
+      await service.applyRatingChange(mockTransactionClient, 1, {
+        removed: 5,
+        added: 2,
+      });
+
+      expect(mockPrismaService.album.update).toHaveBeenNthCalledWith(1, {
+        where: { id: 1 },
+        data: {
+          reviewCount: { increment: 0 },
+          ratingSum: { increment: -3 },
+        },
+      });
+      expect(mockPrismaService.albumRatingCount.update).toHaveBeenCalledWith({
+        where: { albumId_rating: { albumId: 1, rating: 5 } },
+        data: { count: { decrement: 1 } },
+      });
+      expect(mockPrismaService.albumRatingCount.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { albumId_rating: { albumId: 1, rating: 2 } },
+        }),
+      );
+    });
+
+    it('should reset the average when the last review is removed', async () => {
+      mockPrismaService.album.update.mockResolvedValueOnce({
+        ratingSum: 0,
+        reviewCount: 0,
+      });
+
+      await service.applyRatingChange(mockTransactionClient, 1, { removed: 4 });
+
+      expect(mockPrismaService.album.update).toHaveBeenNthCalledWith(2, {
+        where: { id: 1 },
+        data: { averageRating: 0 },
+      });
+      expect(mockPrismaService.albumRatingCount.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing when the rating does not change', async () => {
+      await service.applyRatingChange(mockTransactionClient, 1, {
+        removed: 3,
+        added: 3,
+      });
+
+      expect(mockPrismaService.album.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSummary', () => {
+    it('should return aggregates with a complete histogram', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue({
+        averageRating: 8.5,
+        reviewCount: 2,
+        ratingSum: 17,
+        ratingCounts: [
+          { rating: 8, count: 1 },
+          { rating: 9, count: 1 },
+        ],
+      });
+
+      const result = await service.getSummary(1);
+
+      expect(result).toEqual({
+        averageRating: 8.5,
+        reviewCount: 2,
+        ratingSum: 17,
+        histogram: {
+          1: 0,
+          2: 0,
+          3: 0,
+          4: 0,
+          5: 0,
+          6: 0,
+          7: 0,
+          8: 1,
+          9: 1,
+          10: 0,
+        },
+      });
+    });
+
+    it('should return null if album not found', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue(null);
+
+      await expect(service.getSummary(999)).resolves.toBeNull();
+    });
+  });
+
+  describe('getPrior', () => {
+    it('should use the global mean of all reviews', async () => {
+      mockPrismaService.album.aggregate.mockResolvedValue({
+        _sum: { ratingSum: 35, reviewCount: 10 },
+      });
+
+      await expect(service.getPrior()).resolves.toEqual({
+        mean: 3.5,
+        weight: 5,
+      });
+    });
+
+    it('should fall back to zero when there are no reviews', async () => {
+      mockPrismaService.album.aggregate.mockResolvedValue({
+        _sum: { ratingSum: null, reviewCount: null },
+      });
+
+      await expect(service.getPrior()).resolves.toEqual({
+        mean: 0,
+        weight: 5,
+      });
+    });
+  });
+
+  describe('getStatistics', () => {
+    it('should add distribution stats and the weighted score', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue({
+        averageRating: 10,
+        reviewCount: 2,
+        ratingSum: 20,
+        ratingCounts: [{ rating: 10, count: 2 }],
+      });
+      mockPrismaService.album.aggregate.mockResolvedValue({
+        _sum: { ratingSum: 70, reviewCount: 10 },
+      });
+
+      const result = await service.getStatistics(1);
+
+      expect(result).toEqual({
+        averageRating: 10,
+        reviewCount: 2,
+        histogram: {
+          1: 0,
+          2: 0,
+          3: 0,
+          4: 0,
+          5: 0,
+          6: 0,
+          7: 0,
+          8: 0,
+          9: 0,
+          10: 2,
+        },
+        median: 10,
+        standardDeviation: 0,
+        // (5 * 7 + 20) / (5 + 2)
+        weightedScore: 55 / 7,
+        globalAverageRating: 7,
+        stars: {
+          averageRating: 5,
+          weightedScore: 55 / 14,
+          median: 5,
+        },
+      });
+    });
+
+    it('should return null if album not found', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue(null);
+      mockPrismaService.album.aggregate.mockResolvedValue({
+        _sum: { ratingSum: 0, reviewCount: 0 },
+      });
+
+      await expect(service.getStatistics(999)).resolves.toBeNull();
+    });
+  });
+
+  describe('recompute', () => {
+    it('should rebuild aggregates from the reviews', async () => {
+      mockPrismaService.review.groupBy.mockResolvedValue([
+        { rating: 3, _count: { _all: 1 } },
+        { rating: 5, _count: { _all: 2 } },
+      ]);
+
+      await service.recompute(1);
+
+      expect(mockPrismaService.$queryRaw).toHaveBeenCalled();
+      expect(
+        mockPrismaService.albumRatingCount.deleteMany,
+      ).toHaveBeenCalledWith({ where: { albumId: 1 } });
+      expect(
+        mockPrismaService.albumRatingCount.createMany,
+      ).toHaveBeenCalledWith({
+        data: [
+          { albumId: 1, rating: 3, count: 1 },
+          { albumId: 1, rating: 5, count: 2 },
+        ],
+      });
+      expect(mockPrismaService.album.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          reviewCount: 3,
+          ratingSum: 13,
+          averageRating: 13 / 3,
+        },
+      });
+    });
+
+    it('should reset aggregates for an album without reviews', async () => {
+      mockPrismaService.review.groupBy.mockResolvedValue([]);
+
+      await service.recompute(1);
+
+      expect(
+        mockPrismaService.albumRatingCount.createMany,
+      ).not.toHaveBeenCalled();
+      expect(mockPrismaService.album.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { reviewCount: 0, ratingSum: 0, averageRating: 0 },
+      });
+    });
+  });
+
+  describe('recomputeAll', () => {
+    it('should recompute every album', async () => {
+      mockPrismaService.album.findMany.mockResolvedValue([
+        { id: 1 },
+        { id: 2 },
+      ]);
+      const recomputeSpy = jest
+        .spyOn(service, 'recompute')
+        .mockResolvedValue(undefined);
+
+      const result = await service.recomputeAll();
+
+      expect(result).toBe(2);
+      expect(recomputeSpy).toHaveBeenCalledWith(1);
+      expect(recomputeSpy).toHaveBeenCalledWith(2);
+    });
+  });
+});
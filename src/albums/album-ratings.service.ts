@@ -0,0 +1,249 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  computeDistributionStats,
+  computeWeightedScore,
+  RatingDistributionStats,
+  RatingHistogram,
+  RatingPrior,
+} from './rating-statistics';
+import { MAX_RATING, MIN_RATING, toStars } from './rating-scale';
+
+// Modification de note à répercuter sur les agrégats :
+// création (added), suppression (removed) ou changement de note (les deux)
+export interface RatingChange {
+  added?: number;
+  removed?: number;
+}
+
+export interface AlbumRatingSummary {
+  averageRating: number;
+  reviewCount: number;
+  ratingSum: number;
+  histogram: RatingHistogram;
+}
+
+export interface AlbumRatingStatistics
+  extends Omit<AlbumRatingSummary, 'ratingSum'>,
+    RatingDistributionStats {
+  weightedScore: number;
+  globalAverageRating: number;
+  // Valeurs affichées en étoiles (les autres sont sur l'échelle interne de 1 à 10)
+  stars: {
+    averageRating: number;
+    weightedScore: number;
+    median: number | null;
+  };
+}
+
+// Maintient les agrégats dénormalisés des albums (moyenne, nombre de critiques,
+// histogramme) afin d'éviter de relire toutes les critiques à chaque lecture
+@Injectable()
+export class AlbumRatingsService {
+  private readonly logger = new Logger(AlbumRatingsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  // Répercuter une écriture de critique sur les agrégats de l'album
+  // Doit être appelée dans la même transaction que l'écriture de la critique
+  async applyRatingChange(
+    tx: Prisma.TransactionClient,
+    albumId: number,
+    { added, removed }: RatingChange,
+  ) {
+    if (added === removed) {
+      return;
+    }
+
+    const countDelta =
+      (added !== undefined ? 1 : 0) - (removed !== undefined ? 1 : 0);
+    const sumDelta = (added ?? 0) - (removed ?? 0);
+
+    // Mettre à jour l'album en premier : le verrou de ligne sérialise les
+    // écritures concurrentes sur le même album jusqu'à la fin de la transaction
+    const album = await tx.album.update({
+      where: { id: albumId },
+      data: {
+        reviewCount: { increment: countDelta },
+        ratingSum: { increment: sumDelta },
+      },
+    });
+
+    await tx.album.update({
+      where: { id: albumId },
+      data: {
+        averageRating: this.computeAverage(album.ratingSum, album.reviewCount),
+      },
+    });
+
+    if (removed !== undefined) {
+      await tx.albumRatingCount.update({
+        where: { albumId_rating: { albumId, rating: removed } },
+        data: { count: { decrement: 1 } },
+      });
+    }
+
+    if (added !== undefined) {
+      await tx.albumRatingCount.upsert({
+        where: { albumId_rating: { albumId, rating: added } },
+        create: { albumId, rating: added, count: 1 },
+        update: { count: { increment: 1 } },
+      });
+    }
+  }
+
+  // Lire les agrégats d'un album (null si l'album n'existe pas)
+  async getSummary(albumId: number): Promise<AlbumRatingSummary | null> {
+    const album = await this.prisma.album.findUnique({
+      where: { id: albumId },
+      select: {
+        averageRating: true,
+        reviewCount: true,
+        ratingSum: true,
+        ratingCounts: { select: { rating: true, count: true } },
+      },
+    });
+
+    if (!album) {
+      return null;
+    }
+
+    return {
+      averageRating: album.averageRating,
+      reviewCount: album.reviewCount,
+      ratingSum: album.ratingSum,
+      histogram: this.toHistogram(album.ratingCounts),
+    };
+  }
+
+  // Statistiques complètes d'un album : répartition, médiane, écart-type
+  // et score pondéré (null si l'album n'existe pas)
+  async getStatistics(albumId: number): Promise<AlbumRatingStatistics | null> {
+    const [summary, prior] = await Promise.all([
+      this.getSummary(albumId),
+      this.getPrior(),
+    ]);
+
+    if (!summary) {
+      return null;
+    }
+
+    const { ratingSum, ...rest } = summary;
+    const distribution = computeDistributionStats(summary.histogram);
+    const weightedScore = computeWeightedScore(
+      ratingSum,
+      summary.reviewCount,
+      prior,
+    );
+
+    return {
+      ...rest,
+      ...distribution,
+      weightedScore,
+      globalAverageRating: prior.mean,
+      stars: {
+        averageRating: toStars(summary.averageRating),
+        weightedScore: toStars(weightedScore),
+        median:
+          distribution.median === null ? null : toStars(distribution.median),
+      },
+    };
+  }
+
+  // Moyenne globale de toutes les critiques et poids de l'a priori
+  // (RATING_PRIOR_WEIGHT : nombre de critiques "virtuelles" ajoutées à chaque album)
+  async getPrior(): Promise<RatingPrior> {
+    const totals = await this.prisma.album.aggregate({
+      _sum: { ratingSum: true, reviewCount: true },
+    });
+
+    const ratingSum = totals._sum.ratingSum ?? 0;
+    const reviewCount = totals._sum.reviewCount ?? 0;
+
+    return {
+      mean: this.computeAverage(ratingSum, reviewCount),
+      weight: Number(this.configService.get('RATING_PRIOR_WEIGHT', 5)),
+    };
+  }
+
+  // Recalculer les agrégats d'un album à partir de ses critiques
+  async recompute(albumId: number) {
+    await this.prisma.$transaction(async (tx) => {
+      // Verrouiller l'album pour ne pas perdre une critique écrite pendant le calcul
+      await tx.$queryRaw`SELECT "id" FROM "Album" WHERE "id" = ${albumId} FOR UPDATE`;
+
+      const groups = await tx.review.groupBy({
+        by: ['rating'],
+        where: { albumId },
+        _count: { _all: true },
+      });
+
+      const reviewCount = groups.reduce(
+        (sum, group) => sum + group._count._all,
+        0,
+      );
+      const ratingSum = groups.reduce(
+        (sum, group) => sum + group.rating * group._count._all,
+        0,
+      );
+
+      await tx.albumRatingCount.deleteMany({ where: { albumId } });
+      if (groups.length > 0) {
+        await tx.albumRatingCount.createMany({
+          data: groups.map((group) => ({
+            albumId,
+            rating: group.rating,
+            count: group._count._all,
+          })),
+        });
+      }
+
+      await tx.album.update({
+        where: { id: albumId },
+        data: {
+          reviewCount,
+          ratingSum,
+          averageRating: this.computeAverage(ratingSum, reviewCount),
+        },
+      });
+    });
+  }
+
+  // Recalculer les agrégats de tous les albums (commande de réparation)
+  async recomputeAll(): Promise<number> {
+    const albums = await this.prisma.album.findMany({
+      select: { id: true },
+      orderBy: { id: 'asc' },
+    });
+
+    for (const album of albums) {
+      await this.recompute(album.id);
+    }
+
+    this.logger.log(`Recomputed rating aggregates for ${albums.length} albums`);
+    return albums.length;
+  }
+
+  // Histogramme complet : chaque note possible est présente, même à zéro
+  toHistogram(
+    ratingCounts: { rating: number; count: number }[],
+  ): RatingHistogram {
+    const histogram: RatingHistogram = {};
+    for (let rating = MIN_RATING; rating <= MAX_RATING; rating++) {
+      histogram[rating] = 0;
+    }
+    for (const { rating, count } of ratingCounts) {
+      histogram[rating] = count;
+    }
+    return histogram;
+  }
+
+  private computeAverage(ratingSum: number, reviewCount: number): number {
+    return reviewCount > 0 ? ratingSum / reviewCount : 0;
+  }
+}
@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AlbumTracksService } from './album-tracks.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('AlbumTracksService', () => {
+  let service: AlbumTracksService;
+
+  const mockPrismaService = {
+    track: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    reviewTrackRating: {
+      groupBy: jest.fn(),
+    },
+  };
+
+  const tracks = [
+    { id: 1, albumId: 1, name: 'Airbag', discNumber: 1, trackNumber: 1 },
+    { id: 2, albumId: 1, name: 'Paranoid', discNumber: 1, trackNumber: 2 },
+    { id: 3, albumId: 1, name: 'Lucky', discNumber: 1, trackNumber: 3 },
+  ];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AlbumTracksService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AlbumTracksService>(AlbumTracksService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('saveTracks', () => {
+    it('should store catalog tracks and skip existing ones', async () => {
+      mockPrismaService.track.createMany.mockResolvedValue({ count: 2 });
+
+      const result = await service.saveTracks(1, [
+        { name: 'Airbag', duration: 284000, trackNumber: 1 },
+        { name: 'Lucky', duration: 259000, discNumber: 2, trackNumber: 1 },
+      ]);
+
+      expect(result).toBe(2);
+      expect(mockPrismaService.track.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            albumId: 1,
+            name: 'Airbag',
+            durationMs: 284000,
+            discNumber: 1,
+            trackNumber: 1,
+          },
+          {
+            albumId: 1,
+            name: 'Lucky',
+            durationMs: 259000,
+            discNumber: 2,
+            trackNumber: 1,
+          },
+        ],
+        skipDuplicates: true,
+      });
+    });
+
+    it('should not write anything without tracks', async () => {
+      const result = await service.saveTracks(1, undefined);
+
+      expect(result).toBe(0);
+      expect(mockPrismaService.track.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findByAlbumId', () => {
+    it('should return tracks in play order with their ratings', async () => {
+      mockPrismaService.track.findMany.mockResolvedValue(tracks);
+      mockPrismaService.reviewTrackRating.groupBy.mockResolvedValue([
+        { trackId: 2, _avg: { rating: 9 }, _count: { _all: 2 } },
+      ]);
+
+      const result = await service.findByAlbumId(1);
+
+      expect(mockPrismaService.track.findMany).toHaveBeenCalledWith({
+        where: { albumId: 1 },
+        orderBy: [{ discNumber: 'asc' }, { trackNumber: 'asc' }],
+      });
+      expect(mockPrismaService.reviewTrackRating.groupBy).toHaveBeenCalledWith({
+        by: ['trackId'],
+        where: { track: { albumId: 1 } },
+        _avg: { rating: true },
+        _count: { _all: true },
+      });
+      expect(result).toEqual([
+        {
+          ...tracks[0],
+          averageRating: null,
+          averageStars: null,
+          ratingCount: 0,
+        },
+        { ...tracks[1], averageRating: 9, averageStars: 4.5, ratingCount: 2 },
+        {
+          ...tracks[2],
+          averageRating: null,
+          averageStars: null,
+          ratingCount: 0,
+        },
+      ]);
+    });
+  });
+
+  describe('getTopTracks', () => {
+    it('should rank rated tracks by average then number of ratings', async () => {
+      mockPrismaService.track.findMany.mockResolvedValue(tracks);
+      mockPrismaService.reviewTrackRating.groupBy.mockResolvedValue([
+        { trackId: 1, _avg: { rating: 8 }, _count: { _all: 1 } },
+        { trackId: 2, _avg: { rating: 8 }, _count: { _all: 3 } },
+        { trackId: 3, _avg: { rating: 10 }, _count: { _all: 1 } },
+      ]);
+
+      const result = await service.getTopTracks(1, 2);
+
+      expect(result.map((track) => track.id)).toEqual([3, 2]);
+    });
+
+    it('should ignore tracks without ratings', async () => {
+      mockPrismaService.track.findMany.mockResolvedValue(tracks);
+      mockPrismaService.reviewTrackRating.groupBy.mockResolvedValue([]);
+
+      const result = await service.getTopTracks(1);
+
+      expect(result).toEqual([]);
+    });
+  });
+});
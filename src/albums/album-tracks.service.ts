@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { CatalogTrack } from '../music-api/music-catalog-provider.interface';
+import { toStars } from './rating-scale';
+
+// Ordre de lecture de l'album
+const TRACK_ORDER = [
+  { discNumber: 'asc' as const },
+  { trackNumber: 'asc' as const },
+];
+
+// Pistes des albums et notes reçues dans les critiques
+@Injectable()
+export class AlbumTracksService {
+  constructor(private prisma: PrismaService) {}
+
+  // Enregistrer les pistes d'un album importé depuis le catalogue
+  // Les pistes déjà enregistrées sont ignorées
+  async saveTracks(albumId: number, tracks: CatalogTrack[] = []) {
+    if (tracks.length === 0) {
+      return 0;
+    }
+
+    const { count } = await this.prisma.track.createMany({
+      data: tracks.map((track) => ({
+        albumId,
+        name: track.name,
+        durationMs: track.duration ?? null,
+        discNumber: track.discNumber ?? 1,
+        trackNumber: track.trackNumber,
+      })),
+      skipDuplicates: true,
+    });
+
+    return count;
+  }
+
+  // Pistes d'un album dans l'ordre de lecture, avec leur note moyenne
+  // (null si aucune critique ne les a notées), sa valeur en étoiles et leur
+  // nombre de notes
+  async findByAlbumId(albumId: number) {
+    const [tracks, groups] = await Promise.all([
+      this.prisma.track.findMany({
+        where: { albumId },
+        orderBy: TRACK_ORDER,
+      }),
+      this.prisma.reviewTrackRating.groupBy({
+        by: ['trackId'],
+        where: { track: { albumId } },
+        _avg: { rating: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const groupsByTrackId = new Map<number, (typeof groups)[number]>(
+      groups.map((group) => [group.trackId, group]),
+    );
+
+    return tracks.map((track) => {
+      const group = groupsByTrackId.get(track.id);
+      const averageRating: number | null = group?._avg.rating ?? null;
+      return {
+        ...track,
+        averageRating,
+        averageStars: averageRating === null ? null : toStars(averageRating),
+        ratingCount: group?._count._all ?? 0,
+      };
+    });
+  }
+
+  // Pistes les mieux notées d'un album : moyenne, puis nombre de notes,
+  // puis ordre de lecture
+  async getTopTracks(albumId: number, limit = 5) {
+    const tracks = await this.findByAlbumId(albumId);
+
+    return tracks
+      .filter((track) => track.ratingCount > 0)
+      .sort(
+        (a, b) =>
+          (b.averageRating ?? 0) - (a.averageRating ?? 0) ||
+          b.ratingCount - a.ratingCount,
+      )
+      .slice(0, limit);
+  }
+}
@@ -3,6 +3,7 @@ import { AlbumsController } from './albums.controller';
 import { AlbumsService } from './albums.service';
 import { ExecutionContext, NotFoundException } from '@nestjs/common';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AlbumSortBy } from './enums/album-sort-by.enum';
 
 describe('AlbumsController', () => {
   let controller: AlbumsController;
@@ -48,6 +49,9 @@ describe('AlbumsController', () => {
     getAlbumRating: jest
       .fn()
       .mockResolvedValue({ averageRating: 4, reviewCount: 2 }),
+    findTracks: jest
+      .fn()
+      .mockResolvedValue([{ id: 1, name: 'Track 1', averageRating: 4 }]),
   };
 
   // Mock JWT Guard
@@ -85,19 +89,28 @@ describe('AlbumsController', () => {
 
   describe('search', () => {
     it('should search for albums', async () => {
-      const result = await controller.search({ query: 'test album' });
+      const result = await controller.search(
+        { query: 'test album', page: 2, limit: 5 },
+        mockUser,
+      );
 
       expect(result).toEqual([mockAlbum]);
-      expect(albumsService.searchAlbums).toHaveBeenCalledWith('test album');
+      expect(albumsService.searchAlbums).toHaveBeenCalledWith(
+        'test album',
+        2,
+        5,
+        mockUser.id,
+      );
     });
   });
 
   describe('findAll', () => {
     it('should return all albums', async () => {
-      const result = await controller.findAll();
+      const query = { sortBy: AlbumSortBy.AverageRating, take: 10 };
+      const result = await controller.findAll(query);
 
       expect(result).toEqual([mockAlbum]);
-      expect(albumsService.findAll).toHaveBeenCalled();
+      expect(albumsService.findAll).toHaveBeenCalledWith(query);
     });
   });
 
@@ -145,6 +158,15 @@ describe('AlbumsController', () => {
     });
   });
 
+  describe('findTracks', () => {
+    it('should return the tracks of an album', async () => {
+      const result = await controller.findTracks(1);
+
+      expect(result).toEqual([{ id: 1, name: 'Track 1', averageRating: 4 }]);
+      expect(albumsService.findTracks).toHaveBeenCalledWith(1);
+    });
+  });
+
   describe('getAlbumRating', () => {
     it('should return album rating', async () => {
       const result = await controller.getAlbumRating(1);
@@ -6,12 +6,12 @@ import {
   UseGuards,
   ParseIntPipe,
   NotFoundException,
-  HttpStatus,
-  HttpException,
 } from '@nestjs/common';
 import { AlbumsService } from './albums.service';
 import { SearchAlbumsDto } from './dto/search-albums.dto';
+import { GetAlbumsDto } from './dto/get-albums.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import {
   ApiTags,
   ApiOperation,
@@ -26,18 +26,24 @@ import {
 export class AlbumsController {
   constructor(private readonly albumsService: AlbumsService) {}
 
-  @ApiOperation({ summary: 'Rechercher des albums' })
+  @ApiOperation({
+    summary: 'Rechercher des albums',
+    description:
+      "Fusionne les résultats de l'API musicale avec les albums déjà enregistrés (albums locaux en tête de la première page, sans doublon)",
+  })
   @ApiResponse({
     status: 200,
-    description: 'Liste des albums correspondant à la recherche',
+    description:
+      'Albums correspondant à la recherche, avec leur ID interne (null si jamais importé), leur note moyenne, leur nombre de critiques et reviewedByMe',
   })
   @UseGuards(JwtAuthGuard)
   @Get('search')
-  search(@Query() searchAlbumsDto: SearchAlbumsDto) {
+  search(@Query() searchAlbumsDto: SearchAlbumsDto, @CurrentUser() user) {
     return this.albumsService.searchAlbums(
       searchAlbumsDto.query,
       searchAlbumsDto.page,
       searchAlbumsDto.limit,
+      user.id,
     );
   }
 
@@ -68,7 +74,8 @@ export class AlbumsController {
   })
   @ApiResponse({
     status: 200,
-    description: "Détails de l'album",
+    description:
+      "Détails de l'album et ses pistes les mieux notées (topTracks)",
   })
   @ApiResponse({
     status: 404,
@@ -102,19 +109,20 @@ export class AlbumsController {
   @ApiOperation({ summary: 'Récupérer tous les albums' })
   @ApiResponse({
     status: 200,
-    description: 'Liste de tous les albums',
+    description: 'Liste paginée des albums',
   })
   @UseGuards(JwtAuthGuard)
   @Get()
-  findAll() {
-    return this.albumsService.findAll();
+  findAll(@Query() query: GetAlbumsDto) {
+    return this.albumsService.findAll(query);
   }
 
   @ApiOperation({ summary: 'Récupérer un album par son ID' })
   @ApiParam({ name: 'id', description: "ID de l'album", type: 'number' })
   @ApiResponse({
     status: 200,
-    description: "Détails de l'album",
+    description:
+      "Détails de l'album et ses pistes les mieux notées (topTracks)",
   })
   @ApiResponse({
     status: 404,
@@ -126,11 +134,33 @@ export class AlbumsController {
     return this.albumsService.findOne(id);
   }
 
-  @ApiOperation({ summary: "Obtenir la note moyenne d'un album" })
+  @ApiOperation({ summary: "Lister les pistes d'un album" })
+  @ApiParam({ name: 'id', description: "ID de l'album", type: 'number' })
+  @ApiResponse({
+    status: 200,
+    description:
+      "Pistes dans l'ordre de lecture, avec leur note moyenne dans les critiques et leur nombre de notes",
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Album non trouvé',
+  })
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/tracks')
+  findTracks(@Param('id', ParseIntPipe) id: number) {
+    return this.albumsService.findTracks(id);
+  }
+
+  @ApiOperation({ summary: "Obtenir les statistiques de notes d'un album" })
   @ApiParam({ name: 'id', description: "ID de l'album", type: 'number' })
   @ApiResponse({
     status: 200,
-    description: "Note moyenne et nombre d'avis",
+    description:
+      "Note moyenne, nombre d'avis, répartition des notes, médiane, écart-type et score pondéré (bayésien)",
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Album non trouvé',
   })
   @UseGuards(JwtAuthGuard)
   @Get(':id/rating')
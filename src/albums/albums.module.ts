@@ -1,14 +1,17 @@
 import { Module } from '@nestjs/common';
 import { AlbumsController } from './albums.controller';
 import { AlbumsService } from './albums.service';
+import { AlbumRatingsService } from './album-ratings.service';
+import { AlbumTracksService } from './album-tracks.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { MusicApiModule } from '../music-api/music-api.module';
 import { ArtistsModule } from '../artists/artists.module';
+import { SearchModule } from '../search/search.module';
 
 @Module({
-  imports: [PrismaModule, MusicApiModule, ArtistsModule],
+  imports: [PrismaModule, MusicApiModule, ArtistsModule, SearchModule],
   controllers: [AlbumsController],
-  providers: [AlbumsService],
-  exports: [AlbumsService],
+  providers: [AlbumsService, AlbumRatingsService, AlbumTracksService],
+  exports: [AlbumsService, AlbumRatingsService],
 })
 export class AlbumsModule {}
@@ -1,40 +1,67 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { AlbumsService } from './albums.service';
 import { PrismaService } from '../prisma/prisma.service';
-import { MusicApiService } from '../music-api/music-api.service';
+import {
+  MUSIC_CATALOG_PROVIDER,
+  MusicCatalogProvider,
+} from '../music-api/music-catalog-provider.interface';
 import { ArtistsService } from '../artists/artists.service';
+import { AlbumRatingsService } from './album-ratings.service';
+import { AlbumTracksService } from './album-tracks.service';
+import { SearchService } from '../search/search.service';
+import { AlbumSortBy } from './enums/album-sort-by.enum';
+import { AlbumArtistRole } from './enums/album-artist-role.enum';
+import { AlbumType } from './enums/album-type.enum';
+import { ReleaseDatePrecision } from './enums/release-date-precision.enum';
 import { ConflictException, NotFoundException } from '@nestjs/common';
 import { CreateAlbumDto } from './dto/create-album.dto';
 
 describe('AlbumsService', () => {
   let service: AlbumsService;
   let prismaService: PrismaService;
-  let musicApiService: MusicApiService;
+  let musicApiService: MusicCatalogProvider;
   let artistsService: ArtistsService;
 
   const mockAlbum = {
     id: 1,
+    provider: 'spotify',
     externalId: 'album123',
     title: 'Test Album',
     releaseDate: new Date('2023-01-01'),
+    releaseDatePrecision: null,
     coverUrl: 'http://example.com/cover.jpg',
+    albumType: null,
+    totalTracks: null,
+    label: null,
+    lastSyncedAt: null,
+    removedAt: null,
     artistId: 1,
-    createdAt: new Date(),
-    updatedAt: new Date(),
+    averageRating: 0,
+    reviewCount: 0,
+    ratingSum: 0,
     artist: {
       id: 1,
+      provider: 'spotify',
       externalId: 'artist123',
       name: 'Test Artist',
       imageUrl: 'http://example.com/artist.jpg',
-      createdAt: new Date(),
-      updatedAt: new Date(),
+      popularity: null,
+      albumsSyncedAt: null,
+      lastSyncedAt: null,
     },
     reviews: [],
   };
+  // Album tel que restitué par l'API (date de sortie à sa précision)
+  const mockAlbumOutput = {
+    ...mockAlbum,
+    releaseDate: '2023-01-01',
+    averageStars: 0,
+  };
 
   const mockPrismaService = {
     album: {
       findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
       create: jest.fn(),
       findMany: jest.fn(),
     },
@@ -47,6 +74,7 @@ describe('AlbumsService', () => {
   };
 
   const mockMusicApiService = {
+    providerName: 'spotify',
     searchAlbums: jest.fn(),
     getAlbumDetails: jest.fn(),
     getArtistDetails: jest.fn(),
@@ -57,6 +85,20 @@ describe('AlbumsService', () => {
     create: jest.fn(),
   };
 
+  const mockAlbumRatingsService = {
+    getStatistics: jest.fn(),
+  };
+
+  const mockSearchService = {
+    searchAlbumIds: jest.fn(),
+  };
+
+  const mockAlbumTracksService = {
+    saveTracks: jest.fn(),
+    findByAlbumId: jest.fn(),
+    getTopTracks: jest.fn(),
+  };
+
   beforeEach(async () => {
     jest.clearAllMocks();
 
@@ -68,19 +110,31 @@ describe('AlbumsService', () => {
           useValue: mockPrismaService,
         },
         {
-          provide: MusicApiService,
+          provide: MUSIC_CATALOG_PROVIDER,
           useValue: mockMusicApiService,
         },
         {
           provide: ArtistsService,
           useValue: mockArtistsService,
         },
+        {
+          provide: AlbumRatingsService,
+          useValue: mockAlbumRatingsService,
+        },
+        {
+          provide: SearchService,
+          useValue: mockSearchService,
+        },
+        {
+          provide: AlbumTracksService,
+          useValue: mockAlbumTracksService,
+        },
       ],
     }).compile();
 
     service = module.get<AlbumsService>(AlbumsService);
     prismaService = module.get<PrismaService>(PrismaService);
-    musicApiService = module.get<MusicApiService>(MusicApiService);
+    musicApiService = module.get<MusicCatalogProvider>(MUSIC_CATALOG_PROVIDER);
     artistsService = module.get<ArtistsService>(ArtistsService);
   });
 
@@ -89,16 +143,209 @@ describe('AlbumsService', () => {
   });
 
   describe('searchAlbums', () => {
-    it('should search for albums via music API', async () => {
-      const mockApiResults = [{ name: 'Test Album', artist: 'Test Artist' }];
-      mockMusicApiService.searchAlbums.mockResolvedValue(mockApiResults);
+    const catalogAlbum = (externalId: string, title: string) => ({
+      externalId,
+      title,
+      releaseDate: '2001-03-12',
+      coverUrl: 'http://example.com/cover.jpg',
+      artistName: 'Daft Punk',
+      artistExternalId: 'artist123',
+    });
+
+    const storedAlbum = (id: number, externalId: string, title: string) => ({
+      id,
+      provider: 'spotify',
+      externalId,
+      title,
+      releaseDate: new Date('2001-03-12'),
+      coverUrl: null,
+      averageRating: 9,
+      reviewCount: 2,
+      artist: { name: 'Daft Punk', externalId: 'artist123' },
+    });
+
+    it('should annotate catalog results with local data', async () => {
+      mockMusicApiService.searchAlbums.mockResolvedValue([
+        catalogAlbum('album123', 'Discovery'),
+        catalogAlbum('album456', 'Homework'),
+      ]);
+      mockSearchService.searchAlbumIds.mockResolvedValue([]);
+      mockPrismaService.album.findMany.mockResolvedValue([
+        storedAlbum(1, 'album123', 'Discovery'),
+      ]);
+      mockPrismaService.review.findMany.mockResolvedValue([{ albumId: 1 }]);
+
+      const result = await service.searchAlbums('discovery', 1, 10, 7);
+
+      expect(mockMusicApiService.searchAlbums).toHaveBeenCalledWith(
+        'discovery',
+        10,
+        0,
+      );
+      expect(mockPrismaService.album.findMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { id: { in: [] } },
+            {
+              provider: 'spotify',
+              externalId: { in: ['album123', 'album456'] },
+            },
+          ],
+        },
+        include: { artist: true },
+      });
+      expect(mockPrismaService.review.findMany).toHaveBeenCalledWith({
+        where: { userId: 7, albumId: { in: [1] } },
+        select: { albumId: true },
+      });
+      expect(result).toEqual([
+        {
+          ...catalogAlbum('album123', 'Discovery'),
+          provider: 'spotify',
+          _uniqueId: 'spotify:album123',
+          id: 1,
+          averageRating: 9,
+          averageStars: 4.5,
+          reviewCount: 2,
+          reviewedByMe: true,
+        },
+        {
+          ...catalogAlbum('album456', 'Homework'),
+          provider: 'spotify',
+          _uniqueId: 'spotify:album456',
+          id: null,
+          averageRating: null,
+          averageStars: null,
+          reviewCount: 0,
+          reviewedByMe: false,
+        },
+      ]);
+    });
+
+    it('should list local hits first without duplicating catalog results', async () => {
+      mockMusicApiService.searchAlbums.mockResolvedValue([
+        catalogAlbum('album456', 'Homework'),
+        catalogAlbum('album123', 'Discovery'),
+      ]);
+      mockSearchService.searchAlbumIds.mockResolvedValue([2, 1]);
+      mockPrismaService.album.findMany.mockResolvedValue([
+        storedAlbum(1, 'album123', 'Discovery'),
+        storedAlbum(2, 'album789', 'Alive 2007'),
+      ]);
+      mockPrismaService.review.findMany.mockResolvedValue([]);
+
+      const result = await service.searchAlbums('daft punk', 1, 10, 7);
+
+      expect(result.map((album) => album.externalId)).toEqual([
+        'album789',
+        'album123',
+        'album456',
+      ]);
+      // Album local absent de la page de l'API : construit depuis la base
+      expect(result[0]).toEqual({
+        externalId: 'album789',
+        title: 'Alive 2007',
+        releaseDate: '2001-03-12',
+        coverUrl: undefined,
+        artistName: 'Daft Punk',
+        artistExternalId: 'artist123',
+        provider: 'spotify',
+        _uniqueId: 'spotify:album789',
+        id: 2,
+        averageRating: 9,
+        averageStars: 4.5,
+        reviewCount: 2,
+        reviewedByMe: false,
+      });
+    });
+
+    it('should not return more results than the page size', async () => {
+      mockMusicApiService.searchAlbums.mockResolvedValue([
+        catalogAlbum('album456', 'Homework'),
+        catalogAlbum('album321', 'Human After All'),
+      ]);
+      mockSearchService.searchAlbumIds.mockResolvedValue([2, 1]);
+      mockPrismaService.album.findMany.mockResolvedValue([
+        storedAlbum(1, 'album123', 'Discovery'),
+        storedAlbum(2, 'album789', 'Alive 2007'),
+      ]);
+      mockPrismaService.review.findMany.mockResolvedValue([]);
+
+      const result = await service.searchAlbums('daft punk', 1, 2, 7);
+
+      // Les résultats locaux remplissent déjà la page
+      expect(mockMusicApiService.searchAlbums).not.toHaveBeenCalled();
+      expect(result.map((album) => album.externalId)).toEqual([
+        'album789',
+        'album123',
+      ]);
+    });
 
-      const result = await service.searchAlbums('test query');
+    it('should only list local hits on the first page', async () => {
+      mockMusicApiService.searchAlbums.mockResolvedValue([
+        catalogAlbum('album123', 'Discovery'),
+        catalogAlbum('album456', 'Homework'),
+      ]);
+      mockSearchService.searchAlbumIds.mockResolvedValue([1]);
+      mockPrismaService.album.findMany.mockResolvedValue([
+        storedAlbum(1, 'album123', 'Discovery'),
+      ]);
+      mockPrismaService.review.findMany.mockResolvedValue([]);
+
+      const result = await service.searchAlbums('discovery', 2, 10, 7);
 
-      expect(result).toEqual(mockApiResults);
+      // La première page n'a montré que 9 résultats de l'API
       expect(mockMusicApiService.searchAlbums).toHaveBeenCalledWith(
-        'test query',
+        'discovery',
+        10,
+        9,
+      );
+      // Déjà affiché en tête de la première page
+      expect(result.map((album) => album.externalId)).toEqual(['album456']);
+    });
+
+    it('should show every catalog result across pages', async () => {
+      const catalog = [
+        catalogAlbum('album456', 'Homework'),
+        catalogAlbum('album321', 'Human After All'),
+        catalogAlbum('album654', 'Random Access Memories'),
+      ];
+      mockMusicApiService.searchAlbums.mockImplementation(
+        (_query: string, limit: number, offset: number) =>
+          Promise.resolve(catalog.slice(offset, offset + limit)),
       );
+      mockSearchService.searchAlbumIds.mockResolvedValue([2]);
+      mockPrismaService.album.findMany.mockResolvedValue([
+        storedAlbum(2, 'album789', 'Alive 2007'),
+      ]);
+      mockPrismaService.review.findMany.mockResolvedValue([]);
+
+      const firstPage = await service.searchAlbums('daft punk', 1, 2, 7);
+      const secondPage = await service.searchAlbums('daft punk', 2, 2, 7);
+
+      expect(firstPage.map((album) => album.externalId)).toEqual([
+        'album789',
+        'album456',
+      ]);
+      expect(secondPage.map((album) => album.externalId)).toEqual([
+        'album321',
+        'album654',
+      ]);
+    });
+
+    it('should not look up reviews without a user', async () => {
+      mockMusicApiService.searchAlbums.mockResolvedValue([
+        catalogAlbum('album123', 'Discovery'),
+      ]);
+      mockSearchService.searchAlbumIds.mockResolvedValue([]);
+      mockPrismaService.album.findMany.mockResolvedValue([
+        storedAlbum(1, 'album123', 'Discovery'),
+      ]);
+
+      const result = await service.searchAlbums('discovery');
+
+      expect(mockPrismaService.review.findMany).not.toHaveBeenCalled();
+      expect(result[0].reviewedByMe).toBe(false);
     });
   });
 
@@ -108,28 +355,50 @@ describe('AlbumsService', () => {
 
       const result = await service.getAlbumDetailsByExternalId('album123');
 
-      expect(result).toEqual(mockAlbum);
+      expect(result).toEqual(mockAlbumOutput);
       expect(mockPrismaService.album.findUnique).toHaveBeenCalledWith({
-        where: { externalId: 'album123' },
+        where: {
+          provider_externalId: { provider: 'spotify', externalId: 'album123' },
+        },
         include: {
           artist: true,
+          artists: {
+            include: { artist: true },
+            orderBy: { position: 'asc' },
+          },
           reviews: {
             include: { user: true },
             orderBy: { createdAt: 'desc' },
           },
+          tracks: {
+            orderBy: [{ discNumber: 'asc' }, { trackNumber: 'asc' }],
+          },
         },
       });
       expect(mockMusicApiService.getAlbumDetails).not.toHaveBeenCalled();
     });
 
     it('should fetch album from API and create it if not in database', async () => {
-      mockPrismaService.album.findUnique.mockResolvedValue(null);
+      const tracks = [{ name: 'Track 1', duration: 180000, trackNumber: 1 }];
+      mockPrismaService.album.findUnique.mockResolvedValueOnce(null);
+      mockPrismaService.album.findUniqueOrThrow.mockResolvedValueOnce(
+        mockAlbum,
+      );
       mockMusicApiService.getAlbumDetails.mockResolvedValue({
         externalId: 'album123',
         title: 'Test Album',
         releaseDate: '2023-01-01',
+        releaseDatePrecision: 'day',
         coverUrl: 'http://example.com/cover.jpg',
+        albumType: 'ep',
+        totalTracks: 1,
+        label: 'Test Records',
         artistExternalId: 'artist123',
+        artists: [
+          { externalId: 'artist123', name: 'Test Artist' },
+          { externalId: 'artist456', name: 'Guest', featured: true },
+        ],
+        tracks,
       });
 
       mockArtistsService.getArtistDetailsByExternalId.mockResolvedValue({
@@ -143,15 +412,24 @@ describe('AlbumsService', () => {
 
       const result = await service.getAlbumDetailsByExternalId('album123');
 
-      expect(result).toEqual(mockAlbum);
+      expect(result).toEqual(mockAlbumOutput);
       expect(mockPrismaService.album.findUnique).toHaveBeenCalledWith({
-        where: { externalId: 'album123' },
+        where: {
+          provider_externalId: { provider: 'spotify', externalId: 'album123' },
+        },
         include: {
           artist: true,
+          artists: {
+            include: { artist: true },
+            orderBy: { position: 'asc' },
+          },
           reviews: {
             include: { user: true },
             orderBy: { createdAt: 'desc' },
           },
+          tracks: {
+            orderBy: [{ discNumber: 'asc' }, { trackNumber: 'asc' }],
+          },
         },
       });
       expect(mockMusicApiService.getAlbumDetails).toHaveBeenCalledWith(
@@ -164,8 +442,38 @@ describe('AlbumsService', () => {
         externalId: 'album123',
         title: 'Test Album',
         releaseDate: '2023-01-01',
+        releaseDatePrecision: ReleaseDatePrecision.Day,
         coverUrl: 'http://example.com/cover.jpg',
+        albumType: AlbumType.Ep,
+        totalTracks: 1,
+        label: 'Test Records',
         artistExternalId: 'artist123',
+        artists: [
+          { externalId: 'artist123', role: AlbumArtistRole.Main },
+          { externalId: 'artist456', role: AlbumArtistRole.Featured },
+        ],
+      });
+      expect(mockAlbumTracksService.saveTracks).toHaveBeenCalledWith(
+        mockAlbum.id,
+        tracks,
+      );
+      // Album rechargé avec ses pistes
+      expect(mockPrismaService.album.findUniqueOrThrow).toHaveBeenCalledWith({
+        where: { id: mockAlbum.id },
+        include: {
+          artist: true,
+          artists: {
+            include: { artist: true },
+            orderBy: { position: 'asc' },
+          },
+          reviews: {
+            include: { user: true },
+            orderBy: { createdAt: 'desc' },
+          },
+          tracks: {
+            orderBy: [{ discNumber: 'asc' }, { trackNumber: 'asc' }],
+          },
+        },
       });
     });
   });
@@ -186,7 +494,9 @@ describe('AlbumsService', () => {
 
       expect(result).toEqual(mockAlbum);
       expect(mockPrismaService.album.findUnique).toHaveBeenCalledWith({
-        where: { externalId: 'album123' },
+        where: {
+          provider_externalId: { provider: 'spotify', externalId: 'album123' },
+        },
       });
       expect(mockPrismaService.album.create).not.toHaveBeenCalled();
     });
@@ -212,25 +522,105 @@ describe('AlbumsService', () => {
 
       expect(result).toEqual(mockAlbum);
       expect(mockPrismaService.album.findUnique).toHaveBeenCalledWith({
-        where: { externalId: 'album123' },
+        where: {
+          provider_externalId: { provider: 'spotify', externalId: 'album123' },
+        },
       });
       expect(mockPrismaService.artist.findUnique).toHaveBeenCalledWith({
-        where: { externalId: 'artist123' },
+        where: {
+          provider_externalId: { provider: 'spotify', externalId: 'artist123' },
+        },
       });
       expect(mockPrismaService.album.create).toHaveBeenCalledWith({
         data: {
+          provider: 'spotify',
           externalId: 'album123',
           title: 'Test Album',
           releaseDate: new Date('2023-01-01'),
+          releaseDatePrecision: ReleaseDatePrecision.Day,
           coverUrl: 'http://example.com/cover.jpg',
           artist: {
             connect: { id: 1 },
           },
+          artists: {
+            create: [
+              { role: 'MAIN', position: 0, artist: { connect: { id: 1 } } },
+            ],
+          },
+        },
+        include: {
+          artist: true,
+          artists: {
+            include: { artist: true },
+            orderBy: { position: 'asc' },
+          },
         },
-        include: { artist: true },
       });
     });
 
+    it('should store partial release dates with their precision', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue(null);
+      mockPrismaService.artist.findUnique.mockResolvedValue({ id: 1 });
+      mockPrismaService.album.create.mockResolvedValue(mockAlbum);
+
+      await service.create({
+        externalId: 'album123',
+        title: 'The Dark Side of the Moon',
+        releaseDate: '1973',
+        artistExternalId: 'artist123',
+      });
+
+      expect(mockPrismaService.album.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            releaseDate: new Date('1973-01-01T00:00:00Z'),
+            releaseDatePrecision: ReleaseDatePrecision.Year,
+          }),
+        }),
+      );
+    });
+
+    it('should credit every artist with the main artist first', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue(null);
+      mockPrismaService.artist.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve({
+          id: Number(where.provider_externalId.externalId.slice(-1)),
+        }),
+      );
+      mockPrismaService.album.create.mockResolvedValue(mockAlbum);
+
+      await service.create({
+        externalId: 'album123',
+        title: 'Watch the Throne',
+        artistExternalId: 'artist2',
+        artists: [
+          { externalId: 'artist3' },
+          { externalId: 'artist2' },
+          { externalId: 'artist4', role: AlbumArtistRole.Featured },
+          { externalId: 'artist3' },
+        ],
+      });
+
+      expect(mockPrismaService.album.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            artist: { connect: { id: 2 } },
+            artists: {
+              create: [
+                { role: 'MAIN', position: 0, artist: { connect: { id: 2 } } },
+                { position: 1, role: 'MAIN', artist: { connect: { id: 3 } } },
+                {
+                  role: 'FEATURED',
+                  position: 2,
+                  artist: { connect: { id: 4 } },
+                },
+              ],
+            },
+          }),
+        }),
+      );
+    });
+
     it('should create a new album and artist if both do not exist', async () => {
       mockPrismaService.album.findUnique.mockResolvedValue(null);
       mockPrismaService.artist.findUnique.mockResolvedValue(null);
@@ -261,10 +651,14 @@ describe('AlbumsService', () => {
 
       expect(result).toEqual(mockAlbum);
       expect(mockPrismaService.album.findUnique).toHaveBeenCalledWith({
-        where: { externalId: 'album123' },
+        where: {
+          provider_externalId: { provider: 'spotify', externalId: 'album123' },
+        },
       });
       expect(mockPrismaService.artist.findUnique).toHaveBeenCalledWith({
-        where: { externalId: 'artist123' },
+        where: {
+          provider_externalId: { provider: 'spotify', externalId: 'artist123' },
+        },
       });
       expect(mockMusicApiService.getArtistDetails).toHaveBeenCalledWith(
         'artist123',
@@ -315,30 +709,118 @@ describe('AlbumsService', () => {
 
       const result = await service.findAll();
 
-      expect(result).toEqual(mockAlbums);
+      expect(result).toEqual({
+        items: [{ ...mockAlbumOutput, _count: { reviews: 2 } }],
+        pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+      });
       expect(mockPrismaService.album.findMany).toHaveBeenCalledWith({
+        where: { removedAt: null },
         include: {
           artist: true,
           _count: {
             select: { reviews: true },
           },
         },
-        orderBy: { releaseDate: 'desc' },
+        orderBy: [
+          { releaseDate: { sort: 'desc', nulls: 'last' } },
+          { id: 'desc' },
+        ],
+        take: 11,
       });
     });
+
+    it('should sort albums by average rating', async () => {
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      await service.findAll({ sortBy: AlbumSortBy.AverageRating });
+
+      expect(mockPrismaService.album.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ averageRating: 'desc' }, { id: 'asc' }],
+        }),
+      );
+    });
+
+    it('should filter albums by genre', async () => {
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      await service.findAll({ genre: 'french-house' });
+
+      expect(mockPrismaService.album.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            removedAt: null,
+            artists: {
+              some: {
+                artist: {
+                  genres: { some: { genre: { slug: 'french-house' } } },
+                },
+              },
+            },
+          },
+        }),
+      );
+    });
+
+    it('should filter albums by release decade', async () => {
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      await service.findAll({ releaseDecade: 1970 });
+
+      expect(mockPrismaService.album.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            removedAt: null,
+            releaseDate: {
+              gte: new Date('1970-01-01T00:00:00Z'),
+              lt: new Date('1980-01-01T00:00:00Z'),
+            },
+          },
+        }),
+      );
+    });
+
+    it('should filter albums by release type', async () => {
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      await service.findAll({ albumType: AlbumType.Ep, genre: 'french-house' });
+
+      expect(mockPrismaService.album.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            removedAt: null,
+            albumType: AlbumType.Ep,
+            artists: {
+              some: {
+                artist: {
+                  genres: { some: { genre: { slug: 'french-house' } } },
+                },
+              },
+            },
+          },
+        }),
+      );
+    });
   });
 
   describe('findOne', () => {
-    it('should return an album by id', async () => {
+    it('should return an album by id with its top rated tracks', async () => {
+      const topTracks = [{ id: 3, name: 'Track 3', averageRating: 5 }];
       mockPrismaService.album.findUnique.mockResolvedValue(mockAlbum);
+      mockAlbumTracksService.getTopTracks.mockResolvedValue(topTracks);
 
       const result = await service.findOne(1);
 
-      expect(result).toEqual(mockAlbum);
+      expect(result).toEqual({ ...mockAlbumOutput, topTracks });
+      expect(mockAlbumTracksService.getTopTracks).toHaveBeenCalledWith(1);
       expect(mockPrismaService.album.findUnique).toHaveBeenCalledWith({
         where: { id: 1 },
         include: {
           artist: true,
+          artists: {
+            include: { artist: true },
+            orderBy: { position: 'asc' },
+          },
           reviews: {
             include: { user: true },
             orderBy: { createdAt: 'desc' },
@@ -347,6 +829,23 @@ describe('AlbumsService', () => {
       });
     });
 
+    it('should give the average and the reviews in stars', async () => {
+      const review = { id: 5, rating: 7, updatedAt: null };
+      mockPrismaService.album.findUnique.mockResolvedValue({
+        ...mockAlbum,
+        averageRating: 7,
+        reviews: [review],
+      });
+      mockAlbumTracksService.getTopTracks.mockResolvedValue([]);
+
+      const result = await service.findOne(1);
+
+      expect(result.averageStars).toBe(3.5);
+      expect(result.reviews).toEqual([
+        { ...review, stars: 3.5, edited: false },
+      ]);
+    });
+
     it('should throw NotFoundException if album not found', async () => {
       mockPrismaService.album.findUnique.mockResolvedValue(null);
 
@@ -354,32 +853,102 @@ describe('AlbumsService', () => {
     });
   });
 
-  describe('getAlbumRating', () => {
-    it('should calculate average rating and return count', async () => {
-      const mockReviews = [{ rating: 4 }, { rating: 5 }, { rating: 3 }];
-      mockPrismaService.review.findMany.mockResolvedValue(mockReviews);
+  describe('findTracks', () => {
+    const tracks = [
+      { id: 1, name: 'Track 1', averageRating: 4, ratingCount: 2 },
+      { id: 2, name: 'Track 2', averageRating: null, ratingCount: 0 },
+    ];
 
-      const result = await service.getAlbumRating(1);
+    it('should return the stored tracks of an album', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue({
+        ...mockAlbum,
+        provider: 'spotify',
+      });
+      mockAlbumTracksService.findByAlbumId.mockResolvedValue(tracks);
 
-      expect(result).toEqual({
-        averageRating: 4,
-        reviewCount: 3,
+      const result = await service.findTracks(1);
+
+      expect(result).toEqual(tracks);
+      expect(mockAlbumTracksService.findByAlbumId).toHaveBeenCalledWith(1);
+      expect(mockMusicApiService.getAlbumDetails).not.toHaveBeenCalled();
+    });
+
+    it('should import missing tracks from the catalog', async () => {
+      const catalogTracks = [
+        { name: 'Track 1', duration: 180000, trackNumber: 1 },
+        { name: 'Track 2', duration: 210000, trackNumber: 2 },
+      ];
+      mockPrismaService.album.findUnique.mockResolvedValue({
+        ...mockAlbum,
+        provider: 'spotify',
       });
-      expect(mockPrismaService.review.findMany).toHaveBeenCalledWith({
-        where: { albumId: 1 },
-        select: { rating: true },
+      mockAlbumTracksService.findByAlbumId
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce(tracks);
+      mockMusicApiService.getAlbumDetails.mockResolvedValue({
+        externalId: 'album123',
+        tracks: catalogTracks,
       });
+      mockAlbumTracksService.saveTracks.mockResolvedValue(2);
+
+      const result = await service.findTracks(1);
+
+      expect(mockMusicApiService.getAlbumDetails).toHaveBeenCalledWith(
+        'album123',
+      );
+      expect(mockAlbumTracksService.saveTracks).toHaveBeenCalledWith(
+        1,
+        catalogTracks,
+      );
+      expect(result).toEqual(tracks);
     });
 
-    it('should return zero rating when no reviews exist', async () => {
-      mockPrismaService.review.findMany.mockResolvedValue([]);
+    it('should not import tracks of an album from another catalog', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue({
+        ...mockAlbum,
+        provider: 'musicbrainz',
+      });
+      mockAlbumTracksService.findByAlbumId.mockResolvedValue([]);
+
+      const result = await service.findTracks(1);
+
+      expect(result).toEqual([]);
+      expect(mockMusicApiService.getAlbumDetails).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if album not found', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue(null);
+
+      await expect(service.findTracks(999)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('getAlbumRating', () => {
+    it('should return the album rating statistics', async () => {
+      const statistics = {
+        averageRating: 4,
+        reviewCount: 3,
+        histogram: { 1: 0, 2: 0, 3: 1, 4: 1, 5: 1 },
+        median: 4,
+        standardDeviation: Math.sqrt(2 / 3),
+        weightedScore: 3.75,
+        globalAverageRating: 3.6,
+      };
+      mockAlbumRatingsService.getStatistics.mockResolvedValue(statistics);
 
       const result = await service.getAlbumRating(1);
 
-      expect(result).toEqual({
-        averageRating: 0,
-        reviewCount: 0,
-      });
+      expect(result).toEqual(statistics);
+      expect(mockAlbumRatingsService.getStatistics).toHaveBeenCalledWith(1);
+      expect(mockPrismaService.review.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if album not found', async () => {
+      mockAlbumRatingsService.getStatistics.mockResolvedValue(null);
+
+      await expect(service.getAlbumRating(999)).rejects.toThrow(
+        NotFoundException,
+      );
     });
   });
 });
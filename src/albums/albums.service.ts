@@ -1,40 +1,179 @@
 import {
+  Inject,
   Injectable,
   NotFoundException,
   ConflictException,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
-import { MusicApiService } from '../music-api/music-api.service';
+import {
+  CatalogAlbum,
+  MUSIC_CATALOG_PROVIDER,
+  type MusicCatalogProvider,
+} from '../music-api/music-catalog-provider.interface';
+import type { CatalogAlbumType } from '../music-api/album-classification';
 import { CreateAlbumDto } from './dto/create-album.dto';
+import { AlbumArtistCreditDto } from './dto/album-artist-credit.dto';
 import { ArtistsService } from '../artists/artists.service';
+import { AlbumRatingsService } from './album-ratings.service';
+import { AlbumTracksService } from './album-tracks.service';
+import { AlbumSortBy } from './enums/album-sort-by.enum';
+import { AlbumArtistRole } from './enums/album-artist-role.enum';
+import { GetAlbumsDto } from './dto/get-albums.dto';
+import { paginate, SortKey } from '../common/pagination/paginate';
+import { SearchService } from '../search/search.service';
+import { albumGenreWhere } from '../genres/genre-filters';
+import { toAlbumReleaseMetadata } from './catalog-album-metadata';
+import { AlbumRow, toAlbumOutput } from './album-output';
+import { toStars } from './rating-scale';
+import { ReviewRow, toReviewOutput } from '../reviews/review-output';
+import {
+  formatReleaseDate,
+  parseReleaseDate,
+  releasePeriodWhere,
+} from './release-date';
+
+// Artistes crédités, dans l'ordre du catalogue
+const albumArtistsInclude = {
+  include: { artist: true },
+  orderBy: { position: 'asc' as const },
+};
+
+// Album complet renvoyé lors de la consultation par ID externe
+const albumDetailsInclude = {
+  artist: true,
+  artists: albumArtistsInclude,
+  reviews: {
+    include: { user: true },
+    orderBy: { createdAt: 'desc' as const },
+  },
+  tracks: {
+    orderBy: [{ discNumber: 'asc' as const }, { trackNumber: 'asc' as const }],
+  },
+};
+
+// Album enregistré, avec son artiste, tel que lu par la recherche hybride
+type LocalAlbum = Prisma.AlbumGetPayload<{ include: { artist: true } }>;
 
 @Injectable()
 export class AlbumsService {
   constructor(
     private prisma: PrismaService,
-    private musicApiService: MusicApiService,
+    @Inject(MUSIC_CATALOG_PROVIDER)
+    private musicApiService: MusicCatalogProvider,
     private artistsService: ArtistsService,
+    private albumRatingsService: AlbumRatingsService,
+    private searchService: SearchService,
+    private albumTracksService: AlbumTracksService,
   ) {}
 
-  // Recherche d'albums via l'API externe avec pagination
-  async searchAlbums(query: string, page = 1, limit = 10) {
-    // Créer un identifiant unique basé sur l'offset plutôt que la page
-    // pour éviter les doublons entre les pages
+  // Recherche hybride : résultats de l'API externe fusionnés avec les albums
+  // déjà enregistrés localement. Chaque résultat indique l'ID interne de
+  // l'album (null s'il n'a jamais été importé), ses agrégats de notes et si
+  // l'utilisateur l'a déjà critiqué
+  // Les albums locaux correspondant à la recherche sont placés en tête de la
+  // première page et retirés des pages de l'API pour éviter les doublons ;
+  // la page ne dépasse jamais `limit` résultats
+  async searchAlbums(query: string, page = 1, limit = 10, userId?: number) {
     const offset = (page - 1) * limit;
+    const provider = this.musicApiService.providerName;
 
-    // Demander exactement le nombre d'éléments dont on a besoin
-    const albums = await this.musicApiService.searchAlbums(
-      query,
-      limit,
-      offset,
+    const localIds = await this.searchService.searchAlbumIds(query, limit);
+
+    // Les résultats locaux occupent le début de la première page : l'API
+    // comble le reste, et les pages suivantes reprennent là où la précédente
+    // s'est arrêtée pour ne sauter aucun résultat
+    const catalogOffset = page === 1 ? 0 : offset - localIds.length;
+    const catalogLimit = page === 1 ? limit - localIds.length : limit;
+    const catalogAlbums =
+      catalogLimit > 0
+        ? await this.musicApiService.searchAlbums(
+            query,
+            catalogLimit,
+            catalogOffset,
+          )
+        : [];
+
+    // Albums locaux trouvés par la recherche plein texte, et albums de la page
+    // de l'API déjà importés même s'ils ne sont pas parmi les meilleurs
+    // résultats locaux
+    const storedAlbums: LocalAlbum[] = await this.prisma.album.findMany({
+      where: {
+        OR: [
+          { id: { in: localIds } },
+          {
+            provider,
+            externalId: { in: catalogAlbums.map((album) => album.externalId) },
+          },
+        ],
+      },
+      include: { artist: true },
+    });
+
+    const localById = new Map<number, LocalAlbum>(
+      storedAlbums.map((album) => [album.id, album]),
+    );
+    const localHits = localIds.flatMap((id) => {
+      const album = localById.get(id);
+      return album ? [album] : [];
+    });
+    const localByKey = new Map<string, LocalAlbum>(
+      storedAlbums.map((album) => [
+        this.searchKey(album.provider, album.externalId),
+        album,
+      ]),
+    );
+    const reviewedAlbumIds = await this.findReviewedAlbumIds(
+      userId,
+      storedAlbums.map((album) => album.id),
     );
 
-    // Ajouter un identifiant unique basé sur la position pour chaque album
-    // pour aider le frontend à identifier les doublons
-    return albums.map((album, index) => ({
-      ...album,
-      _uniqueId: `${album.externalId || album.id}_${album.albumType}_${offset + index}`,
-    }));
+    // Chaque album n'apparaît qu'une fois : les résultats locaux, puis les
+    // résultats de l'API qui n'y figurent pas encore
+    const seen = new Set<string>(
+      localHits.map((album) =>
+        this.searchKey(album.provider, album.externalId),
+      ),
+    );
+    const catalogByKey = new Map<string, CatalogAlbum>(
+      catalogAlbums.map((album) => [
+        this.searchKey(provider, album.externalId),
+        album,
+      ]),
+    );
+
+    const localResults =
+      page === 1
+        ? localHits.map((local) =>
+            this.toSearchResult(
+              catalogByKey.get(
+                this.searchKey(local.provider, local.externalId),
+              ) ?? this.toCatalogAlbum(local),
+              local.provider,
+              local,
+              reviewedAlbumIds,
+            ),
+          )
+        : [];
+
+    const catalogResults = catalogAlbums.flatMap((album) => {
+      const key = this.searchKey(provider, album.externalId);
+      if (seen.has(key)) {
+        return [];
+      }
+      seen.add(key);
+
+      return [
+        this.toSearchResult(
+          album,
+          provider,
+          localByKey.get(key),
+          reviewedAlbumIds,
+        ),
+      ];
+    });
+
+    return [...localResults, ...catalogResults].slice(0, limit);
   }
 
   // Recherche un album par ID externe avec correspondance approximative
@@ -47,45 +186,44 @@ export class AlbumsService {
   async getAlbumDetailsByExternalId(externalId: string) {
     // Chercher d'abord dans notre base de données
     const existingAlbum = await this.prisma.album.findUnique({
-      where: { externalId },
-      include: {
-        artist: true,
-        reviews: {
-          include: { user: true },
-          orderBy: { createdAt: 'desc' },
-        },
-      },
+      where: this.externalIdWhere(externalId),
+      include: albumDetailsInclude,
     });
 
     // Si l'album existe déjà dans la base, le retourner
     if (existingAlbum) {
-      return existingAlbum;
+      return this.toAlbumDetails(existingAlbum);
     }
 
-    try {
-      // Sinon, récupérer les détails depuis l'API externe
-      const albumDetails =
-        await this.musicApiService.getAlbumDetails(externalId);
+    // Sinon, récupérer les détails depuis l'API externe
+    const albumDetails = await this.musicApiService.getAlbumDetails(externalId);
 
-      // Créer ou récupérer l'artiste dans notre base
-      const artist = await this.artistsService.getArtistDetailsByExternalId(
-        albumDetails.artistExternalId,
-      );
+    // Créer ou récupérer l'artiste dans notre base
+    await this.artistsService.getArtistDetailsByExternalId(
+      albumDetails.artistExternalId,
+    );
 
-      // Créer l'album dans la base de données
-      return this.create({
-        externalId: albumDetails.externalId,
-        title: albumDetails.title,
-        releaseDate: albumDetails.releaseDate,
-        coverUrl: albumDetails.coverUrl,
-        artistExternalId: albumDetails.artistExternalId,
-      });
-    } catch (error) {
-      // Propager l'erreur d'origine sans tentative de recherche approximative
-      // Pour garantir une correspondance exacte comme demandé
+    // Créer l'album dans la base de données, avec ses pistes
+    const album = await this.create({
+      externalId: albumDetails.externalId,
+      title: albumDetails.title,
+      releaseDate: albumDetails.releaseDate,
+      coverUrl: albumDetails.coverUrl,
+      ...toAlbumReleaseMetadata(albumDetails),
+      artistExternalId: albumDetails.artistExternalId,
+      artists: albumDetails.artists?.map((artist) => ({
+        externalId: artist.externalId,
+        role: artist.featured ? AlbumArtistRole.Featured : AlbumArtistRole.Main,
+      })),
+    });
+    await this.albumTracksService.saveTracks(album.id, albumDetails.tracks);
 
-      throw error;
-    }
+    return this.toAlbumDetails(
+      await this.prisma.album.findUniqueOrThrow({
+        where: { id: album.id },
+        include: albumDetailsInclude,
+      }),
+    );
   }
 
   // Création d'un nouvel album dans la base de données
@@ -93,46 +231,51 @@ export class AlbumsService {
     try {
       // Vérifier si l'album existe déjà
       const existingAlbum = await this.prisma.album.findUnique({
-        where: { externalId: createAlbumDto.externalId },
+        where: this.externalIdWhere(createAlbumDto.externalId),
       });
 
       if (existingAlbum) {
         return existingAlbum;
       }
 
-      // Trouver l'artiste ou le créer s'il n'existe pas
-      let artist = await this.prisma.artist.findUnique({
-        where: { externalId: createAlbumDto.artistExternalId },
-      });
-
-      if (!artist) {
-        // Récupérer les informations de l'artiste depuis l'API externe
-        const artistDetails = await this.musicApiService.getArtistDetails(
-          createAlbumDto.artistExternalId,
-        );
-
-        // Créer l'artiste
-        artist = await this.artistsService.create({
-          externalId: artistDetails.externalId,
-          name: artistDetails.name,
-          imageUrl: artistDetails.imageUrl,
-        });
+      // Trouver ou créer chaque artiste crédité, l'artiste principal en tête
+      const credits = this.orderCredits(createAlbumDto);
+      const artistIds: number[] = [];
+      for (const credit of credits) {
+        const artist = await this.findOrCreateArtist(credit.externalId);
+        artistIds.push(artist.id);
       }
 
-      // Créer l'album
+      // Une date partielle ("1973") est conservée avec sa précision
+      const release = parseReleaseDate(
+        createAlbumDto.releaseDate,
+        createAlbumDto.releaseDatePrecision,
+      );
+
+      // Créer l'album et ses crédits
       return await this.prisma.album.create({
         data: {
+          provider: this.musicApiService.providerName,
           externalId: createAlbumDto.externalId,
           title: createAlbumDto.title,
-          releaseDate: createAlbumDto.releaseDate
-            ? new Date(createAlbumDto.releaseDate)
-            : null,
+          releaseDate: release?.date ?? null,
+          releaseDatePrecision: release?.precision,
           coverUrl: createAlbumDto.coverUrl,
+          albumType: createAlbumDto.albumType,
+          totalTracks: createAlbumDto.totalTracks,
+          label: createAlbumDto.label,
           artist: {
-            connect: { id: artist.id },
+            connect: { id: artistIds[0] },
+          },
+          artists: {
+            create: credits.map((credit, position) => ({
+              role: credit.role ?? AlbumArtistRole.Main,
+              position,
+              artist: { connect: { id: artistIds[position] } },
+            })),
           },
         },
-        include: { artist: true },
+        include: { artist: true, artists: albumArtistsInclude },
       });
     } catch (error) {
       if (error.code === 'P2002') {
@@ -144,25 +287,177 @@ export class AlbumsService {
     }
   }
 
-  // Trouver tous les albums dans notre base de données
-  async findAll() {
-    return this.prisma.album.findMany({
-      include: {
-        artist: true,
-        _count: {
-          select: { reviews: true },
-        },
+  // Crédits de l'album sans doublon, l'artiste principal toujours en premier
+  private orderCredits({
+    artistExternalId,
+    artists = [],
+  }: CreateAlbumDto): AlbumArtistCreditDto[] {
+    const seen = new Set([artistExternalId]);
+
+    return [
+      { externalId: artistExternalId, role: AlbumArtistRole.Main },
+      ...artists.filter((credit) => {
+        if (seen.has(credit.externalId)) {
+          return false;
+        }
+        seen.add(credit.externalId);
+        return true;
+      }),
+    ];
+  }
+
+  // Trouver l'artiste ou le créer depuis l'API externe s'il n'existe pas
+  private async findOrCreateArtist(externalId: string) {
+    const artist = await this.prisma.artist.findUnique({
+      where: this.externalIdWhere(externalId),
+    });
+
+    if (artist) {
+      return artist;
+    }
+
+    // Récupérer les informations de l'artiste depuis l'API externe
+    const artistDetails =
+      await this.musicApiService.getArtistDetails(externalId);
+
+    return this.artistsService.create({
+      externalId: artistDetails.externalId,
+      name: artistDetails.name,
+      imageUrl: artistDetails.imageUrl,
+      popularity: artistDetails.popularity,
+      genres: artistDetails.genres,
+    });
+  }
+
+  // Les ID externes ne sont uniques qu'au sein du catalogue actif
+  private externalIdWhere(externalId: string) {
+    return {
+      provider_externalId: {
+        provider: this.musicApiService.providerName,
+        externalId,
       },
-      orderBy: { releaseDate: 'desc' },
+    };
+  }
+
+  private searchKey(provider: string, externalId: string): string {
+    return `${provider}:${externalId}`;
+  }
+
+  // IDs des albums, parmi ceux donnés, que l'utilisateur a déjà critiqués
+  private async findReviewedAlbumIds(
+    userId: number | undefined,
+    albumIds: number[],
+  ): Promise<Set<number>> {
+    if (userId === undefined || albumIds.length === 0) {
+      return new Set();
+    }
+
+    const reviews = await this.prisma.review.findMany({
+      where: { userId, albumId: { in: albumIds } },
+      select: { albumId: true },
     });
+
+    return new Set(reviews.map((review) => review.albumId));
   }
 
-  // Trouver un album par son ID interne
+  // Album local présenté comme un résultat de l'API externe
+  private toCatalogAlbum(album: LocalAlbum): CatalogAlbum {
+    return {
+      externalId: album.externalId,
+      title: album.title,
+      releaseDate: album.releaseDate
+        ? formatReleaseDate(album.releaseDate, album.releaseDatePrecision)
+        : undefined,
+      releaseDatePrecision: album.releaseDatePrecision?.toLowerCase() as
+        | CatalogAlbum['releaseDatePrecision']
+        | undefined,
+      coverUrl: album.coverUrl ?? undefined,
+      artistName: album.artist.name,
+      artistExternalId: album.artist.externalId,
+      albumType: album.albumType?.toLowerCase() as CatalogAlbumType | undefined,
+      totalTracks: album.totalTracks,
+    };
+  }
+
+  // Fiche d'un album avec ses critiques, restituées comme les autres critiques
+  private toAlbumDetails<T extends AlbumRow & { reviews: ReviewRow[] }>(
+    album: T,
+  ) {
+    return {
+      ...toAlbumOutput(album),
+      reviews: album.reviews.map((review) => toReviewOutput(review)),
+    };
+  }
+
+  private toSearchResult(
+    album: CatalogAlbum,
+    provider: string,
+    local: LocalAlbum | undefined,
+    reviewedAlbumIds: Set<number>,
+  ) {
+    return {
+      ...album,
+      provider,
+      // Conservé pour les clients existants : unique après dédoublonnage
+      _uniqueId: this.searchKey(provider, album.externalId),
+      id: local?.id ?? null,
+      averageRating: local ? local.averageRating : null,
+      averageStars: local ? toStars(local.averageRating) : null,
+      reviewCount: local?.reviewCount ?? 0,
+      reviewedByMe: local ? reviewedAlbumIds.has(local.id) : false,
+    };
+  }
+
+  // Trouver tous les albums dans notre base de données, éventuellement d'un genre,
+  // d'un type de sortie ou d'une période (année, décennie)
+  // Les albums retirés du catalogue ne sont plus listés
+  // Le tri par note s'appuie sur les agrégats dénormalisés de l'album
+  async findAll(query: GetAlbumsDto = {}) {
+    const sortBy = query.sortBy ?? AlbumSortBy.ReleaseDate;
+
+    // Les albums sans date de sortie sont placés en fin de liste ; une date
+    // connue à l'année seule est triée au 1er janvier de cette année
+    const sortKeys: SortKey[] =
+      sortBy === AlbumSortBy.ReleaseDate
+        ? [
+            { field: 'releaseDate', direction: 'desc', nullable: true },
+            { field: 'id', direction: 'desc' },
+          ]
+        : [
+            { field: sortBy, direction: 'desc' },
+            { field: 'id', direction: 'asc' },
+          ];
+
+    const page = await paginate<AlbumRow>(
+      this.prisma.album,
+      {
+        where: {
+          removedAt: null,
+          ...(query.albumType !== undefined && { albumType: query.albumType }),
+          ...(query.genre !== undefined && albumGenreWhere(query.genre)),
+          ...releasePeriodWhere(query),
+        },
+        include: {
+          artist: true,
+          _count: {
+            select: { reviews: true },
+          },
+        },
+      },
+      query,
+      sortKeys,
+    );
+
+    return { ...page, items: page.items.map((album) => toAlbumOutput(album)) };
+  }
+
+  // Trouver un album par son ID interne, avec ses pistes les mieux notées
   async findOne(id: number) {
     const album = await this.prisma.album.findUnique({
       where: { id },
       include: {
         artist: true,
+        artists: albumArtistsInclude,
         reviews: {
           include: { user: true },
           orderBy: { createdAt: 'desc' },
@@ -174,26 +469,49 @@ export class AlbumsService {
       throw new NotFoundException(`Album with ID ${id} not found`);
     }
 
-    return album;
+    return {
+      ...this.toAlbumDetails(album),
+      topTracks: await this.albumTracksService.getTopTracks(id),
+    };
   }
 
-  // Calculer la note moyenne d'un album
-  async getAlbumRating(id: number) {
-    const reviews = await this.prisma.review.findMany({
-      where: { albumId: id },
-      select: { rating: true },
-    });
+  // Pistes d'un album avec leur note moyenne
+  // Les albums importés avant l'enregistrement des pistes les récupèrent
+  // depuis le catalogue à la première consultation
+  async findTracks(id: number) {
+    const album = await this.prisma.album.findUnique({ where: { id } });
+
+    if (!album) {
+      throw new NotFoundException(`Album with ID ${id} not found`);
+    }
 
-    if (reviews.length === 0) {
-      return { averageRating: 0, reviewCount: 0 };
+    const tracks = await this.albumTracksService.findByAlbumId(id);
+    if (
+      tracks.length > 0 ||
+      album.provider !== this.musicApiService.providerName
+    ) {
+      return tracks;
     }
 
-    const totalRating = reviews.reduce((sum, review) => sum + review.rating, 0);
-    const averageRating = totalRating / reviews.length;
+    const albumDetails = await this.musicApiService.getAlbumDetails(
+      album.externalId,
+    );
+    const saved = await this.albumTracksService.saveTracks(
+      id,
+      albumDetails.tracks,
+    );
 
-    return {
-      averageRating,
-      reviewCount: reviews.length,
-    };
+    return saved > 0 ? this.albumTracksService.findByAlbumId(id) : tracks;
+  }
+
+  // Statistiques de notes d'un album (moyenne, répartition, score pondéré)
+  async getAlbumRating(id: number) {
+    const statistics = await this.albumRatingsService.getStatistics(id);
+
+    if (!statistics) {
+      throw new NotFoundException(`Album with ID ${id} not found`);
+    }
+
+    return statistics;
   }
 }
@@ -0,0 +1,27 @@
+import { CatalogAlbum } from '../music-api/music-catalog-provider.interface';
+import { AlbumType } from './enums/album-type.enum';
+import { ReleaseDatePrecision } from './enums/release-date-precision.enum';
+
+// Métadonnées de sortie d'un album du catalogue, au format des colonnes de Album
+export interface AlbumReleaseMetadata {
+  albumType?: AlbumType;
+  totalTracks?: number;
+  label?: string;
+  releaseDatePrecision?: ReleaseDatePrecision;
+}
+
+// Les catalogues utilisent des valeurs en minuscules ('ep', 'year'...)
+export function toAlbumReleaseMetadata(
+  album: CatalogAlbum,
+): AlbumReleaseMetadata {
+  return {
+    albumType: album.albumType
+      ? (album.albumType.toUpperCase() as AlbumType)
+      : undefined,
+    totalTracks: album.totalTracks ?? undefined,
+    label: album.label,
+    releaseDatePrecision: album.releaseDatePrecision
+      ? (album.releaseDatePrecision.toUpperCase() as ReleaseDatePrecision)
+      : undefined,
+  };
+}
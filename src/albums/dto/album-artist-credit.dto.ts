@@ -0,0 +1,23 @@
+import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { AlbumArtistRole } from '../enums/album-artist-role.enum';
+
+export class AlbumArtistCreditDto {
+  @ApiProperty({
+    description: "Identifiant externe de l'artiste crédité (ID Spotify)",
+    example: '3WrFJ7ztbogyGnTHbHJFl2',
+  })
+  @IsNotEmpty()
+  @IsString()
+  externalId: string;
+
+  @ApiProperty({
+    description: "Rôle de l'artiste sur l'album",
+    enum: AlbumArtistRole,
+    required: false,
+    default: AlbumArtistRole.Main,
+  })
+  @IsOptional()
+  @IsEnum(AlbumArtistRole)
+  role?: AlbumArtistRole;
+}
@@ -1,11 +1,23 @@
 import {
-  IsDateString,
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsInt,
   IsNotEmpty,
   IsOptional,
   IsString,
   IsUrl,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateNested,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { AlbumArtistCreditDto } from './album-artist-credit.dto';
+import { AlbumType } from '../enums/album-type.enum';
+import { ReleaseDatePrecision } from '../enums/release-date-precision.enum';
+import { RELEASE_DATE_PATTERN } from '../release-date';
 
 export class CreateAlbumDto {
   @ApiProperty({
@@ -25,14 +37,56 @@ export class CreateAlbumDto {
   title: string;
 
   @ApiProperty({
-    description: "Date de sortie de l'album (format ISO)",
+    description:
+      "Date de sortie de l'album, éventuellement partielle (AAAA, AAAA-MM ou AAAA-MM-JJ)",
     example: '1973-03-01',
     required: false,
   })
   @IsOptional()
-  @IsDateString()
+  @Matches(RELEASE_DATE_PATTERN, {
+    message: 'releaseDate must be formatted as YYYY, YYYY-MM or YYYY-MM-DD',
+  })
   releaseDate?: string;
 
+  @ApiProperty({
+    description:
+      'Précision de la date de sortie dans le catalogue (déduite de la date si absente)',
+    enum: ReleaseDatePrecision,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ReleaseDatePrecision)
+  releaseDatePrecision?: ReleaseDatePrecision;
+
+  @ApiProperty({
+    description: 'Type de sortie (album, EP, single ou compilation)',
+    enum: AlbumType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AlbumType)
+  albumType?: AlbumType;
+
+  @ApiProperty({
+    description: 'Nombre de pistes',
+    example: 10,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  totalTracks?: number;
+
+  @ApiProperty({
+    description: 'Label de la sortie',
+    example: 'Harvest',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  label?: string;
+
   @ApiProperty({
     description: "URL de la pochette de l'album",
     example: 'https://example.com/album-cover.jpg',
@@ -49,4 +103,17 @@ export class CreateAlbumDto {
   @IsNotEmpty()
   @IsString()
   artistExternalId: string;
+
+  @ApiProperty({
+    description:
+      "Tous les artistes crédités, dans l'ordre (l'artiste principal est toujours crédité en premier)",
+    required: false,
+    type: [AlbumArtistCreditDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => AlbumArtistCreditDto)
+  artists?: AlbumArtistCreditDto[];
 }
@@ -0,0 +1,71 @@
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { PaginationQueryDto } from '../../common/pagination/pagination-query.dto';
+import { AlbumSortBy } from '../enums/album-sort-by.enum';
+import { AlbumType } from '../enums/album-type.enum';
+
+export class GetAlbumsDto extends PaginationQueryDto {
+  @ApiProperty({
+    description:
+      'Critère de tri décroissant (date de sortie par défaut, note moyenne ou nombre de critiques)',
+    enum: AlbumSortBy,
+    required: false,
+    default: AlbumSortBy.ReleaseDate,
+  })
+  @IsOptional()
+  @IsEnum(AlbumSortBy)
+  sortBy?: AlbumSortBy = AlbumSortBy.ReleaseDate;
+
+  @ApiProperty({
+    description:
+      'Filtrer sur un genre (slug, voir GET /genres) : un album hérite des genres de ses artistes',
+    example: 'french-house',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  genre?: string;
+
+  @ApiProperty({
+    description:
+      'Filtrer sur le type de sortie (album, EP, single ou compilation)',
+    enum: AlbumType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AlbumType)
+  albumType?: AlbumType;
+
+  @ApiProperty({
+    description:
+      "Filtrer sur l'année de sortie (les dates connues à l'année seule y sont incluses)",
+    example: 1973,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1900)
+  @Type(() => Number)
+  releaseYear?: number;
+
+  @ApiProperty({
+    description:
+      'Filtrer sur la décennie de sortie des albums (ex : 1970 pour les années 70)',
+    example: 1970,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1900)
+  @Type(() => Number)
+  releaseDecade?: number;
+}
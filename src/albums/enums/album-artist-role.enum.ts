@@ -0,0 +1,5 @@
+// Rôle d'un artiste crédité sur un album (miroir de l'enum AlbumArtistRole du schéma Prisma)
+export enum AlbumArtistRole {
+  Main = 'MAIN',
+  Featured = 'FEATURED',
+}
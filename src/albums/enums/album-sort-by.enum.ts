@@ -0,0 +1,6 @@
+// Critères de tri de la liste des albums
+export enum AlbumSortBy {
+  ReleaseDate = 'releaseDate',
+  AverageRating = 'averageRating',
+  ReviewCount = 'reviewCount',
+}
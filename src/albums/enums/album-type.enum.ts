@@ -0,0 +1,7 @@
+// Type de sortie d'un album (miroir de l'enum AlbumType du schéma Prisma)
+export enum AlbumType {
+  Album = 'ALBUM',
+  Ep = 'EP',
+  Single = 'SINGLE',
+  Compilation = 'COMPILATION',
+}
@@ -0,0 +1,6 @@
+// Précision d'une date de sortie (miroir de l'enum ReleaseDatePrecision du schéma Prisma)
+export enum ReleaseDatePrecision {
+  Year = 'YEAR',
+  Month = 'MONTH',
+  Day = 'DAY',
+}
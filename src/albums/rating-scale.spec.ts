@@ -0,0 +1,32 @@
+import { plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import { IsRating, toStars } from './rating-scale';
+
+class RatedDto {
+  @IsRating()
+  rating: number;
+}
+
+describe('rating-scale', () => {
+  const isValid = (rating: unknown) =>
+    validateSync(plainToInstance(RatedDto, { rating })).length === 0;
+
+  it('should accept every half star from 1 to 10', () => {
+    for (let rating = 1; rating <= 10; rating++) {
+      expect(isValid(rating)).toBe(true);
+    }
+  });
+
+  it('should reject ratings outside the scale', () => {
+    expect(isValid(0)).toBe(false);
+    expect(isValid(11)).toBe(false);
+    expect(isValid(7.5)).toBe(false);
+    expect(isValid('7')).toBe(false);
+  });
+
+  it('should display ratings as stars', () => {
+    expect(toStars(7)).toBe(3.5);
+    expect(toStars(10)).toBe(5);
+    expect(toStars(8.25)).toBe(4.125);
+  });
+});
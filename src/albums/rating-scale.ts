@@ -0,0 +1,22 @@
+import { applyDecorators } from '@nestjs/common';
+import { IsInt, Max, Min } from 'class-validator';
+
+// Échelle de notes unique des critiques et des écoutes du journal
+// Les notes sont stockées et échangées sur l'échelle interne de 1 à 10
+// (demi-étoiles) et affichées en étoiles : 7 = 3,5 étoiles
+export const MIN_RATING = 1;
+export const MAX_RATING = 10;
+export const RATING_STEPS_PER_STAR = 2;
+
+// Description commune des champs de note dans la documentation Swagger
+export const RATING_DESCRIPTION = `Note de ${MIN_RATING} à ${MAX_RATING} en demi-étoiles (7 = 3,5 étoiles)`;
+
+// Validation d'une note de l'échelle interne
+export function IsRating() {
+  return applyDecorators(IsInt(), Min(MIN_RATING), Max(MAX_RATING));
+}
+
+// Note (ou moyenne) de l'échelle interne convertie en étoiles
+export function toStars(rating: number): number {
+  return rating / RATING_STEPS_PER_STAR;
+}
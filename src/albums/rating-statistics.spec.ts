@@ -0,0 +1,61 @@
+import {
+  computeDistributionStats,
+  computeWeightedScore,
+} from './rating-statistics';
+
+describe('rating statistics', () => {
+  describe('computeDistributionStats', () => {
+    it('should compute the median of an odd number of ratings', () => {
+      // Notes : 1, 4, 4, 5, 5
+      const result = computeDistributionStats({ 1: 1, 2: 0, 3: 0, 4: 2, 5: 2 });
+
+      expect(result.median).toBe(4);
+    });
+
+    it('should average the two middle ratings for an even count', () => {
+      // Notes : 2, 3, 4, 5
+      const result = computeDistributionStats({ 2: 1, 3: 1, 4: 1, 5: 1 });
+
+      expect(result.median).toBe(3.5);
+    });
+
+    it('should compute the population standard deviation', () => {
+      // Notes : 1, 5 -> moyenne 3, variance 4
+      const result = computeDistributionStats({ 1: 1, 5: 1 });
+
+      expect(result.standardDeviation).toBe(2);
+    });
+
+    it('should return null stats for an empty histogram', () => {
+      expect(computeDistributionStats({ 1: 0, 2: 0 })).toEqual({
+        median: null,
+        standardDeviation: null,
+      });
+    });
+  });
+
+  describe('computeWeightedScore', () => {
+    it('should pull low-sample albums towards the global mean', () => {
+      const prior = { mean: 3, weight: 10 };
+
+      const fewReviews = computeWeightedScore(10, 2, prior);
+      const manyReviews = computeWeightedScore(450, 100, prior);
+
+      expect(fewReviews).toBeCloseTo(40 / 12);
+      expect(manyReviews).toBeCloseTo(480 / 110);
+      expect(manyReviews).toBeGreaterThan(fewReviews);
+    });
+
+    it('should return the global mean for an album without reviews', () => {
+      expect(computeWeightedScore(0, 0, { mean: 3.2, weight: 5 })).toBe(3.2);
+    });
+
+    it('should return the plain average without prior weight', () => {
+      expect(computeWeightedScore(9, 2, { mean: 3, weight: 0 })).toBe(4.5);
+    });
+
+    it('should return zero without reviews nor prior weight', () => {
+      expect(computeWeightedScore(0, 0, { mean: 0, weight: 0 })).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+// Fonctions de statistiques sur les notes, réutilisables par tout classement
+// (fiche album, charts...). Elles travaillent sur l'histogramme dénormalisé
+// et n'ont donc jamais besoin de relire les critiques
+
+// Nombre de critiques par note
+export type RatingHistogram = Record<number, number>;
+
+export interface RatingDistributionStats {
+  median: number | null;
+  standardDeviation: number | null;
+}
+
+// Moyenne a priori utilisée pour pondérer les albums peu notés :
+// tout album est considéré comme ayant déjà reçu `weight` notes égales à `mean`
+export interface RatingPrior {
+  mean: number;
+  weight: number;
+}
+
+// Médiane et écart-type (de population) d'un histogramme de notes
+export function computeDistributionStats(
+  histogram: RatingHistogram,
+): RatingDistributionStats {
+  const buckets = Object.entries(histogram)
+    .map(([rating, count]) => ({ rating: Number(rating), count }))
+    .filter((bucket) => bucket.count > 0)
+    .sort((a, b) => a.rating - b.rating);
+
+  const total = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+  if (total === 0) {
+    return { median: null, standardDeviation: null };
+  }
+
+  // Note à la position k (1-indexée) dans la liste triée des notes
+  const ratingAt = (k: number): number => {
+    let seen = 0;
+    for (const bucket of buckets) {
+      seen += bucket.count;
+      if (seen >= k) {
+        return bucket.rating;
+      }
+    }
+    return buckets[buckets.length - 1].rating;
+  };
+
+  const median =
+    total % 2 === 1
+      ? ratingAt((total + 1) / 2)
+      : (ratingAt(total / 2) + ratingAt(total / 2 + 1)) / 2;
+
+  const mean =
+    buckets.reduce((sum, bucket) => sum + bucket.rating * bucket.count, 0) /
+    total;
+  const variance =
+    buckets.reduce(
+      (sum, bucket) => sum + bucket.count * (bucket.rating - mean) ** 2,
+      0,
+    ) / total;
+
+  return { median, standardDeviation: Math.sqrt(variance) };
+}
+
+// Score bayésien : moyenne de l'album tirée vers la moyenne globale,
+// d'autant plus fortement que l'album a peu de critiques
+export function computeWeightedScore(
+  ratingSum: number,
+  reviewCount: number,
+  prior: RatingPrior,
+): number {
+  const denominator = prior.weight + reviewCount;
+  if (denominator === 0) {
+    return 0;
+  }
+
+  return (prior.weight * prior.mean + ratingSum) / denominator;
+}
@@ -0,0 +1,107 @@
+import {
+  formatReleaseDate,
+  parseReleaseDate,
+  RELEASE_DATE_PATTERN,
+  releasePeriodWhere,
+} from './release-date';
+import { ReleaseDatePrecision } from './enums/release-date-precision.enum';
+
+describe('release-date', () => {
+  describe('parseReleaseDate', () => {
+    it('should keep the precision of partial dates', () => {
+      expect(parseReleaseDate('1973')).toEqual({
+        date: new Date('1973-01-01T00:00:00Z'),
+        precision: ReleaseDatePrecision.Year,
+      });
+      expect(parseReleaseDate('1973-03')).toEqual({
+        date: new Date('1973-03-01T00:00:00Z'),
+        precision: ReleaseDatePrecision.Month,
+      });
+      expect(parseReleaseDate('1973-03-24')).toEqual({
+        date: new Date('1973-03-24T00:00:00Z'),
+        precision: ReleaseDatePrecision.Day,
+      });
+    });
+
+    it('should apply a coarser precision announced by the catalog', () => {
+      expect(parseReleaseDate('1973-01-01', ReleaseDatePrecision.Year)).toEqual(
+        {
+          date: new Date('1973-01-01T00:00:00Z'),
+          precision: ReleaseDatePrecision.Year,
+        },
+      );
+      expect(parseReleaseDate('1973', ReleaseDatePrecision.Day)).toEqual({
+        date: new Date('1973-01-01T00:00:00Z'),
+        precision: ReleaseDatePrecision.Year,
+      });
+    });
+
+    it('should read full ISO dates at the day', () => {
+      expect(parseReleaseDate('2023-01-01T00:00:00.000Z')?.precision).toBe(
+        ReleaseDatePrecision.Day,
+      );
+    });
+
+    it('should reject missing and impossible dates', () => {
+      expect(parseReleaseDate(undefined)).toBeNull();
+      expect(parseReleaseDate('')).toBeNull();
+      expect(parseReleaseDate('March 1973')).toBeNull();
+      expect(parseReleaseDate('1973-13')).toBeNull();
+      expect(parseReleaseDate('1973-02-30')).toBeNull();
+    });
+  });
+
+  describe('formatReleaseDate', () => {
+    const date = new Date('1973-03-01T00:00:00Z');
+
+    it('should render the date at its precision', () => {
+      expect(formatReleaseDate(date, ReleaseDatePrecision.Year)).toBe('1973');
+      expect(formatReleaseDate(date, ReleaseDatePrecision.Month)).toBe(
+        '1973-03',
+      );
+      expect(formatReleaseDate(date, ReleaseDatePrecision.Day)).toBe(
+        '1973-03-01',
+      );
+    });
+
+    it('should render dates without precision at the day', () => {
+      expect(formatReleaseDate(date, null)).toBe('1973-03-01');
+    });
+  });
+
+  describe('RELEASE_DATE_PATTERN', () => {
+    it('should accept the catalog formats only', () => {
+      expect(RELEASE_DATE_PATTERN.test('1973')).toBe(true);
+      expect(RELEASE_DATE_PATTERN.test('1973-03')).toBe(true);
+      expect(RELEASE_DATE_PATTERN.test('1973-03-01')).toBe(true);
+      expect(RELEASE_DATE_PATTERN.test('1973-3')).toBe(false);
+      expect(RELEASE_DATE_PATTERN.test('73')).toBe(false);
+    });
+  });
+
+  describe('releasePeriodWhere', () => {
+    it('should filter on a decade', () => {
+      expect(releasePeriodWhere({ releaseDecade: 1975 })).toEqual({
+        releaseDate: {
+          gte: new Date('1970-01-01T00:00:00Z'),
+          lt: new Date('1980-01-01T00:00:00Z'),
+        },
+      });
+    });
+
+    it('should intersect the year and the decade', () => {
+      expect(
+        releasePeriodWhere({ releaseYear: 1973, releaseDecade: 1970 }),
+      ).toEqual({
+        releaseDate: {
+          gte: new Date('1973-01-01T00:00:00Z'),
+          lt: new Date('1974-01-01T00:00:00Z'),
+        },
+      });
+    });
+
+    it('should not filter without period', () => {
+      expect(releasePeriodWhere({})).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { $Enums } from '@prisma/client';
+import { ReleaseDatePrecision } from './enums/release-date-precision.enum';
+
+// Dates de sortie partielles : les catalogues renvoient "1973", "1973-03"
+// ou "1973-03-01". La date est stockée au premier jour de la période
+// (1er janvier pour une année seule) avec sa précision, qui sert à la
+// restituer telle que publiée
+
+// Format accepté par les DTO
+export const RELEASE_DATE_PATTERN =
+  /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+
+export interface ParsedReleaseDate {
+  date: Date;
+  precision: ReleaseDatePrecision;
+}
+
+// Du moins précis au plus précis
+const PRECISIONS = [
+  ReleaseDatePrecision.Year,
+  ReleaseDatePrecision.Month,
+  ReleaseDatePrecision.Day,
+];
+
+// Interpréter une date de sortie en conservant sa précision
+// La précision annoncée par le catalogue, si elle est plus grossière que
+// celle de la chaîne, l'emporte. null si la date est absente ou invalide
+export function parseReleaseDate(
+  value: string | null | undefined,
+  precision?: ReleaseDatePrecision | null,
+): ParsedReleaseDate | null {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?/.exec(value?.trim() ?? '');
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day] = match;
+  const parsedPrecision =
+    PRECISIONS[[year, month, day].filter(Boolean).length - 1];
+  const resolvedPrecision =
+    precision &&
+    PRECISIONS.indexOf(precision) < PRECISIONS.indexOf(parsedPrecision)
+      ? precision
+      : parsedPrecision;
+
+  const date = new Date(
+    Date.UTC(
+      Number(year),
+      resolvedPrecision === ReleaseDatePrecision.Year ? 0 : Number(month) - 1,
+      resolvedPrecision === ReleaseDatePrecision.Day ? Number(day) : 1,
+    ),
+  );
+
+  // Rejeter les dates impossibles (ex : 1973-13 ou 1973-02-30)
+  const valid =
+    resolvedPrecision === ReleaseDatePrecision.Year ||
+    (date.getUTCMonth() === Number(month) - 1 &&
+      (resolvedPrecision === ReleaseDatePrecision.Month ||
+        date.getUTCDate() === Number(day)));
+  if (!valid) {
+    return null;
+  }
+
+  return { date, precision: resolvedPrecision };
+}
+
+// Date de sortie à sa précision réelle : "1973", "1973-03" ou "1973-03-01"
+// (au jour pour les albums enregistrés sans précision)
+// La précision peut venir directement d'une ligne Prisma
+export function formatReleaseDate(
+  date: Date,
+  precision?: $Enums.ReleaseDatePrecision | null,
+): string {
+  const iso = date.toISOString();
+
+  switch (precision) {
+    case ReleaseDatePrecision.Year:
+      return iso.slice(0, 4);
+    case ReleaseDatePrecision.Month:
+      return iso.slice(0, 7);
+    default:
+      return iso.slice(0, 10);
+  }
+}
+
+// Filtre Prisma sur l'année ou la décennie de sortie (ex : 1970 pour les années 70)
+// Une date connue à l'année seule est stockée au 1er janvier et reste donc
+// dans la bonne année et la bonne décennie
+export function releasePeriodWhere({
+  releaseYear,
+  releaseDecade,
+}: {
+  releaseYear?: number;
+  releaseDecade?: number;
+}): { releaseDate?: { gte: Date; lt: Date } } {
+  const ranges: { gte: Date; lt: Date }[] = [];
+
+  if (releaseYear !== undefined) {
+    ranges.push(yearRange(releaseYear, 1));
+  }
+  if (releaseDecade !== undefined) {
+    const start = releaseDecade - (releaseDecade % 10);
+    ranges.push(yearRange(start, 10));
+  }
+
+  if (ranges.length === 0) {
+    return {};
+  }
+
+  // Intersection des périodes demandées
+  return {
+    releaseDate: {
+      gte: new Date(Math.max(...ranges.map((range) => range.gte.getTime()))),
+      lt: new Date(Math.min(...ranges.map((range) => range.lt.getTime()))),
+    },
+  };
+}
+
+function yearRange(startYear: number, years: number) {
+  return {
+    gte: new Date(Date.UTC(startYear, 0, 1)),
+    lt: new Date(Date.UTC(startYear + years, 0, 1)),
+  };
+}
@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { ArtistsModule } from './artists/artists.module';
@@ -9,12 +10,19 @@ import { UsersModule } from './users/users.module';
 import { PrismaModule } from './prisma/prisma.module';
 import { AuthModule } from './auth/auth.module';
 import { MusicApiModule } from './music-api/music-api.module';
+import { ChartsModule } from './charts/charts.module';
+import { FeedModule } from './feed/feed.module';
+import { SearchModule } from './search/search.module';
+import { GenresModule } from './genres/genres.module';
+import { CatalogSyncModule } from './catalog-sync/catalog-sync.module';
+import { ListenLogsModule } from './listen-logs/listen-logs.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
     }),
+    ScheduleModule.forRoot(),
     ArtistsModule,
     AlbumsModule,
     ReviewsModule,
@@ -22,6 +30,12 @@ import { MusicApiModule } from './music-api/music-api.module';
     PrismaModule,
     AuthModule,
     MusicApiModule,
+    ChartsModule,
+    FeedModule,
+    SearchModule,
+    GenresModule,
+    CatalogSyncModule,
+    ListenLogsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
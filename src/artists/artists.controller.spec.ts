@@ -93,10 +93,10 @@ describe('ArtistsController', () => {
 
   describe('findAll', () => {
     it('should return all artists', async () => {
-      const result = await controller.findAll();
+      const result = await controller.findAll({ take: 10 });
 
       expect(result).toEqual([mockArtist]);
-      expect(artistsService.findAll).toHaveBeenCalled();
+      expect(artistsService.findAll).toHaveBeenCalledWith({ take: 10 });
     });
   });
 
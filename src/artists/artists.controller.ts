@@ -8,6 +8,7 @@ import {
 } from '@nestjs/common';
 import { ArtistsService } from './artists.service';
 import { SearchArtistsDto } from './dto/search-artists.dto';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import {
   ApiTags,
@@ -45,12 +46,12 @@ export class ArtistsController {
   })
   @ApiResponse({
     status: 200,
-    description: "Liste de tous les artistes avec le nombre d'albums associés",
+    description: "Liste paginée des artistes avec le nombre d'albums associés",
   })
   @UseGuards(JwtAuthGuard)
   @Get()
-  findAll() {
-    return this.artistsService.findAll();
+  findAll(@Query() query: PaginationQueryDto) {
+    return this.artistsService.findAll(query);
   }
 
   @ApiOperation({
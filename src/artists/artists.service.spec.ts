@@ -1,22 +1,27 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { ArtistsService } from './artists.service';
 import { PrismaService } from '../prisma/prisma.service';
-import { MusicApiService } from '../music-api/music-api.service';
+import {
+  MUSIC_CATALOG_PROVIDER,
+  MusicCatalogProvider,
+} from '../music-api/music-catalog-provider.interface';
 import { ConflictException, NotFoundException } from '@nestjs/common';
 import { CreateArtistDto } from './dto/create-artist.dto';
 
 describe('ArtistsService', () => {
   let service: ArtistsService;
   let prismaService: PrismaService;
-  let musicApiService: MusicApiService;
+  let musicApiService: MusicCatalogProvider;
 
   const mockArtist = {
     id: 1,
+    provider: 'spotify',
     externalId: 'artist123',
     name: 'Test Artist',
     imageUrl: 'http://example.com/artist.jpg',
-    createdAt: new Date(),
-    updatedAt: new Date(),
+    popularity: null,
+    albumsSyncedAt: null,
+    lastSyncedAt: null,
     albums: [],
   };
 
@@ -32,6 +37,7 @@ describe('ArtistsService', () => {
   };
 
   const mockMusicApiService = {
+    providerName: 'spotify',
     searchArtists: jest.fn(),
     getArtistDetails: jest.fn(),
     getArtistAlbums: jest.fn(),
@@ -48,7 +54,7 @@ describe('ArtistsService', () => {
           useValue: mockPrismaService,
         },
         {
-          provide: MusicApiService,
+          provide: MUSIC_CATALOG_PROVIDER,
           useValue: mockMusicApiService,
         },
       ],
@@ -56,7 +62,7 @@ describe('ArtistsService', () => {
 
     service = module.get<ArtistsService>(ArtistsService);
     prismaService = module.get<PrismaService>(PrismaService);
-    musicApiService = module.get<MusicApiService>(MusicApiService);
+    musicApiService = module.get<MusicCatalogProvider>(MUSIC_CATALOG_PROVIDER);
   });
 
   it('should be defined', () => {
@@ -85,7 +91,9 @@ describe('ArtistsService', () => {
 
       expect(result).toEqual(mockArtist);
       expect(mockPrismaService.artist.findUnique).toHaveBeenCalledWith({
-        where: { externalId: 'artist123' },
+        where: {
+          provider_externalId: { provider: 'spotify', externalId: 'artist123' },
+        },
         include: { albums: true },
       });
       expect(mockMusicApiService.getArtistDetails).not.toHaveBeenCalled();
@@ -106,7 +114,9 @@ describe('ArtistsService', () => {
 
       expect(result).toEqual(mockArtist);
       expect(mockPrismaService.artist.findUnique).toHaveBeenCalledWith({
-        where: { externalId: 'artist123' },
+        where: {
+          provider_externalId: { provider: 'spotify', externalId: 'artist123' },
+        },
         include: { albums: true },
       });
       expect(mockMusicApiService.getArtistDetails).toHaveBeenCalledWith(
@@ -134,7 +144,9 @@ describe('ArtistsService', () => {
 
       expect(result).toEqual(mockArtist);
       expect(mockPrismaService.artist.findUnique).toHaveBeenCalledWith({
-        where: { externalId: 'artist123' },
+        where: {
+          provider_externalId: { provider: 'spotify', externalId: 'artist123' },
+        },
       });
       expect(mockPrismaService.artist.create).not.toHaveBeenCalled();
     });
@@ -153,10 +165,53 @@ describe('ArtistsService', () => {
 
       expect(result).toEqual(mockArtist);
       expect(mockPrismaService.artist.findUnique).toHaveBeenCalledWith({
-        where: { externalId: 'artist123' },
+        where: {
+          provider_externalId: { provider: 'spotify', externalId: 'artist123' },
+        },
+      });
+      expect(mockPrismaService.artist.create).toHaveBeenCalledWith({
+        data: { ...createArtistDto, provider: 'spotify' },
+      });
+    });
+
+    it('should link the artist to its genres, creating missing ones', async () => {
+      mockPrismaService.artist.findUnique.mockResolvedValue(null);
+      mockPrismaService.artist.create.mockResolvedValue(mockArtist);
+
+      await service.create({
+        externalId: 'artist123',
+        name: 'Test Artist',
+        popularity: 80,
+        genres: ['French House', 'french house', 'Électro'],
       });
+
       expect(mockPrismaService.artist.create).toHaveBeenCalledWith({
-        data: createArtistDto,
+        data: {
+          externalId: 'artist123',
+          name: 'Test Artist',
+          popularity: 80,
+          provider: 'spotify',
+          genres: {
+            create: [
+              {
+                genre: {
+                  connectOrCreate: {
+                    where: { slug: 'french-house' },
+                    create: { name: 'French House', slug: 'french-house' },
+                  },
+                },
+              },
+              {
+                genre: {
+                  connectOrCreate: {
+                    where: { slug: 'electro' },
+                    create: { name: 'Électro', slug: 'electro' },
+                  },
+                },
+              },
+            ],
+          },
+        },
       });
     });
 
@@ -192,13 +247,18 @@ describe('ArtistsService', () => {
 
       const result = await service.findAll();
 
-      expect(result).toEqual(mockArtists);
+      expect(result).toEqual({
+        items: mockArtists,
+        pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+      });
       expect(mockPrismaService.artist.findMany).toHaveBeenCalledWith({
         include: {
           _count: {
             select: { albums: true },
           },
         },
+        orderBy: [{ id: 'desc' }],
+        take: 11,
       });
     });
   });
@@ -212,7 +272,10 @@ describe('ArtistsService', () => {
       expect(result).toEqual(mockArtist);
       expect(mockPrismaService.artist.findUnique).toHaveBeenCalledWith({
         where: { id: 1 },
-        include: { albums: true },
+        include: {
+          albums: true,
+          genres: { include: { genre: true } },
+        },
       });
     });
 
@@ -224,49 +287,87 @@ describe('ArtistsService', () => {
   });
 
   describe('getArtistAlbums', () => {
-    it('should return albums from database if they exist', async () => {
-      mockPrismaService.artist.findUnique.mockResolvedValue(mockArtist);
+    it('should return albums from database once the discography is imported', async () => {
+      mockPrismaService.artist.findUnique.mockResolvedValue({
+        ...mockArtist,
+        albumsSyncedAt: new Date('2026-10-01T00:00:00Z'),
+      });
       const mockAlbums = [
-        { id: 1, title: 'Album 1', artistId: 1 },
-        { id: 2, title: 'Album 2', artistId: 1 },
+        { id: 1, title: 'Album 1', artistId: 1, releaseDate: null },
+        { id: 2, title: 'Album 2', artistId: 1, releaseDate: null },
       ];
       mockPrismaService.album.findMany.mockResolvedValue(mockAlbums);
 
       const result = await service.getArtistAlbums(1);
 
+      // Albums où l'artiste est crédité, y compris en invité
       expect(result).toEqual(mockAlbums);
       expect(mockPrismaService.artist.findUnique).toHaveBeenCalledWith({
         where: { id: 1 },
       });
       expect(mockPrismaService.album.findMany).toHaveBeenCalledWith({
-        where: { artistId: 1 },
+        where: { artists: { some: { artistId: 1 } } },
+        include: {
+          artists: {
+            include: { artist: true },
+            orderBy: { position: 'asc' },
+          },
+        },
+        orderBy: [
+          { releaseDate: { sort: 'desc', nulls: 'last' } },
+          { id: 'desc' },
+        ],
       });
       expect(mockMusicApiService.getArtistAlbums).not.toHaveBeenCalled();
     });
 
-    it('should fetch albums from API if none in database', async () => {
-      mockPrismaService.artist.findUnique.mockResolvedValue(mockArtist);
-      mockPrismaService.album.findMany.mockResolvedValue([]);
-      const mockApiAlbums = [
-        { id: 'album1', title: 'API Album 1' },
-        { id: 'album2', title: 'API Album 2' },
-      ];
-      mockMusicApiService.getArtistAlbums.mockResolvedValue(mockApiAlbums);
+    it('should complete stored albums with the catalog until the discography is imported', async () => {
+      mockPrismaService.artist.findUnique.mockResolvedValue({
+        ...mockArtist,
+        provider: 'spotify',
+        albumsSyncedAt: null,
+      });
+      const storedAlbum = {
+        id: 1,
+        externalId: 'album1',
+        title: 'Album 1',
+        releaseDate: null,
+      };
+      mockPrismaService.album.findMany.mockResolvedValue([storedAlbum]);
+      mockMusicApiService.getArtistAlbums.mockResolvedValue([
+        { externalId: 'album1', title: 'API Album 1' },
+        { externalId: 'album2', title: 'API Album 2' },
+      ]);
 
       const result = await service.getArtistAlbums(1);
 
-      expect(result).toEqual(mockApiAlbums);
-      expect(mockPrismaService.artist.findUnique).toHaveBeenCalledWith({
-        where: { id: 1 },
-      });
-      expect(mockPrismaService.album.findMany).toHaveBeenCalledWith({
-        where: { artistId: 1 },
-      });
+      // Les albums déjà en base gardent leur ID interne
+      expect(result).toEqual([
+        storedAlbum,
+        {
+          externalId: 'album2',
+          title: 'API Album 2',
+          provider: 'spotify',
+          id: null,
+        },
+      ]);
       expect(mockMusicApiService.getArtistAlbums).toHaveBeenCalledWith(
         'artist123',
       );
     });
 
+    it('should not query the catalog for an artist of another provider', async () => {
+      mockPrismaService.artist.findUnique.mockResolvedValue({
+        ...mockArtist,
+        provider: 'musicbrainz',
+        albumsSyncedAt: null,
+      });
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      await expect(service.getArtistAlbums(1)).resolves.toEqual([]);
+      expect(mockMusicApiService.getArtistAlbums).not.toHaveBeenCalled();
+    });
+
     it('should throw NotFoundException if artist not found', async () => {
       mockPrismaService.artist.findUnique.mockResolvedValue(null);
 
@@ -1,17 +1,26 @@
 import {
+  Inject,
   Injectable,
   NotFoundException,
   ConflictException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { MusicApiService } from '../music-api/music-api.service';
+import {
+  MUSIC_CATALOG_PROVIDER,
+  type MusicCatalogProvider,
+} from '../music-api/music-catalog-provider.interface';
 import { CreateArtistDto } from './dto/create-artist.dto';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { paginate } from '../common/pagination/paginate';
+import { toGenreSlug } from '../genres/genre-filters';
+import { toAlbumOutput } from '../albums/album-output';
 
 @Injectable()
 export class ArtistsService {
   constructor(
     private prisma: PrismaService,
-    private musicApiService: MusicApiService,
+    @Inject(MUSIC_CATALOG_PROVIDER)
+    private musicApiService: MusicCatalogProvider,
   ) {}
 
   // Recherche d'artistes via l'API externe
@@ -23,24 +32,29 @@ export class ArtistsService {
   async getArtistDetailsByExternalId(externalId: string) {
     // Chercher d'abord dans notre base de données
     const existingArtist = await this.prisma.artist.findUnique({
-      where: { externalId },
+      where: this.externalIdWhere(externalId),
       include: { albums: true },
     });
 
     // Si l'artiste existe déjà dans la base, le retourner
     if (existingArtist) {
-      return existingArtist;
+      return {
+        ...existingArtist,
+        albums: existingArtist.albums.map((album) => toAlbumOutput(album)),
+      };
     }
 
     // Sinon, récupérer les détails depuis l'API externe
     const artistDetails =
       await this.musicApiService.getArtistDetails(externalId);
 
-    // Créer l'artiste dans la base de données
+    // Créer l'artiste dans la base de données, avec ses genres
     return this.create({
       externalId: artistDetails.externalId,
       name: artistDetails.name,
       imageUrl: artistDetails.imageUrl,
+      popularity: artistDetails.popularity,
+      genres: artistDetails.genres,
     });
   }
 
@@ -49,16 +63,23 @@ export class ArtistsService {
     try {
       // Vérifier si l'artiste existe déjà
       const existingArtist = await this.prisma.artist.findUnique({
-        where: { externalId: createArtistDto.externalId },
+        where: this.externalIdWhere(createArtistDto.externalId),
       });
 
       if (existingArtist) {
         return existingArtist;
       }
 
-      // Créer l'artiste
+      // Créer l'artiste et le lier à ses genres (créés s'ils n'existent pas)
+      const { genres = [], ...artist } = createArtistDto;
+      const genreLinks = this.toGenreLinks(genres);
+
       return await this.prisma.artist.create({
-        data: createArtistDto,
+        data: {
+          ...artist,
+          provider: this.musicApiService.providerName,
+          ...(genreLinks.length > 0 && { genres: { create: genreLinks } }),
+        },
       });
     } catch (error) {
       if (error.code === 'P2002') {
@@ -70,32 +91,74 @@ export class ArtistsService {
     }
   }
 
+  // Un lien par genre distinct : deux noms peuvent donner le même slug
+  private toGenreLinks(genres: string[]) {
+    const names = new Map<string, string>();
+    for (const name of genres) {
+      const slug = toGenreSlug(name);
+      if (slug && !names.has(slug)) {
+        names.set(slug, name.trim());
+      }
+    }
+
+    return [...names].map(([slug, name]) => ({
+      genre: {
+        connectOrCreate: {
+          where: { slug },
+          create: { name, slug },
+        },
+      },
+    }));
+  }
+
+  // Les ID externes ne sont uniques qu'au sein du catalogue actif
+  private externalIdWhere(externalId: string) {
+    return {
+      provider_externalId: {
+        provider: this.musicApiService.providerName,
+        externalId,
+      },
+    };
+  }
+
   // Trouver tous les artistes dans notre base de données
-  async findAll() {
-    return this.prisma.artist.findMany({
-      include: {
-        _count: {
-          select: { albums: true },
+  async findAll(query: PaginationQueryDto = {}) {
+    // Les artistes n'ont pas de date de création : l'ID suit l'ordre d'ajout
+    return paginate(
+      this.prisma.artist,
+      {
+        include: {
+          _count: {
+            select: { albums: true },
+          },
         },
       },
-    });
+      query,
+      [{ field: 'id', direction: 'desc' }],
+    );
   }
 
   // Trouver un artiste par son ID interne
   async findOne(id: number) {
     const artist = await this.prisma.artist.findUnique({
       where: { id },
-      include: { albums: true },
+      include: {
+        albums: true,
+        genres: { include: { genre: true } },
+      },
     });
 
     if (!artist) {
       throw new NotFoundException(`Artist with ID ${id} not found`);
     }
 
-    return artist;
+    return {
+      ...artist,
+      albums: artist.albums.map((album) => toAlbumOutput(album)),
+    };
   }
 
-  // Obtenir les albums d'un artiste
+  // Obtenir les albums d'un artiste, quelle que soit sa position dans les crédits
   async getArtistAlbums(artistId: number) {
     const artist = await this.prisma.artist.findUnique({
       where: { id: artistId },
@@ -105,23 +168,43 @@ export class ArtistsService {
       throw new NotFoundException(`Artist with ID ${artistId} not found`);
     }
 
-    // Récupérer les albums déjà en base de données
-    const albumsInDb = await this.prisma.album.findMany({
-      where: { artistId },
+    // Albums en base où l'artiste est crédité, qu'il soit artiste principal,
+    // co-artiste ou invité
+    const storedAlbums = await this.prisma.album.findMany({
+      where: { artists: { some: { artistId } } },
+      include: {
+        artists: {
+          include: { artist: true },
+          orderBy: { position: 'asc' },
+        },
+      },
+      orderBy: [
+        { releaseDate: { sort: 'desc', nulls: 'last' } },
+        { id: 'desc' },
+      ],
     });
+    const albums = storedAlbums.map((album) => toAlbumOutput(album));
 
-    // Si nous avons déjà des albums, les retourner
-    if (albumsInDb.length > 0) {
-      return albumsInDb;
+    if (
+      artist.albumsSyncedAt ||
+      artist.provider !== this.musicApiService.providerName
+    ) {
+      return albums;
     }
 
-    // Sinon, récupérer les albums depuis l'API externe
-    const externalAlbums = await this.musicApiService.getArtistAlbums(
+    // Tant que la discographie n'a pas été importée (voir DiscographyImportService),
+    // compléter avec les albums du catalogue absents de la base, sans les
+    // enregistrer (id null, comme dans la recherche)
+    const storedIds = new Set(albums.map((album) => album.externalId));
+    const catalogAlbums = await this.musicApiService.getArtistAlbums(
       artist.externalId,
     );
 
-    // Les albums seront créés à la demande quand un utilisateur voudra les noter
-    // Retourner simplement les données de l'API
-    return externalAlbums;
+    return [
+      ...albums,
+      ...catalogAlbums
+        .filter((album) => !storedIds.has(album.externalId))
+        .map((album) => ({ ...album, provider: artist.provider, id: null })),
+    ];
   }
 }
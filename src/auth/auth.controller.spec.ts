@@ -33,6 +33,13 @@ describe('AuthController', () => {
         user,
       });
     }),
+    refresh: jest.fn().mockResolvedValue({
+      access_token: 'new-jwt-token',
+      refresh_token: 'new-refresh-token',
+      user: mockUser,
+    }),
+    logout: jest.fn().mockResolvedValue(undefined),
+    logoutAll: jest.fn().mockResolvedValue(undefined),
   };
 
   // Mock pour LocalAuthGuard
@@ -120,6 +127,37 @@ describe('AuthController', () => {
     });
   });
 
+  describe('refresh', () => {
+    it('should exchange a refresh token for new tokens', async () => {
+      const result = await controller.refresh({
+        refresh_token: 'old-refresh-token',
+      });
+
+      expect(result).toEqual({
+        access_token: 'new-jwt-token',
+        refresh_token: 'new-refresh-token',
+        user: mockUser,
+      });
+      expect(authService.refresh).toHaveBeenCalledWith('old-refresh-token');
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the current session', async () => {
+      await controller.logout({ ...mockUser, sessionId: 42 });
+
+      expect(authService.logout).toHaveBeenCalledWith(1, 42);
+    });
+  });
+
+  describe('logoutAll', () => {
+    it('should revoke all sessions of the user', async () => {
+      await controller.logoutAll(mockUser);
+
+      expect(authService.logoutAll).toHaveBeenCalledWith(1);
+    });
+  });
+
   describe('getProfile', () => {
     it('should return the authenticated user profile', () => {
       const result = controller.getProfile(mockUser);
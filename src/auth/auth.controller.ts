@@ -5,12 +5,15 @@ import {
   UseGuards,
   Request,
   Get,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { LocalAuthGuard } from './guards/local-auth.guard';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { CurrentUser } from './decorators/current-user.decorator';
 import { CreateUserDto } from '../users/dto/create-user.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
 import {
   ApiTags,
   ApiOperation,
@@ -57,7 +60,8 @@ export class AuthController {
   })
   @ApiResponse({
     status: 200,
-    description: 'Authentification réussie, token JWT retourné',
+    description:
+      'Authentification réussie, access token et refresh token retournés',
   })
   @ApiResponse({
     status: 401,
@@ -69,6 +73,54 @@ export class AuthController {
     return this.authService.login(req.user);
   }
 
+  @ApiOperation({
+    summary: 'Renouveler les tokens',
+    description:
+      "Échange un refresh token valide contre un nouveau couple de tokens (l'ancien refresh token est invalidé)",
+  })
+  @ApiBody({ type: RefreshTokenDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Nouveaux access token et refresh token',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Refresh token invalide, expiré ou révoqué',
+  })
+  @HttpCode(HttpStatus.OK)
+  @Post('refresh')
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
+    return this.authService.refresh(refreshTokenDto.refresh_token);
+  }
+
+  @ApiOperation({
+    summary: 'Déconnexion',
+    description: 'Révoque la session associée au token courant',
+  })
+  @ApiResponse({ status: 204, description: 'Session révoquée' })
+  @ApiResponse({ status: 401, description: 'Non authentifié' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Post('logout')
+  async logout(@CurrentUser() user) {
+    await this.authService.logout(user.id, user.sessionId);
+  }
+
+  @ApiOperation({
+    summary: 'Déconnexion de tous les appareils',
+    description: "Révoque toutes les sessions actives de l'utilisateur",
+  })
+  @ApiResponse({ status: 204, description: 'Sessions révoquées' })
+  @ApiResponse({ status: 401, description: 'Non authentifié' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Post('logout-all')
+  async logoutAll(@CurrentUser() user) {
+    await this.authService.logoutAll(user.id);
+  }
+
   @ApiOperation({ summary: "Récupérer le profil de l'utilisateur connecté" })
   @ApiResponse({
     status: 200,
@@ -2,6 +2,8 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { AuthService } from './auth.service';
 import { UsersService } from '../users/users.service';
 import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '../prisma/prisma.service';
 import { UnauthorizedException } from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
 
@@ -30,6 +32,18 @@ describe('AuthService', () => {
     sign: jest.fn(() => 'test-jwt-token'),
   };
 
+  const mockPrismaService = {
+    session: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: string) => defaultValue),
+  };
+
   beforeEach(async () => {
     jest.clearAllMocks();
 
@@ -44,12 +58,22 @@ describe('AuthService', () => {
           provide: JwtService,
           useValue: mockJwtService,
         },
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
       ],
     }).compile();
 
     service = module.get<AuthService>(AuthService);
     usersService = module.get<UsersService>(UsersService);
     jwtService = module.get<JwtService>(JwtService);
+
+    mockPrismaService.session.create.mockResolvedValue({ id: 42 });
   });
 
   it('should be defined', () => {
@@ -89,7 +113,7 @@ describe('AuthService', () => {
   });
 
   describe('login', () => {
-    it('should return access token and user info', async () => {
+    it('should open a session and return access token, refresh token and user info', async () => {
       const user = {
         id: 1,
         username: 'testuser',
@@ -100,18 +124,191 @@ describe('AuthService', () => {
 
       expect(result).toEqual({
         access_token: 'test-jwt-token',
+        refresh_token: expect.any(String),
         user: {
           id: 1,
           username: 'testuser',
           email: 'test@example.com',
+          role: 'USER',
+        },
+      });
+
+      expect(mockPrismaService.session.create).toHaveBeenCalledWith({
+        data: {
+          userId: 1,
+          refreshTokenHash: expect.any(String),
+          expiresAt: expect.any(Date),
         },
       });
+      // Le refresh token n'est jamais stocké en clair
+      const { data } = mockPrismaService.session.create.mock.calls[0][0];
+      expect(data.refreshTokenHash).not.toEqual(result.refresh_token);
+
+      expect(jwtService.sign).toHaveBeenCalledWith({
+        username: 'testuser',
+        sub: 1,
+        sid: 42,
+        role: 'USER',
+      });
+    });
+
+    it('should embed the user role in the JWT payload', async () => {
+      const admin = {
+        id: 2,
+        username: 'admin',
+        email: 'admin@example.com',
+        role: 'ADMIN',
+      };
+
+      const result = await service.login(admin);
+
+      expect(result.user.role).toBe('ADMIN');
+      expect(jwtService.sign).toHaveBeenCalledWith({
+        username: 'admin',
+        sub: 2,
+        sid: 42,
+        role: 'ADMIN',
+      });
+    });
+  });
+
+  describe('refresh', () => {
+    const activeSession = {
+      id: 42,
+      userId: 1,
+      refreshTokenHash: 'hash',
+      expiresAt: new Date(Date.now() + 60_000),
+      revokedAt: null,
+      user: mockUser,
+    };
+
+    it('should rotate the refresh token and return new tokens', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue(activeSession);
+      mockPrismaService.session.updateMany.mockResolvedValue({ count: 1 });
 
+      const result = await service.refresh('old-refresh-token');
+
+      expect(result).toEqual({
+        access_token: 'test-jwt-token',
+        refresh_token: expect.any(String),
+        user: {
+          id: 1,
+          username: 'testuser',
+          email: 'test@example.com',
+          role: 'USER',
+        },
+      });
+      expect(result.refresh_token).not.toEqual('old-refresh-token');
+      expect(mockPrismaService.session.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 42,
+          refreshTokenHash: expect.any(String),
+          revokedAt: null,
+        },
+        data: {
+          refreshTokenHash: expect.any(String),
+          expiresAt: expect.any(Date),
+          lastUsedAt: expect.any(Date),
+        },
+      });
       expect(jwtService.sign).toHaveBeenCalledWith({
         username: 'testuser',
         sub: 1,
+        sid: 42,
+        role: 'USER',
       });
     });
+
+    it('should throw UnauthorizedException for an unknown refresh token', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue(null);
+
+      await expect(service.refresh('unknown')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPrismaService.session.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw UnauthorizedException for a revoked session', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue({
+        ...activeSession,
+        revokedAt: new Date(),
+      });
+
+      await expect(service.refresh('old-refresh-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should throw UnauthorizedException for an expired session', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue({
+        ...activeSession,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.refresh('old-refresh-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should throw UnauthorizedException when the token was already rotated concurrently', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue(activeSession);
+      mockPrismaService.session.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.refresh('old-refresh-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(jwtService.sign).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    it('should revoke the current session', async () => {
+      await service.logout(1, 42);
+
+      expect(mockPrismaService.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 42, userId: 1, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('logoutAll', () => {
+    it('should revoke every active session of the user', async () => {
+      await service.logoutAll(1);
+
+      expect(mockPrismaService.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 1, revokedAt: null },
+        data: { revokedAt: expect.any(Date) },
+      });
+    });
+  });
+
+  describe('isSessionActive', () => {
+    it('should return true for a valid session', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue({
+        id: 42,
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 60_000),
+      });
+
+      await expect(service.isSessionActive(42)).resolves.toBe(true);
+    });
+
+    it('should return false for a revoked session', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue({
+        id: 42,
+        revokedAt: new Date(),
+        expiresAt: new Date(Date.now() + 60_000),
+      });
+
+      await expect(service.isSessionActive(42)).resolves.toBe(false);
+    });
+
+    it('should return false when the session does not exist', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue(null);
+
+      await expect(service.isSessionActive(42)).resolves.toBe(false);
+    });
   });
 
   describe('register', () => {
@@ -143,10 +340,12 @@ describe('AuthService', () => {
 
       expect(result).toEqual({
         access_token: 'test-jwt-token',
+        refresh_token: expect.any(String),
         user: {
           id: 1,
           username: 'newuser',
           email: 'new@example.com',
+          role: 'USER',
         },
       });
     });
@@ -1,13 +1,19 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
 import { UsersService } from '../users/users.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { Role } from './enums/role.enum';
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes } from 'crypto';
 
 @Injectable()
 export class AuthService {
   constructor(
     private usersService: UsersService,
     private jwtService: JwtService,
+    private prisma: PrismaService,
+    private configService: ConfigService,
   ) {}
 
   async validateUser(username: string, password: string): Promise<any> {
@@ -22,16 +28,72 @@ export class AuthService {
   }
 
   async login(user: any) {
-    const payload = { username: user.username, sub: user.id };
+    // Ouvrir une nouvelle session associée à un refresh token
+    const refreshToken = this.generateRefreshToken();
+    const session = await this.prisma.session.create({
+      data: {
+        userId: user.id,
+        refreshTokenHash: this.hashToken(refreshToken),
+        expiresAt: this.getRefreshTokenExpiry(),
+      },
+    });
 
-    return {
-      access_token: this.jwtService.sign(payload),
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
+    return this.buildTokens(user, session.id, refreshToken);
+  }
+
+  async refresh(refreshToken: string) {
+    const currentHash = this.hashToken(refreshToken);
+    const session = await this.prisma.session.findUnique({
+      where: { refreshTokenHash: currentHash },
+      include: { user: true },
+    });
+
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    // Rotation du refresh token : la mise à jour conditionnelle garantit
+    // qu'un même token ne peut pas être utilisé deux fois en parallèle
+    const newRefreshToken = this.generateRefreshToken();
+    const { count } = await this.prisma.session.updateMany({
+      where: { id: session.id, refreshTokenHash: currentHash, revokedAt: null },
+      data: {
+        refreshTokenHash: this.hashToken(newRefreshToken),
+        expiresAt: this.getRefreshTokenExpiry(),
+        lastUsedAt: new Date(),
       },
-    };
+    });
+
+    if (count === 0) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return this.buildTokens(session.user, session.id, newRefreshToken);
+  }
+
+  // Révoquer la session courante de l'utilisateur
+  async logout(userId: number, sessionId: number) {
+    await this.prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  // Révoquer toutes les sessions actives de l'utilisateur
+  async logoutAll(userId: number) {
+    await this.prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  // Vérifier qu'une session n'a été ni révoquée ni expirée
+  async isSessionActive(sessionId: number): Promise<boolean> {
+    const session = await this.prisma.session.findUnique({
+      where: { id: sessionId },
+    });
+
+    return !!session && !session.revokedAt && session.expiresAt > new Date();
   }
 
   async register(username: string, email: string, password: string) {
@@ -57,4 +119,40 @@ export class AuthService {
     const { passwordHash, ...result } = newUser;
     return this.login(result);
   }
+
+  private buildTokens(user: any, sessionId: number, refreshToken: string) {
+    const payload = {
+      username: user.username,
+      sub: user.id,
+      sid: sessionId,
+      role: user.role ?? Role.User,
+    };
+
+    return {
+      access_token: this.jwtService.sign(payload),
+      refresh_token: refreshToken,
+      user: {
+        id: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role ?? Role.User,
+      },
+    };
+  }
+
+  private generateRefreshToken(): string {
+    return randomBytes(48).toString('hex');
+  }
+
+  // Seule l'empreinte du refresh token est stockée en base
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private getRefreshTokenExpiry(): Date {
+    const ttlDays = Number(
+      this.configService.get<string>('JWT_REFRESH_EXPIRES_IN_DAYS', '30'),
+    );
+    return new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000);
+  }
 }
@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '../enums/role.enum';
+
+export const ROLES_KEY = 'roles';
+
+// Restreindre une route aux utilisateurs possédant l'un des rôles indiqués
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
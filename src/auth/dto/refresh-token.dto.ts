@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token obtenu lors de la connexion',
+    example: '3f9c1d6b2a...e41b',
+  })
+  @IsNotEmpty()
+  @IsString()
+  refresh_token: string;
+}
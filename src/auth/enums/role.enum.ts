@@ -0,0 +1,5 @@
+// Rôles applicatifs (miroir de l'enum Role du schéma Prisma)
+export enum Role {
+  User = 'USER',
+  Admin = 'ADMIN',
+}
@@ -1,11 +1,15 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
+import { AuthService } from '../auth.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private configService: ConfigService) {
+  constructor(
+    private configService: ConfigService,
+    private authService: AuthService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
@@ -17,6 +21,19 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
   }
 
   async validate(payload: any) {
-    return { id: payload.sub, username: payload.username };
+    // Rejeter les tokens dont la session a été révoquée (logout, vol de token)
+    if (
+      !payload.sid ||
+      !(await this.authService.isSessionActive(payload.sid))
+    ) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    return {
+      id: payload.sub,
+      username: payload.username,
+      sessionId: payload.sid,
+      role: payload.role,
+    };
   }
 }
@@ -0,0 +1,74 @@
+import { diffCatalogFields, formatCatalogValue } from './catalog-diff';
+
+describe('catalog-diff', () => {
+  describe('formatCatalogValue', () => {
+    it('should format dates as ISO strings', () => {
+      expect(formatCatalogValue(new Date('1997-05-21T00:00:00Z'))).toBe(
+        '1997-05-21T00:00:00.000Z',
+      );
+    });
+
+    it('should format numbers as strings', () => {
+      expect(formatCatalogValue(82)).toBe('82');
+    });
+
+    it('should treat missing values as null', () => {
+      expect(formatCatalogValue(undefined)).toBeNull();
+      expect(formatCatalogValue(null)).toBeNull();
+    });
+  });
+
+  describe('diffCatalogFields', () => {
+    it('should return only the changed fields', () => {
+      const changes = diffCatalogFields(
+        {
+          title: 'OK Computer',
+          releaseDate: new Date('1997-05-21T00:00:00Z'),
+          coverUrl: 'https://example.com/old.jpg',
+        },
+        {
+          title: 'OK Computer',
+          releaseDate: new Date('1997-06-16T00:00:00Z'),
+          coverUrl: 'https://example.com/new.jpg',
+        },
+      );
+
+      expect(changes).toEqual([
+        {
+          field: 'releaseDate',
+          oldValue: '1997-05-21T00:00:00.000Z',
+          newValue: '1997-06-16T00:00:00.000Z',
+        },
+        {
+          field: 'coverUrl',
+          oldValue: 'https://example.com/old.jpg',
+          newValue: 'https://example.com/new.jpg',
+        },
+      ]);
+    });
+
+    it('should ignore fields absent from the new values', () => {
+      expect(
+        diffCatalogFields(
+          { name: 'Radiohead', popularity: 80 },
+          { name: 'Radiohead' },
+        ),
+      ).toEqual([]);
+    });
+
+    it('should report values removed from the catalog', () => {
+      expect(
+        diffCatalogFields(
+          { imageUrl: 'https://example.com/artist.jpg' },
+          { imageUrl: undefined },
+        ),
+      ).toEqual([
+        {
+          field: 'imageUrl',
+          oldValue: 'https://example.com/artist.jpg',
+          newValue: null,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+// Comparaison des métadonnées enregistrées avec celles renvoyées par le catalogue,
+// pour n'écrire que les champs modifiés et les consigner dans le journal
+
+export type CatalogFieldValue = string | number | Date | null | undefined;
+
+export type CatalogFields = Record<string, CatalogFieldValue>;
+
+// Modification d'un champ, valeurs sous leur forme texte
+export interface CatalogFieldChange {
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+// Forme texte d'une valeur, telle qu'enregistrée dans le journal
+// (une valeur absente du catalogue est considérée comme nulle)
+export function formatCatalogValue(value: CatalogFieldValue): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+// Champs de `next` dont la valeur diffère de `current`
+export function diffCatalogFields(
+  current: CatalogFields,
+  next: CatalogFields,
+): CatalogFieldChange[] {
+  return Object.keys(next)
+    .map((field) => ({
+      field,
+      oldValue: formatCatalogValue(current[field]),
+      newValue: formatCatalogValue(next[field]),
+    }))
+    .filter((change) => change.oldValue !== change.newValue);
+}
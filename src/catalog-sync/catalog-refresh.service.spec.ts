@@ -0,0 +1,458 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CatalogRefreshService } from './catalog-refresh.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { MUSIC_CATALOG_PROVIDER } from '../music-api/music-catalog-provider.interface';
+import { CatalogEntityType } from './enums/catalog-entity-type.enum';
+
+describe('CatalogRefreshService', () => {
+  let service: CatalogRefreshService;
+
+  const mockPrismaService = {
+    album: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    artist: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    catalogChange: {
+      createMany: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+    $transaction: jest.fn((operations) => Promise.all(operations)),
+  };
+
+  const mockMusicApiService = {
+    providerName: 'spotify',
+    getAlbumDetails: jest.fn(),
+    getArtistDetails: jest.fn(),
+  };
+
+  const config: Record<string, string> = {};
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  const mockAlbum = {
+    id: 1,
+    provider: 'spotify',
+    externalId: 'album123',
+    title: 'OK Computer',
+    releaseDate: new Date('1997-05-21'),
+    releaseDatePrecision: 'DAY',
+    coverUrl: 'https://example.com/old.jpg',
+    removedAt: null,
+    lastSyncedAt: null,
+  };
+
+  const mockArtist = {
+    id: 1,
+    provider: 'spotify',
+    externalId: 'artist123',
+    name: 'Radiohead',
+    imageUrl: 'https://example.com/artist.jpg',
+    popularity: 79,
+    lastSyncedAt: null,
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    for (const key of Object.keys(config)) {
+      delete config[key];
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CatalogRefreshService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: MUSIC_CATALOG_PROVIDER,
+          useValue: mockMusicApiService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CatalogRefreshService>(CatalogRefreshService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('refreshAlbum', () => {
+    it('should update changed fields and record them in the audit log', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue(mockAlbum);
+      mockMusicApiService.getAlbumDetails.mockResolvedValue({
+        externalId: 'album123',
+        title: 'OK Computer',
+        releaseDate: '1997-06-16',
+        coverUrl: 'https://example.com/new.jpg',
+      });
+
+      const result = await service.refreshAlbum(1);
+
+      // Lecture hors cache pour voir l'état actuel du catalogue
+      expect(mockMusicApiService.getAlbumDetails).toHaveBeenCalledWith(
+        mockAlbum.externalId,
+        { fresh: true },
+      );
+      expect(mockPrismaService.album.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          releaseDate: new Date('1997-06-16'),
+          coverUrl: 'https://example.com/new.jpg',
+          lastSyncedAt: expect.any(Date) as Date,
+        },
+      });
+      expect(mockPrismaService.catalogChange.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            entityType: CatalogEntityType.Album,
+            entityId: 1,
+            field: 'releaseDate',
+            oldValue: '1997-05-21T00:00:00.000Z',
+            newValue: '1997-06-16T00:00:00.000Z',
+            detectedAt: expect.any(Date) as Date,
+          },
+          {
+            entityType: CatalogEntityType.Album,
+            entityId: 1,
+            field: 'coverUrl',
+            oldValue: 'https://example.com/old.jpg',
+            newValue: 'https://example.com/new.jpg',
+            detectedAt: expect.any(Date) as Date,
+          },
+        ],
+      });
+      expect(result.changes.map((change) => change.field)).toEqual([
+        'releaseDate',
+        'coverUrl',
+      ]);
+    });
+
+    it('should keep the precision of partial release dates', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue(mockAlbum);
+      mockMusicApiService.getAlbumDetails.mockResolvedValue({
+        externalId: 'album123',
+        title: 'OK Computer',
+        releaseDate: '1997',
+        releaseDatePrecision: 'year',
+        coverUrl: 'https://example.com/old.jpg',
+      });
+
+      await service.refreshAlbum(1);
+
+      expect(mockPrismaService.album.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          releaseDate: new Date('1997-01-01T00:00:00Z'),
+          releaseDatePrecision: 'YEAR',
+          lastSyncedAt: expect.any(Date) as Date,
+        },
+      });
+    });
+
+    it('should fill in the release metadata of older albums', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue({
+        ...mockAlbum,
+        releaseDatePrecision: null,
+      });
+      mockMusicApiService.getAlbumDetails.mockResolvedValue({
+        externalId: 'album123',
+        title: 'OK Computer',
+        releaseDate: '1997-05-21',
+        releaseDatePrecision: 'day',
+        coverUrl: 'https://example.com/old.jpg',
+        albumType: 'album',
+        totalTracks: 12,
+        label: 'Parlophone',
+      });
+
+      const result = await service.refreshAlbum(1);
+
+      expect(mockPrismaService.album.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          releaseDatePrecision: 'DAY',
+          albumType: 'ALBUM',
+          totalTracks: 12,
+          label: 'Parlophone',
+          lastSyncedAt: expect.any(Date) as Date,
+        },
+      });
+      expect(result.changes).toHaveLength(4);
+    });
+
+    it('should only record the sync time when nothing changed', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue(mockAlbum);
+      mockMusicApiService.getAlbumDetails.mockResolvedValue({
+        externalId: 'album123',
+        title: 'OK Computer',
+        releaseDate: '1997-05-21',
+        coverUrl: 'https://example.com/old.jpg',
+      });
+
+      const result = await service.refreshAlbum(1);
+
+      expect(result.changes).toEqual([]);
+      expect(mockPrismaService.album.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { lastSyncedAt: expect.any(Date) as Date },
+      });
+      expect(mockPrismaService.catalogChange.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should tombstone albums removed from the catalog', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue(mockAlbum);
+      mockMusicApiService.getAlbumDetails.mockRejectedValue(
+        new NotFoundException('Album with ID album123 not found in Spotify'),
+      );
+
+      const result = await service.refreshAlbum(1);
+
+      expect(mockPrismaService.album.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          removedAt: expect.any(Date) as Date,
+          lastSyncedAt: expect.any(Date) as Date,
+        },
+      });
+      expect(result.changes).toEqual([
+        expect.objectContaining({ field: 'removedAt', oldValue: null }),
+      ]);
+    });
+
+    it('should not record an already tombstoned album again', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue({
+        ...mockAlbum,
+        removedAt: new Date('2026-09-01T00:00:00Z'),
+      });
+      mockMusicApiService.getAlbumDetails.mockRejectedValue(
+        new NotFoundException('Album with ID album123 not found in Spotify'),
+      );
+
+      const result = await service.refreshAlbum(1);
+
+      expect(result.changes).toEqual([]);
+      expect(mockPrismaService.catalogChange.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should restore an album back in the catalog', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue({
+        ...mockAlbum,
+        removedAt: new Date('2026-09-01T00:00:00Z'),
+      });
+      mockMusicApiService.getAlbumDetails.mockResolvedValue({
+        externalId: 'album123',
+        title: 'OK Computer',
+        releaseDate: '1997-05-21',
+        coverUrl: 'https://example.com/old.jpg',
+      });
+
+      const result = await service.refreshAlbum(1);
+
+      expect(result.changes).toEqual([
+        {
+          field: 'removedAt',
+          oldValue: '2026-09-01T00:00:00.000Z',
+          newValue: null,
+        },
+      ]);
+      expect(mockPrismaService.album.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { removedAt: null, lastSyncedAt: expect.any(Date) as Date },
+      });
+    });
+
+    it('should propagate other catalog errors without writing', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue(mockAlbum);
+      mockMusicApiService.getAlbumDetails.mockRejectedValue(
+        new ServiceUnavailableException(
+          'Spotify API is temporarily unavailable',
+        ),
+      );
+
+      await expect(service.refreshAlbum(1)).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+      expect(mockPrismaService.album.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if album not found', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue(null);
+
+      await expect(service.refreshAlbum(999)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should reject albums from another catalog', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue({
+        ...mockAlbum,
+        provider: 'musicbrainz',
+      });
+
+      await expect(service.refreshAlbum(1)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockMusicApiService.getAlbumDetails).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refreshArtist', () => {
+    it('should update changed fields and record them in the audit log', async () => {
+      mockPrismaService.artist.findUnique.mockResolvedValue(mockArtist);
+      mockMusicApiService.getArtistDetails.mockResolvedValue({
+        externalId: 'artist123',
+        name: 'Radiohead',
+        imageUrl: 'https://example.com/artist.jpg',
+        popularity: 82,
+      });
+
+      const result = await service.refreshArtist(1);
+
+      expect(mockMusicApiService.getArtistDetails).toHaveBeenCalledWith(
+        mockArtist.externalId,
+        { fresh: true },
+      );
+      expect(mockPrismaService.artist.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { popularity: 82, lastSyncedAt: expect.any(Date) as Date },
+      });
+      expect(result.changes).toEqual([
+        { field: 'popularity', oldValue: '79', newValue: '82' },
+      ]);
+    });
+
+    it('should only record the sync time for artists removed from the catalog', async () => {
+      mockPrismaService.artist.findUnique.mockResolvedValue(mockArtist);
+      mockMusicApiService.getArtistDetails.mockRejectedValue(
+        new NotFoundException('Artist not found'),
+      );
+
+      const result = await service.refreshArtist(1);
+
+      expect(result.changes).toEqual([]);
+      expect(mockPrismaService.artist.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { lastSyncedAt: expect.any(Date) as Date },
+      });
+    });
+  });
+
+  describe('refreshStale', () => {
+    it('should refresh never synced then stale rows, in batches', async () => {
+      config.CATALOG_REFRESH_BATCH_SIZE = '20';
+      mockPrismaService.album.findMany.mockResolvedValue([{ id: 1 }]);
+      mockPrismaService.artist.findMany.mockResolvedValue([{ id: 1 }]);
+      mockPrismaService.album.findUnique.mockResolvedValue(mockAlbum);
+      mockPrismaService.artist.findUnique.mockResolvedValue(mockArtist);
+      mockMusicApiService.getAlbumDetails.mockResolvedValue({
+        title: 'OK Computer',
+        releaseDate: '1997-05-21',
+        coverUrl: 'https://example.com/old.jpg',
+      });
+      mockMusicApiService.getArtistDetails.mockResolvedValue({
+        name: 'Radiohead',
+        imageUrl: 'https://example.com/artist.jpg',
+        popularity: 79,
+      });
+
+      const results = await service.refreshStale();
+
+      const staleQuery = {
+        where: {
+          provider: 'spotify',
+          OR: [
+            { lastSyncedAt: null },
+            { lastSyncedAt: { lt: expect.any(Date) as Date } },
+          ],
+        },
+        select: { id: true },
+        orderBy: [
+          { lastSyncedAt: { sort: 'asc', nulls: 'first' } },
+          { id: 'asc' },
+        ],
+        take: 20,
+      };
+      expect(mockPrismaService.album.findMany).toHaveBeenCalledWith(staleQuery);
+      expect(mockPrismaService.artist.findMany).toHaveBeenCalledWith(
+        staleQuery,
+      );
+      expect(results.map((result) => result.entityType)).toEqual([
+        CatalogEntityType.Album,
+        CatalogEntityType.Artist,
+      ]);
+    });
+
+    it('should keep refreshing when one row fails', async () => {
+      mockPrismaService.album.findMany.mockResolvedValue([
+        { id: 1 },
+        { id: 2 },
+      ]);
+      mockPrismaService.artist.findMany.mockResolvedValue([]);
+      mockPrismaService.album.findUnique
+        .mockResolvedValueOnce(mockAlbum)
+        .mockResolvedValueOnce({ ...mockAlbum, id: 2 });
+      mockMusicApiService.getAlbumDetails
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({
+          title: 'OK Computer',
+          releaseDate: '1997-05-21',
+          coverUrl: 'https://example.com/old.jpg',
+        });
+
+      const results = await service.refreshStale();
+
+      expect(results.map((result) => result.entityId)).toEqual([2]);
+    });
+
+    it('should do nothing when the refresh is disabled', async () => {
+      config.CATALOG_REFRESH_ENABLED = 'false';
+
+      const results = await service.refreshStale();
+
+      expect(results).toEqual([]);
+      expect(mockPrismaService.album.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findChanges', () => {
+    it('should return the audit log filtered by row, newest first', async () => {
+      const changes = [{ id: 2 }, { id: 1 }];
+      mockPrismaService.catalogChange.findMany.mockResolvedValue(changes);
+
+      const result = await service.findChanges({
+        entityType: CatalogEntityType.Album,
+        entityId: 1,
+      });
+
+      expect(mockPrismaService.catalogChange.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { entityType: CatalogEntityType.Album, entityId: 1 },
+          orderBy: [{ detectedAt: 'desc' }, { id: 'desc' }],
+        }),
+      );
+      expect(result.items).toEqual(changes);
+    });
+  });
+});
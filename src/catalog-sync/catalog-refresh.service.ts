@@ -0,0 +1,320 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  MUSIC_CATALOG_PROVIDER,
+  type MusicCatalogProvider,
+} from '../music-api/music-catalog-provider.interface';
+import { paginate } from '../common/pagination/paginate';
+import {
+  CatalogFieldChange,
+  CatalogFields,
+  diffCatalogFields,
+} from './catalog-diff';
+import { CatalogEntityType } from './enums/catalog-entity-type.enum';
+import { GetCatalogChangesDto } from './dto/get-catalog-changes.dto';
+import { toAlbumReleaseMetadata } from '../albums/catalog-album-metadata';
+import { parseReleaseDate } from '../albums/release-date';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CatalogRefreshResult {
+  entityType: CatalogEntityType;
+  entityId: number;
+  // Champs modifiés (et consignés dans le journal) lors de ce rafraîchissement
+  changes: CatalogFieldChange[];
+  syncedAt: Date;
+}
+
+// Rafraîchissement des métadonnées des albums et artistes enregistrés
+// (ce qui renseigne aussi le type, le label... des albums importés avant leur ajout) :
+// les champs modifiés dans le catalogue sont mis à jour et consignés dans
+// le journal CatalogChange. Un album retiré du catalogue est marqué
+// (removedAt) et conservé avec ses critiques
+// Les détails sont relus dans le catalogue sans passer par le cache : une
+// réponse en cache masquerait les modifications et les retraits
+@Injectable()
+export class CatalogRefreshService {
+  private readonly logger = new Logger(CatalogRefreshService.name);
+  // Empêche deux rafraîchissements planifiés de se chevaucher
+  private refreshRunning = false;
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(MUSIC_CATALOG_PROVIDER)
+    private musicApiService: MusicCatalogProvider,
+    private configService: ConfigService,
+  ) {}
+
+  async refreshAlbum(albumId: number): Promise<CatalogRefreshResult> {
+    const album = await this.prisma.album.findUnique({
+      where: { id: albumId },
+    });
+
+    if (!album) {
+      throw new NotFoundException(`Album with ID ${albumId} not found`);
+    }
+
+    this.assertActiveCatalog(album.provider, `Album ${albumId}`);
+
+    const syncedAt = new Date();
+    let next: CatalogFields;
+
+    try {
+      const details = await this.musicApiService.getAlbumDetails(
+        album.externalId,
+        { fresh: true },
+      );
+      const metadata = toAlbumReleaseMetadata(details);
+      const release = parseReleaseDate(
+        details.releaseDate,
+        metadata.releaseDatePrecision,
+      );
+      next = {
+        title: details.title,
+        releaseDate: release?.date ?? null,
+        coverUrl: details.coverUrl,
+        ...metadata,
+        // Précision déduite de la date si le catalogue ne l'indique pas
+        releaseDatePrecision: release?.precision ?? null,
+        // Un album réapparu dans le catalogue n'est plus marqué comme retiré
+        removedAt: null,
+      };
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+
+      // Album retiré du catalogue : le marquer, sans toucher à ses métadonnées
+      this.logger.warn(`Album ${albumId} is no longer in the catalog`);
+      next = { removedAt: album.removedAt ?? syncedAt };
+    }
+
+    const changes = diffCatalogFields(album, next);
+
+    await this.prisma.$transaction([
+      this.prisma.album.update({
+        where: { id: albumId },
+        data: { ...this.toUpdateData(changes, next), lastSyncedAt: syncedAt },
+      }),
+      ...this.recordChanges(
+        CatalogEntityType.Album,
+        albumId,
+        changes,
+        syncedAt,
+      ),
+    ]);
+
+    return {
+      entityType: CatalogEntityType.Album,
+      entityId: albumId,
+      changes,
+      syncedAt,
+    };
+  }
+
+  async refreshArtist(artistId: number): Promise<CatalogRefreshResult> {
+    const artist = await this.prisma.artist.findUnique({
+      where: { id: artistId },
+    });
+
+    if (!artist) {
+      throw new NotFoundException(`Artist with ID ${artistId} not found`);
+    }
+
+    this.assertActiveCatalog(artist.provider, `Artist ${artistId}`);
+
+    const syncedAt = new Date();
+    let changes: CatalogFieldChange[] = [];
+    let next: CatalogFields = {};
+
+    try {
+      const details = await this.musicApiService.getArtistDetails(
+        artist.externalId,
+        { fresh: true },
+      );
+      next = {
+        name: details.name,
+        imageUrl: details.imageUrl,
+        popularity: details.popularity,
+      };
+      changes = diffCatalogFields(artist, next);
+    } catch (error) {
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+
+      // Les artistes ne sont pas marqués : seuls leurs albums le sont
+      this.logger.warn(`Artist ${artistId} is no longer in the catalog`);
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.artist.update({
+        where: { id: artistId },
+        data: { ...this.toUpdateData(changes, next), lastSyncedAt: syncedAt },
+      }),
+      ...this.recordChanges(
+        CatalogEntityType.Artist,
+        artistId,
+        changes,
+        syncedAt,
+      ),
+    ]);
+
+    return {
+      entityType: CatalogEntityType.Artist,
+      entityId: artistId,
+      changes,
+      syncedAt,
+    };
+  }
+
+  // Rafraîchissement planifié des lignes jamais rafraîchies, puis de celles
+  // rafraîchies il y a plus de CATALOG_REFRESH_DAYS jours
+  // Au plus CATALOG_REFRESH_BATCH_SIZE albums et autant d'artistes par passage
+  @Cron(CronExpression.EVERY_HOUR)
+  async refreshStale(): Promise<CatalogRefreshResult[]> {
+    if (
+      this.configService.get('CATALOG_REFRESH_ENABLED', 'true') !== 'true' ||
+      this.refreshRunning
+    ) {
+      return [];
+    }
+
+    this.refreshRunning = true;
+    try {
+      const refreshDays = Number(
+        this.configService.get('CATALOG_REFRESH_DAYS', 7),
+      );
+      const batchSize = Number(
+        this.configService.get('CATALOG_REFRESH_BATCH_SIZE', 50),
+      );
+      const staleQuery = {
+        where: {
+          provider: this.musicApiService.providerName,
+          OR: [
+            { lastSyncedAt: null },
+            {
+              lastSyncedAt: { lt: new Date(Date.now() - refreshDays * DAY_MS) },
+            },
+          ],
+        },
+        select: { id: true },
+        orderBy: [
+          { lastSyncedAt: { sort: 'asc' as const, nulls: 'first' as const } },
+          { id: 'asc' as const },
+        ],
+        take: batchSize,
+      };
+
+      const [albums, artists]: [{ id: number }[], { id: number }[]] =
+        await Promise.all([
+          this.prisma.album.findMany(staleQuery),
+          this.prisma.artist.findMany(staleQuery),
+        ]);
+
+      const results: CatalogRefreshResult[] = [];
+      // Un appel à la fois pour ménager les quotas de l'API externe
+      for (const album of albums) {
+        await this.collect(results, `album ${album.id}`, () =>
+          this.refreshAlbum(album.id),
+        );
+      }
+      for (const artist of artists) {
+        await this.collect(results, `artist ${artist.id}`, () =>
+          this.refreshArtist(artist.id),
+        );
+      }
+
+      const changeCount = results.reduce(
+        (sum, result) => sum + result.changes.length,
+        0,
+      );
+      this.logger.log(
+        `Refreshed ${results.length} catalog rows (${changeCount} changes)`,
+      );
+
+      return results;
+    } finally {
+      this.refreshRunning = false;
+    }
+  }
+
+  // Journal des modifications, de la plus récente à la plus ancienne
+  async findChanges(query: GetCatalogChangesDto = {}) {
+    return paginate(
+      this.prisma.catalogChange,
+      {
+        where: {
+          ...(query.entityType !== undefined && {
+            entityType: query.entityType,
+          }),
+          ...(query.entityId !== undefined && { entityId: query.entityId }),
+        },
+      },
+      query,
+      [
+        { field: 'detectedAt', direction: 'desc' },
+        { field: 'id', direction: 'desc' },
+      ],
+    );
+  }
+
+  // Les ID externes ne sont interrogeables que dans le catalogue actif
+  private assertActiveCatalog(provider: string, label: string) {
+    if (provider !== this.musicApiService.providerName) {
+      throw new BadRequestException(
+        `${label} does not belong to the ${this.musicApiService.providerName} catalog`,
+      );
+    }
+  }
+
+  // Nouvelles valeurs des seuls champs modifiés
+  private toUpdateData(changes: CatalogFieldChange[], next: CatalogFields) {
+    return Object.fromEntries(
+      changes.map(({ field }) => [field, next[field] ?? null]),
+    );
+  }
+
+  private recordChanges(
+    entityType: CatalogEntityType,
+    entityId: number,
+    changes: CatalogFieldChange[],
+    detectedAt: Date,
+  ) {
+    if (changes.length === 0) {
+      return [];
+    }
+
+    return [
+      this.prisma.catalogChange.createMany({
+        data: changes.map((change) => ({
+          entityType,
+          entityId,
+          ...change,
+          detectedAt,
+        })),
+      }),
+    ];
+  }
+
+  // Une erreur sur une ligne n'interrompt pas le rafraîchissement des autres
+  private async collect(
+    results: CatalogRefreshResult[],
+    label: string,
+    refresh: () => Promise<CatalogRefreshResult>,
+  ) {
+    try {
+      results.push(await refresh());
+    } catch (error) {
+      this.logger.error(`Catalog refresh failed for ${label}`, error);
+    }
+  }
+}
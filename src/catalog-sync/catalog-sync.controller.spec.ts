@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { CatalogSyncController } from './catalog-sync.controller';
+import { DiscographyImportService } from './discography-import.service';
+import { CatalogRefreshService } from './catalog-refresh.service';
+import { CatalogEntityType } from './enums/catalog-entity-type.enum';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+
+describe('CatalogSyncController', () => {
+  let controller: CatalogSyncController;
+
+  const mockResult = {
+    artistId: 1,
+    fetched: 12,
+    imported: 4,
+    failed: 0,
+    syncedAt: new Date(),
+  };
+
+  const mockDiscographyImportService = {
+    importArtist: jest.fn().mockImplementation((id) => {
+      if (id === 999) {
+        return Promise.reject(
+          new NotFoundException(`Artist with ID ${id} not found`),
+        );
+      }
+      return Promise.resolve(mockResult);
+    }),
+  };
+
+  const mockRefreshResult = {
+    entityType: CatalogEntityType.Album,
+    entityId: 1,
+    changes: [
+      {
+        field: 'coverUrl',
+        oldValue: 'https://example.com/old.jpg',
+        newValue: 'https://example.com/new.jpg',
+      },
+    ],
+    syncedAt: new Date(),
+  };
+
+  const mockChangesPage = {
+    items: [{ id: 1, entityType: 'ALBUM', entityId: 1, field: 'coverUrl' }],
+    pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+  };
+
+  const mockCatalogRefreshService = {
+    refreshAlbum: jest.fn().mockResolvedValue(mockRefreshResult),
+    refreshArtist: jest.fn().mockResolvedValue({
+      ...mockRefreshResult,
+      entityType: CatalogEntityType.Artist,
+      changes: [],
+    }),
+    findChanges: jest.fn().mockResolvedValue(mockChangesPage),
+  };
+
+  const mockGuard = { canActivate: jest.fn().mockReturnValue(true) };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CatalogSyncController],
+      providers: [
+        {
+          provide: DiscographyImportService,
+          useValue: mockDiscographyImportService,
+        },
+        {
+          provide: CatalogRefreshService,
+          useValue: mockCatalogRefreshService,
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(mockGuard)
+      .overrideGuard(RolesGuard)
+      .useValue(mockGuard)
+      .compile();
+
+    controller = module.get<CatalogSyncController>(CatalogSyncController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('importArtistDiscography', () => {
+    it('should import the discography of an artist', async () => {
+      const result = await controller.importArtistDiscography(1);
+
+      expect(result).toEqual(mockResult);
+      expect(mockDiscographyImportService.importArtist).toHaveBeenCalledWith(1);
+    });
+
+    it('should propagate NotFoundException', async () => {
+      await expect(controller.importArtistDiscography(999)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('refreshAlbum', () => {
+    it('should refresh the metadata of an album', async () => {
+      const result = await controller.refreshAlbum(1);
+
+      expect(result).toEqual(mockRefreshResult);
+      expect(mockCatalogRefreshService.refreshAlbum).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('refreshArtist', () => {
+    it('should refresh the metadata of an artist', async () => {
+      const result = await controller.refreshArtist(1);
+
+      expect(result.changes).toEqual([]);
+      expect(mockCatalogRefreshService.refreshArtist).toHaveBeenCalledWith(1);
+    });
+  });
+
+  describe('findChanges', () => {
+    it('should return a page of catalog changes', async () => {
+      const query = { entityType: CatalogEntityType.Album, entityId: 1 };
+
+      const result = await controller.findChanges(query);
+
+      expect(result).toEqual(mockChangesPage);
+      expect(mockCatalogRefreshService.findChanges).toHaveBeenCalledWith(query);
+    });
+  });
+});
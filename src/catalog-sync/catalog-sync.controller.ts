@@ -0,0 +1,102 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { DiscographyImportService } from './discography-import.service';
+import { CatalogRefreshService } from './catalog-refresh.service';
+import { GetCatalogChangesDto } from './dto/get-catalog-changes.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+
+@ApiTags('catalog-sync')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.Admin)
+@Controller('catalog-sync')
+export class CatalogSyncController {
+  constructor(
+    private readonly discographyImportService: DiscographyImportService,
+    private readonly catalogRefreshService: CatalogRefreshService,
+  ) {}
+
+  @ApiOperation({
+    summary: "Importer la discographie d'un artiste",
+    description:
+      "Parcourt toutes les pages d'albums de l'artiste dans le catalogue et enregistre les albums manquants avec leurs pistes (réservé aux administrateurs)",
+  })
+  @ApiResponse({ status: 200, description: "Résumé de l'import" })
+  @ApiResponse({
+    status: 400,
+    description: "L'artiste ne provient pas du catalogue actif",
+  })
+  @ApiResponse({ status: 403, description: 'Réservé aux administrateurs' })
+  @ApiResponse({ status: 404, description: 'Artiste non trouvé' })
+  @HttpCode(HttpStatus.OK)
+  @Post('artists/:id/discography')
+  importArtistDiscography(@Param('id', ParseIntPipe) id: number) {
+    return this.discographyImportService.importArtist(id);
+  }
+
+  @ApiOperation({
+    summary: "Rafraîchir les métadonnées d'un album",
+    description:
+      "Relit l'album dans le catalogue, met à jour les champs modifiés et les consigne dans le journal ; un album retiré du catalogue est marqué sans être supprimé (réservé aux administrateurs)",
+  })
+  @ApiResponse({ status: 200, description: 'Champs modifiés' })
+  @ApiResponse({
+    status: 400,
+    description: "L'album ne provient pas du catalogue actif",
+  })
+  @ApiResponse({ status: 403, description: 'Réservé aux administrateurs' })
+  @ApiResponse({ status: 404, description: 'Album non trouvé' })
+  @HttpCode(HttpStatus.OK)
+  @Post('albums/:id/refresh')
+  refreshAlbum(@Param('id', ParseIntPipe) id: number) {
+    return this.catalogRefreshService.refreshAlbum(id);
+  }
+
+  @ApiOperation({
+    summary: "Rafraîchir les métadonnées d'un artiste",
+    description:
+      "Relit l'artiste dans le catalogue, met à jour les champs modifiés et les consigne dans le journal (réservé aux administrateurs)",
+  })
+  @ApiResponse({ status: 200, description: 'Champs modifiés' })
+  @ApiResponse({
+    status: 400,
+    description: "L'artiste ne provient pas du catalogue actif",
+  })
+  @ApiResponse({ status: 403, description: 'Réservé aux administrateurs' })
+  @ApiResponse({ status: 404, description: 'Artiste non trouvé' })
+  @HttpCode(HttpStatus.OK)
+  @Post('artists/:id/refresh')
+  refreshArtist(@Param('id', ParseIntPipe) id: number) {
+    return this.catalogRefreshService.refreshArtist(id);
+  }
+
+  @ApiOperation({
+    summary: 'Journal des modifications du catalogue',
+    description:
+      'Champs modifiés détectés lors des rafraîchissements, du plus récent au plus ancien (réservé aux administrateurs)',
+  })
+  @ApiResponse({ status: 200, description: 'Page de modifications' })
+  @ApiResponse({ status: 403, description: 'Réservé aux administrateurs' })
+  @Get('changes')
+  findChanges(@Query() query: GetCatalogChangesDto) {
+    return this.catalogRefreshService.findChanges(query);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CatalogSyncController } from './catalog-sync.controller';
+import { DiscographyImportService } from './discography-import.service';
+import { CatalogRefreshService } from './catalog-refresh.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { MusicApiModule } from '../music-api/music-api.module';
+import { AlbumsModule } from '../albums/albums.module';
+
+@Module({
+  imports: [PrismaModule, MusicApiModule, AlbumsModule],
+  controllers: [CatalogSyncController],
+  providers: [DiscographyImportService, CatalogRefreshService],
+})
+export class CatalogSyncModule {}
@@ -0,0 +1,249 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DiscographyImportService } from './discography-import.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { MUSIC_CATALOG_PROVIDER } from '../music-api/music-catalog-provider.interface';
+import { AlbumsService } from '../albums/albums.service';
+
+describe('DiscographyImportService', () => {
+  let service: DiscographyImportService;
+
+  const mockPrismaService = {
+    artist: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    album: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockMusicApiService = {
+    providerName: 'spotify',
+    getArtistAlbums: jest.fn(),
+  };
+
+  const mockAlbumsService = {
+    getAlbumDetailsByExternalId: jest.fn(),
+  };
+
+  const config: Record<string, string> = {};
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: any) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  const mockArtist = {
+    id: 1,
+    provider: 'spotify',
+    externalId: 'artist123',
+    name: 'Radiohead',
+    albumsSyncedAt: null,
+  };
+
+  // Page de `count` albums numérotés à partir de `start`
+  const catalogPage = (start: number, count: number) =>
+    Array.from({ length: count }, (_, index) => ({
+      externalId: `album${start + index}`,
+      title: `Album ${start + index}`,
+    }));
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    for (const key of Object.keys(config)) {
+      delete config[key];
+    }
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DiscographyImportService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: MUSIC_CATALOG_PROVIDER,
+          useValue: mockMusicApiService,
+        },
+        {
+          provide: AlbumsService,
+          useValue: mockAlbumsService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<DiscographyImportService>(DiscographyImportService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('importArtist', () => {
+    it('should page through the whole discography and import missing albums', async () => {
+      mockPrismaService.artist.findUnique.mockResolvedValue(mockArtist);
+      mockMusicApiService.getArtistAlbums
+        .mockResolvedValueOnce(catalogPage(0, 50))
+        .mockResolvedValueOnce(catalogPage(50, 3));
+      mockPrismaService.album.findMany.mockResolvedValue([
+        { externalId: 'album0' },
+        { externalId: 'album51' },
+      ]);
+      mockAlbumsService.getAlbumDetailsByExternalId.mockResolvedValue({});
+
+      const result = await service.importArtist(1);
+
+      expect(mockMusicApiService.getArtistAlbums).toHaveBeenNthCalledWith(
+        1,
+        'artist123',
+        50,
+        0,
+        { fresh: true },
+      );
+      expect(mockMusicApiService.getArtistAlbums).toHaveBeenNthCalledWith(
+        2,
+        'artist123',
+        50,
+        50,
+        { fresh: true },
+      );
+      expect(mockMusicApiService.getArtistAlbums).toHaveBeenCalledTimes(2);
+      expect(
+        mockAlbumsService.getAlbumDetailsByExternalId,
+      ).toHaveBeenCalledTimes(51);
+      expect(
+        mockAlbumsService.getAlbumDetailsByExternalId,
+      ).not.toHaveBeenCalledWith('album0');
+      expect(mockPrismaService.artist.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { albumsSyncedAt: expect.any(Date) },
+      });
+      expect(result).toEqual({
+        artistId: 1,
+        fetched: 53,
+        imported: 51,
+        failed: 0,
+        syncedAt: expect.any(Date),
+      });
+    });
+
+    it('should ignore albums repeated across pages', async () => {
+      mockPrismaService.artist.findUnique.mockResolvedValue(mockArtist);
+      mockMusicApiService.getArtistAlbums
+        .mockResolvedValueOnce(catalogPage(0, 50))
+        .mockResolvedValueOnce(catalogPage(49, 2));
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+      mockAlbumsService.getAlbumDetailsByExternalId.mockResolvedValue({});
+
+      const result = await service.importArtist(1);
+
+      expect(result.fetched).toBe(51);
+      expect(result.imported).toBe(51);
+    });
+
+    it('should count failed albums and keep importing the others', async () => {
+      mockPrismaService.artist.findUnique.mockResolvedValue(mockArtist);
+      mockMusicApiService.getArtistAlbums.mockResolvedValue(catalogPage(0, 3));
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+      mockAlbumsService.getAlbumDetailsByExternalId
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new Error('Spotify unavailable'))
+        .mockResolvedValueOnce({});
+
+      const result = await service.importArtist(1);
+
+      expect(result).toEqual(
+        expect.objectContaining({ fetched: 3, imported: 2, failed: 1 }),
+      );
+      expect(mockPrismaService.artist.update).toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if artist not found', async () => {
+      mockPrismaService.artist.findUnique.mockResolvedValue(null);
+
+      await expect(service.importArtist(999)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockMusicApiService.getArtistAlbums).not.toHaveBeenCalled();
+    });
+
+    it('should reject artists from another catalog', async () => {
+      mockPrismaService.artist.findUnique.mockResolvedValue({
+        ...mockArtist,
+        provider: 'musicbrainz',
+      });
+
+      await expect(service.importArtist(1)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockMusicApiService.getArtistAlbums).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncDueArtists', () => {
+    it('should import never synced then stale artists, in batches', async () => {
+      config.DISCOGRAPHY_SYNC_BATCH_SIZE = '2';
+      mockPrismaService.artist.findMany.mockResolvedValue([{ id: 1 }]);
+      mockPrismaService.artist.findUnique.mockResolvedValue(mockArtist);
+      mockMusicApiService.getArtistAlbums.mockResolvedValue([]);
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      const results = await service.syncDueArtists();
+
+      expect(mockPrismaService.artist.findMany).toHaveBeenCalledWith({
+        where: {
+          provider: 'spotify',
+          OR: [
+            {
+              albumsSyncedAt: null,
+              albumCredits: { some: { album: { reviewCount: { gt: 0 } } } },
+            },
+            { albumsSyncedAt: { lt: expect.any(Date) } },
+          ],
+        },
+        select: { id: true },
+        orderBy: [
+          { albumsSyncedAt: { sort: 'asc', nulls: 'first' } },
+          { id: 'asc' },
+        ],
+        take: 2,
+      });
+      expect(results).toHaveLength(1);
+      expect(results[0].artistId).toBe(1);
+    });
+
+    it('should keep syncing when one artist fails', async () => {
+      mockPrismaService.artist.findMany.mockResolvedValue([
+        { id: 1 },
+        { id: 2 },
+      ]);
+      mockPrismaService.artist.findUnique
+        .mockResolvedValueOnce(mockArtist)
+        .mockResolvedValueOnce({ ...mockArtist, id: 2 });
+      mockMusicApiService.getArtistAlbums
+        .mockRejectedValueOnce(new Error('Spotify unavailable'))
+        .mockResolvedValueOnce([]);
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      const results = await service.syncDueArtists();
+
+      expect(results.map((result) => result.artistId)).toEqual([2]);
+    });
+
+    it('should do nothing when the sync is disabled', async () => {
+      config.DISCOGRAPHY_SYNC_ENABLED = 'false';
+
+      const results = await service.syncDueArtists();
+
+      expect(results).toEqual([]);
+      expect(mockPrismaService.artist.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
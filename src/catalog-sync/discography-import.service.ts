@@ -0,0 +1,210 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CatalogAlbum,
+  MUSIC_CATALOG_PROVIDER,
+  type MusicCatalogProvider,
+} from '../music-api/music-catalog-provider.interface';
+import { AlbumsService } from '../albums/albums.service';
+
+// Nombre maximal d'albums renvoyés par une requête au catalogue
+const PAGE_SIZE = 50;
+// Garde-fou contre une pagination sans fin (soit 2 500 albums au plus)
+const MAX_PAGES = 50;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface DiscographyImportResult {
+  artistId: number;
+  // Albums trouvés dans le catalogue
+  fetched: number;
+  // Albums ajoutés à la base (avec leurs pistes et leurs artistes)
+  imported: number;
+  // Albums dont l'import a échoué ; ils seront retentés à la prochaine synchronisation
+  failed: number;
+  syncedAt: Date;
+}
+
+// Import de la discographie complète des artistes depuis le catalogue,
+// à la demande ou en tâche de fond pour récupérer les nouvelles sorties
+@Injectable()
+export class DiscographyImportService {
+  private readonly logger = new Logger(DiscographyImportService.name);
+  // Empêche deux synchronisations planifiées de se chevaucher
+  private syncRunning = false;
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(MUSIC_CATALOG_PROVIDER)
+    private musicApiService: MusicCatalogProvider,
+    private albumsService: AlbumsService,
+    private configService: ConfigService,
+  ) {}
+
+  // Importer tous les albums d'un artiste absents de la base
+  async importArtist(artistId: number): Promise<DiscographyImportResult> {
+    const artist = await this.prisma.artist.findUnique({
+      where: { id: artistId },
+    });
+
+    if (!artist) {
+      throw new NotFoundException(`Artist with ID ${artistId} not found`);
+    }
+
+    if (artist.provider !== this.musicApiService.providerName) {
+      throw new BadRequestException(
+        `Artist ${artistId} does not belong to the ${this.musicApiService.providerName} catalog`,
+      );
+    }
+
+    const catalogAlbums = await this.fetchDiscography(artist.externalId);
+
+    const storedAlbums: { externalId: string }[] =
+      await this.prisma.album.findMany({
+        where: {
+          provider: artist.provider,
+          externalId: { in: catalogAlbums.map((album) => album.externalId) },
+        },
+        select: { externalId: true },
+      });
+    const storedIds = new Set(storedAlbums.map((album) => album.externalId));
+
+    let imported = 0;
+    let failed = 0;
+
+    // Un album à la fois pour ménager les quotas de l'API externe
+    for (const album of catalogAlbums) {
+      if (storedIds.has(album.externalId)) {
+        continue;
+      }
+
+      try {
+        await this.albumsService.getAlbumDetailsByExternalId(album.externalId);
+        imported++;
+      } catch (error) {
+        failed++;
+        this.logger.warn(
+          `Failed to import album ${album.externalId} of artist ${artistId}: ${error.message}`,
+        );
+      }
+    }
+
+    const syncedAt = new Date();
+    await this.prisma.artist.update({
+      where: { id: artistId },
+      data: { albumsSyncedAt: syncedAt },
+    });
+
+    this.logger.log(
+      `Imported ${imported}/${catalogAlbums.length} albums of artist ${artistId} (${failed} failed)`,
+    );
+
+    return {
+      artistId,
+      fetched: catalogAlbums.length,
+      imported,
+      failed,
+      syncedAt,
+    };
+  }
+
+  // Synchronisation planifiée : artistes jamais importés en premier, puis ceux
+  // dont le dernier import date de plus de DISCOGRAPHY_REFRESH_HOURS heures
+  // Au plus DISCOGRAPHY_SYNC_BATCH_SIZE artistes par passage
+  // Un artiste jamais importé n'est retenu que s'il est crédité sur un album
+  // critiqué : ceux découverts dans les crédits des albums importés ne sont pas
+  // mis en file, sans quoi la synchronisation parcourrait tout le catalogue
+  @Cron(CronExpression.EVERY_HOUR)
+  async syncDueArtists(): Promise<DiscographyImportResult[]> {
+    if (
+      this.configService.get('DISCOGRAPHY_SYNC_ENABLED', 'true') !== 'true' ||
+      this.syncRunning
+    ) {
+      return [];
+    }
+
+    this.syncRunning = true;
+    try {
+      const refreshHours = Number(
+        this.configService.get('DISCOGRAPHY_REFRESH_HOURS', 24),
+      );
+      const batchSize = Number(
+        this.configService.get('DISCOGRAPHY_SYNC_BATCH_SIZE', 10),
+      );
+      const staleBefore = new Date(Date.now() - refreshHours * HOUR_MS);
+
+      const artists: { id: number }[] = await this.prisma.artist.findMany({
+        where: {
+          provider: this.musicApiService.providerName,
+          OR: [
+            {
+              albumsSyncedAt: null,
+              albumCredits: { some: { album: { reviewCount: { gt: 0 } } } },
+            },
+            { albumsSyncedAt: { lt: staleBefore } },
+          ],
+        },
+        select: { id: true },
+        orderBy: [
+          { albumsSyncedAt: { sort: 'asc', nulls: 'first' } },
+          { id: 'asc' },
+        ],
+        take: batchSize,
+      });
+
+      const results: DiscographyImportResult[] = [];
+      for (const artist of artists) {
+        try {
+          results.push(await this.importArtist(artist.id));
+        } catch (error) {
+          this.logger.error(
+            `Discography sync failed for artist ${artist.id}`,
+            error,
+          );
+        }
+      }
+
+      return results;
+    } finally {
+      this.syncRunning = false;
+    }
+  }
+
+  // Parcourir toutes les pages de la discographie ; une page incomplète
+  // signale la fin. Les doublons éventuels entre pages sont ignorés
+  // Les pages sont relues dans le catalogue, sans passer par le cache
+  private async fetchDiscography(
+    artistExternalId: string,
+  ): Promise<CatalogAlbum[]> {
+    const albums = new Map<string, CatalogAlbum>();
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const items = await this.musicApiService.getArtistAlbums(
+        artistExternalId,
+        PAGE_SIZE,
+        page * PAGE_SIZE,
+        { fresh: true },
+      );
+
+      for (const album of items) {
+        if (!albums.has(album.externalId)) {
+          albums.set(album.externalId, album);
+        }
+      }
+
+      if (items.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return [...albums.values()];
+  }
+}
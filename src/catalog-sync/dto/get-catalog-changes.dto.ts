@@ -0,0 +1,27 @@
+import { IsEnum, IsInt, IsOptional, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { PaginationQueryDto } from '../../common/pagination/pagination-query.dto';
+import { CatalogEntityType } from '../enums/catalog-entity-type.enum';
+
+export class GetCatalogChangesDto extends PaginationQueryDto {
+  @ApiProperty({
+    description: 'Filtrer sur le type de ligne modifiée',
+    enum: CatalogEntityType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(CatalogEntityType)
+  entityType?: CatalogEntityType;
+
+  @ApiProperty({
+    description: "Filtrer sur l'ID (interne) de l'album ou de l'artiste",
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  entityId?: number;
+}
@@ -0,0 +1,5 @@
+// Type de ligne rafraîchie depuis le catalogue (miroir de l'enum CatalogEntityType du schéma Prisma)
+export enum CatalogEntityType {
+  Album = 'ALBUM',
+  Artist = 'ARTIST',
+}
@@ -0,0 +1,66 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ChartsController } from './charts.controller';
+import { ChartsService } from './charts.service';
+import { AlbumChartType } from './enums/album-chart-type.enum';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+describe('ChartsController', () => {
+  let controller: ChartsController;
+
+  const mockChart = {
+    type: AlbumChartType.MostReviewed,
+    period: null,
+    items: [
+      {
+        rank: 1,
+        score: 12,
+        averageRating: 4.2,
+        reviewCount: 12,
+        album: { id: 1, title: 'Test Album' },
+      },
+    ],
+  };
+
+  const mockChartsService = {
+    getAlbumChart: jest.fn().mockResolvedValue(mockChart),
+  };
+
+  // Mock JWT Guard
+  const mockJwtAuthGuard = {
+    canActivate: jest.fn().mockReturnValue(true),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ChartsController],
+      providers: [
+        {
+          provide: ChartsService,
+          useValue: mockChartsService,
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(mockJwtAuthGuard)
+      .compile();
+
+    controller = module.get<ChartsController>(ChartsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('getAlbumChart', () => {
+    it('should return the requested chart', async () => {
+      const query = { type: AlbumChartType.MostReviewed, releaseYear: 2001 };
+
+      const result = await controller.getAlbumChart(query);
+
+      expect(result).toEqual(mockChart);
+      expect(mockChartsService.getAlbumChart).toHaveBeenCalledWith(query);
+    });
+  });
+});
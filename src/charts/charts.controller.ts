@@ -0,0 +1,37 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ChartsService } from './charts.service';
+import { GetAlbumChartDto } from './dto/get-album-chart.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('charts')
+@ApiBearerAuth()
+@Controller('charts')
+export class ChartsController {
+  constructor(private readonly chartsService: ChartsService) {}
+
+  @ApiOperation({ summary: "Classements d'albums" })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Albums classés avec leur rang, leur score, leur note moyenne et leur nombre de critiques sur la période',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Paramètres de classement invalides',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Non autorisé',
+  })
+  @UseGuards(JwtAuthGuard)
+  @Get('albums')
+  getAlbumChart(@Query() query: GetAlbumChartDto) {
+    return this.chartsService.getAlbumChart(query);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ChartsController } from './charts.controller';
+import { ChartsService } from './charts.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AlbumsModule } from '../albums/albums.module';
+
+@Module({
+  imports: [PrismaModule, AlbumsModule],
+  controllers: [ChartsController],
+  providers: [ChartsService],
+})
+export class ChartsModule {}
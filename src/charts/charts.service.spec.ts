@@ -0,0 +1,366 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ChartsService } from './charts.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AlbumRatingsService } from '../albums/album-ratings.service';
+import { AlbumChartType } from './enums/album-chart-type.enum';
+import { AlbumType } from '../albums/enums/album-type.enum';
+
+describe('ChartsService', () => {
+  let service: ChartsService;
+
+  const mockPrismaService = {
+    album: {
+      findMany: jest.fn(),
+    },
+    review: {
+      groupBy: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  };
+
+  const mockAlbumRatingsService = {
+    getPrior: jest.fn(),
+  };
+
+  const albumsById = (ids: number[]) =>
+    ids.map((id) => ({ id, title: `Album ${id}`, artist: { id: 1 } }));
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-19T12:00:00Z'));
+    jest.clearAllMocks();
+
+    mockAlbumRatingsService.getPrior.mockResolvedValue({ mean: 3, weight: 5 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChartsService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+        {
+          provide: AlbumRatingsService,
+          useValue: mockAlbumRatingsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ChartsService>(ChartsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('top rated all-time', () => {
+    // Valeurs liées à la requête SQL (après le tableau des fragments)
+    const queryValues = () =>
+      (mockPrismaService.$queryRaw.mock.calls[0] as unknown[]).slice(1);
+
+    it('should rank albums by weighted score in SQL', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValue([
+        // Beaucoup de très bonnes critiques
+        {
+          albumId: 2,
+          score: (5 * 3 + 230) / 55,
+          averageRating: 4.6,
+          reviewCount: 50,
+        },
+        // Une seule critique parfaite
+        {
+          albumId: 1,
+          score: (5 * 3 + 5) / 6,
+          averageRating: 5,
+          reviewCount: 1,
+        },
+      ]);
+      mockPrismaService.album.findMany.mockResolvedValue(albumsById([1, 2]));
+
+      const result = await service.getAlbumChart({
+        type: AlbumChartType.TopRated,
+        limit: 10,
+      });
+
+      expect(result.period).toBeNull();
+      expect(result.items.map((item) => item.album.id)).toEqual([2, 1]);
+      expect(result.items[0]).toEqual(
+        expect.objectContaining({
+          rank: 1,
+          averageRating: 4.6,
+          averageStars: 2.3,
+          reviewCount: 50,
+          score: (5 * 3 + 230) / 55,
+        }),
+      );
+      // Poids et moyenne a priori, puis filtres absents, puis limite
+      expect(queryValues()).toEqual([
+        5,
+        3,
+        5,
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        null,
+        10,
+      ]);
+      expect(mockPrismaService.album.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass the release, artist, genre and type filters to the query', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValue([]);
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      await service.getAlbumChart({
+        releaseYear: 2001,
+        artistId: 3,
+        genre: 'french-house',
+        albumType: AlbumType.Album,
+      });
+
+      expect(queryValues()).toEqual([
+        5,
+        3,
+        5,
+        AlbumType.Album,
+        AlbumType.Album,
+        new Date('2001-01-01T00:00:00Z'),
+        new Date('2001-01-01T00:00:00Z'),
+        new Date('2002-01-01T00:00:00Z'),
+        new Date('2002-01-01T00:00:00Z'),
+        3,
+        3,
+        'french-house',
+        'french-house',
+        20,
+      ]);
+    });
+
+    it('should leave albums removed from the catalog out of the ranking', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValue([]);
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      await service.getAlbumChart({});
+
+      const [fragments] = mockPrismaService.$queryRaw.mock.calls[0] as [
+        TemplateStringsArray,
+      ];
+      expect(fragments.join('')).toContain('"removedAt" IS NULL');
+    });
+  });
+
+  describe('top rated this month', () => {
+    it('should only consider reviews written since the start of the month', async () => {
+      mockPrismaService.review.groupBy.mockResolvedValue([
+        { albumId: 4, _count: { _all: 2 }, _sum: { rating: 8 } },
+      ]);
+      mockPrismaService.album.findMany.mockResolvedValue(albumsById([4]));
+
+      const result = await service.getAlbumChart({
+        type: AlbumChartType.TopRatedMonth,
+        artistId: 1,
+      });
+
+      expect(mockPrismaService.review.groupBy).toHaveBeenCalledWith({
+        by: ['albumId'],
+        where: {
+          createdAt: { gte: new Date('2026-10-01T00:00:00Z') },
+          album: { removedAt: null, artists: { some: { artistId: 1 } } },
+        },
+        _count: { _all: true },
+        _sum: { rating: true },
+      });
+      expect(result.period).toEqual({
+        from: new Date('2026-10-01T00:00:00Z'),
+        to: new Date('2026-10-19T12:00:00Z'),
+      });
+      expect(result.items[0]).toEqual(
+        expect.objectContaining({
+          rank: 1,
+          averageRating: 4,
+          reviewCount: 2,
+          score: (5 * 3 + 8) / 7,
+        }),
+      );
+    });
+  });
+
+  describe('top rated this year', () => {
+    it('should start the period on January 1st', async () => {
+      mockPrismaService.review.groupBy.mockResolvedValue([]);
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      const result = await service.getAlbumChart({
+        type: AlbumChartType.TopRatedYear,
+      });
+
+      expect(result.period?.from).toEqual(new Date('2026-01-01T00:00:00Z'));
+      expect(result.items).toEqual([]);
+    });
+  });
+
+  describe('most reviewed', () => {
+    it('should order albums by review count', async () => {
+      mockPrismaService.album.findMany
+        .mockResolvedValueOnce([
+          { id: 7, averageRating: 3.1, reviewCount: 40 },
+          { id: 8, averageRating: 4.8, reviewCount: 12 },
+        ])
+        .mockResolvedValueOnce(albumsById([8, 7]));
+
+      const result = await service.getAlbumChart({
+        type: AlbumChartType.MostReviewed,
+        limit: 2,
+      });
+
+      expect(mockPrismaService.album.findMany).toHaveBeenNthCalledWith(1, {
+        where: { removedAt: null, reviewCount: { gt: 0 } },
+        select: { id: true, averageRating: true, reviewCount: true },
+        orderBy: [
+          { reviewCount: 'desc' },
+          { averageRating: 'desc' },
+          { id: 'asc' },
+        ],
+        take: 2,
+      });
+      expect(result.items.map((item) => [item.rank, item.album.id])).toEqual([
+        [1, 7],
+        [2, 8],
+      ]);
+    });
+
+    it('should break review count ties by average rating as in the query', async () => {
+      mockPrismaService.album.findMany
+        .mockResolvedValueOnce([
+          { id: 8, averageRating: 4.8, reviewCount: 12 },
+          { id: 7, averageRating: 3.1, reviewCount: 12 },
+        ])
+        .mockResolvedValueOnce(albumsById([7, 8]));
+
+      const result = await service.getAlbumChart({
+        type: AlbumChartType.MostReviewed,
+      });
+
+      expect(result.items.map((item) => item.album.id)).toEqual([8, 7]);
+    });
+
+    it('should apply release year and artist filters', async () => {
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      await service.getAlbumChart({
+        type: AlbumChartType.MostReviewed,
+        releaseYear: 2001,
+        artistId: 3,
+      });
+
+      expect(mockPrismaService.album.findMany).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          where: {
+            removedAt: null,
+            releaseDate: {
+              gte: new Date('2001-01-01T00:00:00Z'),
+              lt: new Date('2002-01-01T00:00:00Z'),
+            },
+            artists: { some: { artistId: 3 } },
+            reviewCount: { gt: 0 },
+          },
+        }),
+      );
+    });
+
+    it('should combine artist and genre filters', async () => {
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      await service.getAlbumChart({
+        type: AlbumChartType.MostReviewed,
+        artistId: 3,
+        genre: 'french-house',
+      });
+
+      expect(mockPrismaService.album.findMany).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          where: {
+            removedAt: null,
+            artists: { some: { artistId: 3 } },
+            AND: [
+              {
+                artists: {
+                  some: {
+                    artist: {
+                      genres: { some: { genre: { slug: 'french-house' } } },
+                    },
+                  },
+                },
+              },
+            ],
+            reviewCount: { gt: 0 },
+          },
+        }),
+      );
+    });
+
+    it('should filter on the release type', async () => {
+      mockPrismaService.album.findMany.mockResolvedValue([]);
+
+      await service.getAlbumChart({
+        type: AlbumChartType.MostReviewed,
+        albumType: AlbumType.Album,
+      });
+
+      expect(mockPrismaService.album.findMany).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          where: {
+            removedAt: null,
+            albumType: AlbumType.Album,
+            reviewCount: { gt: 0 },
+          },
+        }),
+      );
+    });
+  });
+
+  describe('trending', () => {
+    it('should favour albums reviewed often and well within the window', async () => {
+      mockPrismaService.review.groupBy.mockResolvedValue([
+        { albumId: 1, _count: { _all: 1 }, _sum: { rating: 5 } },
+        { albumId: 2, _count: { _all: 14 }, _sum: { rating: 56 } },
+      ]);
+      mockPrismaService.album.findMany.mockResolvedValue(albumsById([1, 2]));
+
+      const result = await service.getAlbumChart({
+        type: AlbumChartType.Trending,
+        windowDays: 7,
+      });
+
+      expect(mockPrismaService.review.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            createdAt: { gte: new Date('2026-10-12T12:00:00Z') },
+            album: { removedAt: null },
+          },
+        }),
+      );
+      expect(result.items[0]).toEqual(
+        expect.objectContaining({
+          rank: 1,
+          reviewCount: 14,
+          reviewsPerDay: 2,
+          score: 2 * ((5 * 3 + 56) / 19),
+        }),
+      );
+      expect(result.items[1].album.id).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AlbumRatingsService } from '../albums/album-ratings.service';
+import { computeWeightedScore, RatingPrior } from '../albums/rating-statistics';
+import { GetAlbumChartDto } from './dto/get-album-chart.dto';
+import { AlbumChartType } from './enums/album-chart-type.enum';
+import { albumGenreWhere } from '../genres/genre-filters';
+import { releasePeriodWhere } from '../albums/release-date';
+import { toStars } from '../albums/rating-scale';
+import { toAlbumOutput } from '../albums/album-output';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Position calculée d'un album avant chargement de ses détails
+interface ChartEntry {
+  albumId: number;
+  score: number;
+  averageRating: number;
+  reviewCount: number;
+  reviewsPerDay?: number;
+}
+
+@Injectable()
+export class ChartsService {
+  constructor(
+    private prisma: PrismaService,
+    private albumRatingsService: AlbumRatingsService,
+  ) {}
+
+  // Classement d'albums selon le type demandé
+  // Les classements par note utilisent le score bayésien (voir rating-statistics)
+  // pour que les albums avec peu de critiques ne dominent pas
+  async getAlbumChart(query: GetAlbumChartDto) {
+    const type = query.type ?? AlbumChartType.TopRated;
+    const limit = query.limit ?? 20;
+    const albumWhere = this.buildAlbumFilter(query);
+    const now = new Date();
+
+    let from: Date | null = null;
+    let entries: ChartEntry[];
+
+    switch (type) {
+      case AlbumChartType.TopRatedMonth:
+        from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+        entries = await this.topRatedSince(from, albumWhere);
+        break;
+      case AlbumChartType.TopRatedYear:
+        from = new Date(Date.UTC(now.getUTCFullYear(), 0, 1));
+        entries = await this.topRatedSince(from, albumWhere);
+        break;
+      case AlbumChartType.MostReviewed:
+        entries = await this.mostReviewed(albumWhere, limit);
+        break;
+      case AlbumChartType.Trending: {
+        const windowDays = query.windowDays ?? 7;
+        from = new Date(now.getTime() - windowDays * DAY_MS);
+        entries = await this.trending(from, windowDays, albumWhere);
+        break;
+      }
+      default:
+        entries = await this.topRatedAllTime(query, limit);
+    }
+
+    const ranked = this.rank(entries).slice(0, limit);
+
+    const albums = await this.prisma.album.findMany({
+      where: { id: { in: ranked.map((entry) => entry.albumId) } },
+      include: { artist: true },
+    });
+    const albumsById = new Map<number, (typeof albums)[number]>(
+      albums.map((album) => [album.id, album]),
+    );
+
+    return {
+      type,
+      period: from ? { from, to: now } : null,
+      items: ranked
+        .flatMap(({ albumId, ...entry }) => {
+          const album = albumsById.get(albumId);
+          return album ? [{ ...entry, album }] : [];
+        })
+        .map(({ album, ...entry }, index) => ({
+          rank: index + 1,
+          ...entry,
+          // Moyenne affichée en étoiles (averageRating : échelle interne de 1 à 10)
+          averageStars: toStars(entry.averageRating),
+          album: toAlbumOutput(album),
+        })),
+    };
+  }
+
+  // Meilleures notes depuis toujours, à partir des agrégats de l'album
+  // Le score pondéré est calculé, trié et limité en SQL pour ne pas charger
+  // tous les albums notés ; les filtres reprennent ceux de buildAlbumFilter
+  private async topRatedAllTime(
+    {
+      releaseYear,
+      releaseDecade,
+      artistId,
+      genre,
+      albumType,
+    }: GetAlbumChartDto,
+    limit: number,
+  ): Promise<ChartEntry[]> {
+    const prior = await this.albumRatingsService.getPrior();
+    const period = releasePeriodWhere({
+      releaseYear,
+      releaseDecade,
+    }).releaseDate;
+
+    return this.prisma.$queryRaw`
+      SELECT
+        "id" AS "albumId",
+        ((${prior.weight}::float8 * ${prior.mean}::float8 + "ratingSum")
+          / (${prior.weight}::float8 + "reviewCount")) AS "score",
+        "averageRating",
+        "reviewCount"
+      FROM "public"."Album" AS album
+      WHERE "reviewCount" > 0
+        AND "removedAt" IS NULL
+        AND (${albumType ?? null}::text IS NULL OR "albumType"::text = ${albumType ?? null})
+        AND (${period?.gte ?? null}::timestamp IS NULL OR "releaseDate" >= ${period?.gte ?? null})
+        AND (${period?.lt ?? null}::timestamp IS NULL OR "releaseDate" < ${period?.lt ?? null})
+        AND (${artistId ?? null}::int IS NULL OR EXISTS (
+          SELECT 1 FROM "public"."AlbumArtist" AS credit
+          WHERE credit."albumId" = album."id" AND credit."artistId" = ${artistId ?? null}
+        ))
+        AND (${genre ?? null}::text IS NULL OR EXISTS (
+          SELECT 1
+          FROM "public"."AlbumArtist" AS credit
+          JOIN "public"."ArtistGenre" AS "artistGenre" ON "artistGenre"."artistId" = credit."artistId"
+          JOIN "public"."Genre" AS genre ON genre."id" = "artistGenre"."genreId"
+          WHERE credit."albumId" = album."id" AND genre."slug" = ${genre ?? null}
+        ))
+      ORDER BY "score" DESC, "reviewCount" DESC, "id" ASC
+      LIMIT ${limit}
+    `;
+  }
+
+  // Meilleures notes parmi les critiques écrites depuis une date
+  private async topRatedSince(
+    from: Date,
+    albumWhere: object,
+  ): Promise<ChartEntry[]> {
+    const [prior, groups] = await Promise.all([
+      this.albumRatingsService.getPrior(),
+      this.groupReviewsSince(from, albumWhere),
+    ]);
+
+    return groups.map((group) => this.toRatedEntry(group, prior));
+  }
+
+  // Albums les plus critiqués depuis toujours
+  private async mostReviewed(
+    albumWhere: object,
+    limit: number,
+  ): Promise<ChartEntry[]> {
+    const albums = await this.prisma.album.findMany({
+      where: { ...albumWhere, reviewCount: { gt: 0 } },
+      select: { id: true, averageRating: true, reviewCount: true },
+      // Même ordre que rank, pour que la limite garde les albums classés
+      orderBy: [
+        { reviewCount: 'desc' },
+        { averageRating: 'desc' },
+        { id: 'asc' },
+      ],
+      take: limit,
+    });
+
+    return albums.map((album) => ({
+      albumId: album.id,
+      score: album.reviewCount,
+      averageRating: album.averageRating,
+      reviewCount: album.reviewCount,
+    }));
+  }
+
+  // Tendances : vitesse de critique (critiques par jour sur la fenêtre)
+  // multipliée par le score pondéré des notes reçues sur la même fenêtre
+  private async trending(
+    from: Date,
+    windowDays: number,
+    albumWhere: object,
+  ): Promise<ChartEntry[]> {
+    const [prior, groups] = await Promise.all([
+      this.albumRatingsService.getPrior(),
+      this.groupReviewsSince(from, albumWhere),
+    ]);
+
+    return groups.map((group) => {
+      const entry = this.toRatedEntry(group, prior);
+      const reviewsPerDay = entry.reviewCount / windowDays;
+
+      return {
+        ...entry,
+        score: reviewsPerDay * entry.score,
+        reviewsPerDay,
+      };
+    });
+  }
+
+  private groupReviewsSince(from: Date, albumWhere: object) {
+    return this.prisma.review.groupBy({
+      by: ['albumId'],
+      where: {
+        createdAt: { gte: from },
+        album: albumWhere,
+      },
+      _count: { _all: true },
+      _sum: { rating: true },
+    });
+  }
+
+  private toRatedEntry(
+    group: {
+      albumId: number;
+      _count: { _all: number };
+      _sum: { rating: number | null };
+    },
+    prior: RatingPrior,
+  ): ChartEntry {
+    const reviewCount = group._count._all;
+    const ratingSum = group._sum.rating ?? 0;
+
+    return {
+      albumId: group.albumId,
+      score: computeWeightedScore(ratingSum, reviewCount, prior),
+      averageRating: reviewCount > 0 ? ratingSum / reviewCount : 0,
+      reviewCount,
+    };
+  }
+
+  // Tri par score, puis nombre de critiques, puis note moyenne, puis ID pour
+  // un ordre stable ; les requêtes SQL limitées trient dans le même ordre
+  private rank(entries: ChartEntry[]): ChartEntry[] {
+    return [...entries].sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.reviewCount - a.reviewCount ||
+        b.averageRating - a.averageRating ||
+        a.albumId - b.albumId,
+    );
+  }
+
+  private buildAlbumFilter({
+    releaseYear,
+    releaseDecade,
+    artistId,
+    genre,
+    albumType,
+  }: GetAlbumChartDto) {
+    return {
+      // Les albums retirés du catalogue ne sont plus classés
+      removedAt: null,
+      ...(albumType !== undefined && { albumType }),
+      ...releasePeriodWhere({ releaseYear, releaseDecade }),
+      ...(artistId !== undefined && { artists: { some: { artistId } } }),
+      // Les deux filtres portent sur les crédits : les combiner sans écraser
+      ...(genre !== undefined && {
+        AND: [albumGenreWhere(genre)],
+      }),
+    };
+  }
+}
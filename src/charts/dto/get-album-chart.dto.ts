@@ -0,0 +1,109 @@
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { AlbumChartType } from '../enums/album-chart-type.enum';
+import { AlbumType } from '../../albums/enums/album-type.enum';
+
+export class GetAlbumChartDto {
+  @ApiProperty({
+    description:
+      'Type de classement : meilleures notes (tout temps, ce mois-ci, cette année), plus critiqués ou tendances',
+    enum: AlbumChartType,
+    required: false,
+    default: AlbumChartType.TopRated,
+  })
+  @IsOptional()
+  @IsEnum(AlbumChartType)
+  type?: AlbumChartType = AlbumChartType.TopRated;
+
+  @ApiProperty({
+    description: "Filtrer sur l'année de sortie des albums",
+    example: 2001,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1900)
+  @Type(() => Number)
+  releaseYear?: number;
+
+  @ApiProperty({
+    description:
+      'Filtrer sur la décennie de sortie des albums (ex : 1970 pour les années 70)',
+    example: 1970,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1900)
+  @Type(() => Number)
+  releaseDecade?: number;
+
+  @ApiProperty({
+    description:
+      "Filtrer sur l'ID (interne) d'un artiste crédité sur l'album, quelle que soit sa position",
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  artistId?: number;
+
+  @ApiProperty({
+    description:
+      "Filtrer sur un genre (slug, voir GET /genres) hérité des artistes de l'album",
+    example: 'french-house',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  genre?: string;
+
+  @ApiProperty({
+    description:
+      'Filtrer sur le type de sortie (album, EP, single ou compilation)',
+    enum: AlbumType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AlbumType)
+  albumType?: AlbumType;
+
+  @ApiProperty({
+    description:
+      'Fenêtre glissante en jours pour le classement des tendances (type "trending")',
+    example: 7,
+    required: false,
+    default: 7,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  @Type(() => Number)
+  windowDays?: number = 7;
+
+  @ApiProperty({
+    description: "Nombre d'albums dans le classement",
+    example: 20,
+    required: false,
+    default: 20,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  limit?: number = 20;
+}
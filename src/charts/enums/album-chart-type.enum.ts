@@ -0,0 +1,8 @@
+// Classements d'albums disponibles
+export enum AlbumChartType {
+  TopRated = 'top-rated',
+  TopRatedMonth = 'top-rated-month',
+  TopRatedYear = 'top-rated-year',
+  MostReviewed = 'most-reviewed',
+  Trending = 'trending',
+}
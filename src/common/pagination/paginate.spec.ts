@@ -0,0 +1,207 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  CREATED_AT_DESC,
+  decodeCursor,
+  encodeCursor,
+  paginate,
+  SortKey,
+} from './paginate';
+
+describe('paginate', () => {
+  const delegate = {
+    findMany: jest.fn(),
+    count: jest.fn(),
+  };
+
+  const row = (id: number, createdAt = new Date('2026-10-19T09:00:00Z')) => ({
+    id,
+    createdAt,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delegate.findMany.mockResolvedValue([]);
+    delegate.count.mockResolvedValue(0);
+  });
+
+  describe('cursor mode', () => {
+    it('should fetch one extra row to detect the next page', async () => {
+      delegate.findMany.mockResolvedValue([row(3), row(2), row(1)]);
+
+      const page = await paginate(
+        delegate,
+        { where: { userId: 1 } },
+        { take: 2 },
+      );
+
+      expect(delegate.findMany).toHaveBeenCalledWith({
+        where: { userId: 1 },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 3,
+      });
+      expect(delegate.count).not.toHaveBeenCalled();
+      expect(page.items).toEqual([row(3), row(2)]);
+      expect(page.pageInfo).toEqual({
+        take: 2,
+        hasNextPage: true,
+        nextCursor: encodeCursor(row(2), CREATED_AT_DESC),
+      });
+    });
+
+    it('should return the rows after the cursor', async () => {
+      const createdAt = new Date('2026-10-19T09:00:00Z');
+
+      await paginate(
+        delegate,
+        { where: { userId: 1 } },
+        { cursor: encodeCursor(row(2, createdAt), CREATED_AT_DESC), take: 2 },
+      );
+
+      expect(delegate.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              { userId: 1 },
+              {
+                OR: [
+                  { AND: [{ createdAt: { lt: createdAt.toISOString() } }] },
+                  {
+                    AND: [
+                      { createdAt: createdAt.toISOString() },
+                      { id: { lt: 2 } },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        }),
+      );
+    });
+
+    it('should keep null values of a nullable key at the end', async () => {
+      const sortKeys: SortKey[] = [
+        { field: 'releaseDate', direction: 'desc', nullable: true },
+        { field: 'id', direction: 'desc' },
+      ];
+      const releaseDate = new Date('2001-03-12T00:00:00Z');
+
+      await paginate(
+        delegate,
+        {},
+        { cursor: encodeCursor({ id: 5, releaseDate }, sortKeys) },
+        sortKeys,
+      );
+
+      expect(delegate.findMany).toHaveBeenCalledWith({
+        where: {
+          AND: [
+            {},
+            {
+              OR: [
+                {
+                  AND: [
+                    {
+                      OR: [
+                        { releaseDate: { lt: releaseDate.toISOString() } },
+                        { releaseDate: null },
+                      ],
+                    },
+                  ],
+                },
+                {
+                  AND: [
+                    { releaseDate: releaseDate.toISOString() },
+                    { id: { lt: 5 } },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+        orderBy: [
+          { releaseDate: { sort: 'desc', nulls: 'last' } },
+          { id: 'desc' },
+        ],
+        take: 11,
+      });
+    });
+
+    it('should only move past the ID once a null value is reached', async () => {
+      const sortKeys: SortKey[] = [
+        { field: 'releaseDate', direction: 'desc', nullable: true },
+        { field: 'id', direction: 'desc' },
+      ];
+
+      await paginate(
+        delegate,
+        {},
+        { cursor: encodeCursor({ id: 5, releaseDate: null }, sortKeys) },
+        sortKeys,
+      );
+
+      expect(delegate.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              {},
+              { OR: [{ AND: [{ releaseDate: null }, { id: { lt: 5 } }] }] },
+            ],
+          },
+        }),
+      );
+    });
+  });
+
+  describe('offset mode', () => {
+    it('should paginate with skip and return the total', async () => {
+      delegate.findMany.mockResolvedValue([row(3), row(2)]);
+      delegate.count.mockResolvedValue(5);
+
+      const page = await paginate(
+        delegate,
+        { where: { userId: 1 } },
+        { skip: 0, take: 2 },
+      );
+
+      expect(delegate.findMany).toHaveBeenCalledWith({
+        where: { userId: 1 },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: 0,
+        take: 2,
+      });
+      expect(delegate.count).toHaveBeenCalledWith({ where: { userId: 1 } });
+      expect(page.pageInfo).toEqual({
+        take: 2,
+        hasNextPage: true,
+        nextCursor: encodeCursor(row(2), CREATED_AT_DESC),
+        skip: 0,
+        total: 5,
+      });
+    });
+
+    it('should reject a cursor combined with skip', async () => {
+      await expect(
+        paginate(delegate, {}, { cursor: 'abc', skip: 10 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('decodeCursor', () => {
+    it('should reject a malformed cursor', () => {
+      expect(() => decodeCursor('not-a-cursor', CREATED_AT_DESC)).toThrow(
+        new BadRequestException('Invalid pagination cursor'),
+      );
+    });
+
+    it('should reject a cursor built for another sort', () => {
+      const cursor = encodeCursor({ id: 1 }, [
+        { field: 'id', direction: 'asc' },
+      ]);
+
+      expect(() => decodeCursor(cursor, CREATED_AT_DESC)).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { BadRequestException } from '@nestjs/common';
+import { PaginationQueryDto } from './pagination-query.dto';
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+// Clé de tri d'une liste paginée. La combinaison des clés doit être unique
+// (terminer par l'ID) pour que l'ordre, et donc les curseurs, soient stables
+export interface SortKey {
+  field: string;
+  direction: 'asc' | 'desc';
+  // Colonne pouvant être nulle : les valeurs nulles sont placées en fin de liste
+  nullable?: boolean;
+}
+
+// Ordre par défaut : du plus récent au plus ancien
+export const CREATED_AT_DESC: SortKey[] = [
+  { field: 'createdAt', direction: 'desc' },
+  { field: 'id', direction: 'desc' },
+];
+
+// Ordre chronologique (fils de commentaires)
+export const CREATED_AT_ASC: SortKey[] = [
+  { field: 'createdAt', direction: 'asc' },
+  { field: 'id', direction: 'asc' },
+];
+
+export interface PageInfo {
+  take: number;
+  hasNextPage: boolean;
+  nextCursor: string | null;
+  // Renseignés uniquement en mode offset
+  skip?: number;
+  total?: number;
+}
+
+// Enveloppe commune de toutes les réponses de liste
+export interface Page<T> {
+  items: T[];
+  pageInfo: PageInfo;
+}
+
+// Sous-ensemble d'un modèle Prisma utilisé par la pagination
+interface PaginatableDelegate<T> {
+  findMany(args: object): Promise<T[]>;
+  count(args: object): Promise<number>;
+}
+
+export interface PaginateArgs {
+  where?: object;
+  include?: object;
+  // Doit contenir les champs des clés de tri (nécessaires au curseur)
+  select?: object;
+}
+
+type CursorValue = string | number | null;
+
+interface CursorPayload {
+  s: string;
+  v: CursorValue[];
+}
+
+// Paginer une requête Prisma
+// - mode curseur (par défaut) : filtre "après la dernière ligne reçue" sur les
+//   clés de tri, sans doublon ni trou si des lignes sont créées entre deux pages
+// - mode offset (skip) : conservé pour compatibilité, renvoie aussi le total
+export async function paginate<T extends Record<string, any>>(
+  delegate: PaginatableDelegate<T>,
+  args: PaginateArgs,
+  query: PaginationQueryDto = {},
+  sortKeys: SortKey[] = CREATED_AT_DESC,
+): Promise<Page<T>> {
+  const take = query.take ?? DEFAULT_PAGE_SIZE;
+  const orderBy = sortKeys.map(toOrderBy);
+
+  if (query.cursor !== undefined && query.skip !== undefined) {
+    throw new BadRequestException('Use either cursor or skip, not both');
+  }
+
+  if (query.skip !== undefined) {
+    const skip = query.skip;
+    const [items, total] = await Promise.all([
+      delegate.findMany({ ...args, orderBy, skip, take }),
+      delegate.count({ where: args.where }),
+    ]);
+    const hasNextPage = skip + take < total;
+
+    return {
+      items,
+      pageInfo: {
+        take,
+        hasNextPage,
+        nextCursor:
+          hasNextPage && items.length > 0
+            ? encodeCursor(items[items.length - 1], sortKeys)
+            : null,
+        skip,
+        total,
+      },
+    };
+  }
+
+  const where =
+    query.cursor !== undefined
+      ? {
+          AND: [
+            args.where ?? {},
+            keysetFilter(sortKeys, decodeCursor(query.cursor, sortKeys)),
+          ],
+        }
+      : args.where;
+
+  // Une ligne de plus pour savoir s'il reste une page
+  const rows = await delegate.findMany({
+    ...args,
+    where,
+    orderBy,
+    take: take + 1,
+  });
+  const hasNextPage = rows.length > take;
+  const items = hasNextPage ? rows.slice(0, take) : rows;
+
+  return {
+    items,
+    pageInfo: {
+      take,
+      hasNextPage,
+      nextCursor: hasNextPage
+        ? encodeCursor(items[items.length - 1], sortKeys)
+        : null,
+    },
+  };
+}
+
+// Curseur opaque : valeurs des clés de tri de la dernière ligne, accompagnées
+// de la signature du tri pour refuser un curseur issu d'un autre tri
+export function encodeCursor(
+  row: Record<string, unknown>,
+  sortKeys: SortKey[],
+): string {
+  const payload: CursorPayload = {
+    s: sortSignature(sortKeys),
+    v: sortKeys.map(({ field }) => toCursorValue(row[field])),
+  };
+
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+export function decodeCursor(
+  cursor: string,
+  sortKeys: SortKey[],
+): CursorValue[] {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    ) as CursorPayload;
+  } catch {
+    throw new BadRequestException('Invalid pagination cursor');
+  }
+
+  const isValid =
+    payload?.s === sortSignature(sortKeys) &&
+    Array.isArray(payload.v) &&
+    payload.v.length === sortKeys.length &&
+    payload.v.every(
+      (value, index) =>
+        typeof value === 'string' ||
+        typeof value === 'number' ||
+        (value === null && sortKeys[index].nullable),
+    );
+
+  if (!isValid) {
+    throw new BadRequestException('Invalid pagination cursor');
+  }
+
+  return payload.v;
+}
+
+// Lignes situées strictement après le curseur dans l'ordre de tri :
+// (k1 après v1) OU (k1 = v1 ET k2 après v2) OU ...
+function keysetFilter(sortKeys: SortKey[], values: CursorValue[]) {
+  const branches: object[] = [];
+
+  sortKeys.forEach((key, index) => {
+    const after = afterValue(key, values[index]);
+    if (!after) {
+      return;
+    }
+
+    const equalities = sortKeys
+      .slice(0, index)
+      .map((previous, previousIndex) => ({
+        [previous.field]: values[previousIndex],
+      }));
+
+    branches.push({ AND: [...equalities, after] });
+  });
+
+  return { OR: branches };
+}
+
+function afterValue(key: SortKey, value: CursorValue): object | null {
+  // Les valeurs nulles sont en fin de liste : rien ne vient après elles
+  if (value === null) {
+    return null;
+  }
+
+  const comparison = {
+    [key.field]: { [key.direction === 'desc' ? 'lt' : 'gt']: value },
+  };
+
+  return key.nullable
+    ? { OR: [comparison, { [key.field]: null }] }
+    : comparison;
+}
+
+function toOrderBy({ field, direction, nullable }: SortKey) {
+  return nullable
+    ? { [field]: { sort: direction, nulls: 'last' } }
+    : { [field]: direction };
+}
+
+function sortSignature(sortKeys: SortKey[]): string {
+  return sortKeys.map((key) => `${key.field}:${key.direction}`).join(',');
+}
+
+// Les dates sont transmises au format ISO, accepté tel quel par Prisma
+function toCursorValue(value: unknown): CursorValue {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  return (value ?? null) as CursorValue;
+}
@@ -0,0 +1,51 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+
+// Paramètres de pagination communs à toutes les routes de liste
+// Les DTO de liste avec filtres ou tri héritent de cette classe
+export class PaginationQueryDto {
+  @ApiProperty({
+    description:
+      'Curseur opaque de la page suivante (pageInfo.nextCursor de la page précédente)',
+    example:
+      'eyJzIjoiY3JlYXRlZEF0OmRlc2MsaWQ6ZGVzYyIsInYiOlsiMjAyNi0xMC0xOVQwOTowMDowMC4wMDBaIiw0Ml19',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  cursor?: string;
+
+  @ApiProperty({
+    description:
+      "Nombre d'éléments à sauter (pagination par offset, conservée pour compatibilité ; incompatible avec cursor)",
+    example: 0,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Type(() => Number)
+  skip?: number;
+
+  @ApiProperty({
+    description: "Nombre d'éléments à récupérer",
+    example: 10,
+    required: false,
+    default: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @Type(() => Number)
+  take?: number = 10;
+}
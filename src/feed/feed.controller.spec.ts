@@ -0,0 +1,67 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext } from '@nestjs/common';
+import { FeedController } from './feed.controller';
+import { FeedService } from './feed.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+describe('FeedController', () => {
+  let controller: FeedController;
+  let feedService: FeedService;
+
+  const mockUser = {
+    id: 1,
+    username: 'testuser',
+  };
+
+  const mockFeed = {
+    items: [],
+    pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+  };
+
+  const mockFeedService = {
+    getFeed: jest.fn().mockResolvedValue(mockFeed),
+  };
+
+  // Mock JWT Guard
+  const mockJwtAuthGuard = {
+    canActivate: jest.fn().mockImplementation((context: ExecutionContext) => {
+      const request = context.switchToHttp().getRequest();
+      request.user = mockUser;
+      return true;
+    }),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [FeedController],
+      providers: [
+        {
+          provide: FeedService,
+          useValue: mockFeedService,
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(mockJwtAuthGuard)
+      .compile();
+
+    controller = module.get<FeedController>(FeedController);
+    feedService = module.get<FeedService>(FeedService);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('getFeed', () => {
+    it('should return the feed of the current user', async () => {
+      const query = { cursor: 'abc', take: 20 };
+      const result = await controller.getFeed(query, mockUser);
+
+      expect(result).toEqual(mockFeed);
+      expect(feedService.getFeed).toHaveBeenCalledWith(1, query);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { FeedService } from './feed.service';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('feed')
+@ApiBearerAuth()
+@Controller('feed')
+export class FeedController {
+  constructor(private readonly feedService: FeedService) {}
+
+  @ApiOperation({
+    summary: "Fil d'activité : critiques des utilisateurs suivis",
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Critiques triées de la plus récente à la plus ancienne, avec le curseur de la page suivante',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Non autorisé',
+  })
+  @UseGuards(JwtAuthGuard)
+  @Get()
+  getFeed(@Query() query: PaginationQueryDto, @CurrentUser() user) {
+    return this.feedService.getFeed(user.id, query);
+  }
+}
@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FeedService } from './feed.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CREATED_AT_DESC, encodeCursor } from '../common/pagination/paginate';
+
+describe('FeedService', () => {
+  let service: FeedService;
+
+  const mockPrismaService = {
+    review: {
+      findMany: jest.fn(),
+    },
+  };
+
+  const reviewWithId = (id: number) => ({
+    id,
+    userId: 2,
+    albumId: 1,
+    rating: 4,
+    createdAt: new Date('2026-10-19T09:00:00Z'),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FeedService,
+        {
+          provide: PrismaService,
+          useValue: mockPrismaService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<FeedService>(FeedService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getFeed', () => {
+    it('should return reviews from followed users with the next cursor', async () => {
+      mockPrismaService.review.findMany.mockResolvedValue([
+        reviewWithId(9),
+        reviewWithId(8),
+        reviewWithId(7),
+      ]);
+
+      const result = await service.getFeed(1, { take: 2 });
+
+      expect(mockPrismaService.review.findMany).toHaveBeenCalledWith({
+        where: {
+          user: {
+            followers: { some: { followerId: 1 } },
+          },
+        },
+        take: 3,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+            },
+          },
+          album: {
+            include: {
+              artist: true,
+            },
+          },
+        },
+      });
+      expect(result.items.map((review) => review.id)).toEqual([9, 8]);
+      expect(result.pageInfo).toEqual({
+        take: 2,
+        hasNextPage: true,
+        nextCursor: encodeCursor(reviewWithId(8), CREATED_AT_DESC),
+      });
+    });
+
+    it('should start after the given cursor', async () => {
+      const last = reviewWithId(8);
+      mockPrismaService.review.findMany.mockResolvedValue([reviewWithId(7)]);
+
+      const result = await service.getFeed(1, {
+        cursor: encodeCursor(last, CREATED_AT_DESC),
+        take: 2,
+      });
+
+      expect(mockPrismaService.review.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              { user: { followers: { some: { followerId: 1 } } } },
+              {
+                OR: [
+                  {
+                    AND: [{ createdAt: { lt: last.createdAt.toISOString() } }],
+                  },
+                  {
+                    AND: [
+                      { createdAt: last.createdAt.toISOString() },
+                      { id: { lt: 8 } },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+          take: 3,
+        }),
+      );
+      expect(result.pageInfo).toEqual({
+        take: 2,
+        hasNextPage: false,
+        nextCursor: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { paginate } from '../common/pagination/paginate';
+import { ReviewRow, toReviewOutput } from '../reviews/review-output';
+
+@Injectable()
+export class FeedService {
+  constructor(private prisma: PrismaService) {}
+
+  // Critiques des utilisateurs suivis, des plus récentes aux plus anciennes
+  // La pagination par curseur reste stable même si de nouvelles critiques
+  // sont publiées entre deux pages
+  async getFeed(userId: number, query: PaginationQueryDto = {}) {
+    const page = await paginate<ReviewRow>(
+      this.prisma.review,
+      {
+        where: {
+          user: {
+            followers: { some: { followerId: userId } },
+          },
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+            },
+          },
+          album: {
+            include: {
+              artist: true,
+            },
+          },
+        },
+      },
+      query,
+    );
+
+    return {
+      ...page,
+      items: page.items.map((review) => toReviewOutput(review)),
+    };
+  }
+}
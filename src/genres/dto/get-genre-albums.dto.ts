@@ -0,0 +1,28 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { PaginationQueryDto } from '../../common/pagination/pagination-query.dto';
+import { AlbumSortBy } from '../../albums/enums/album-sort-by.enum';
+import { AlbumType } from '../../albums/enums/album-type.enum';
+
+export class GetGenreAlbumsDto extends PaginationQueryDto {
+  @ApiProperty({
+    description:
+      'Critère de tri décroissant (note moyenne par défaut, nombre de critiques ou date de sortie)',
+    enum: AlbumSortBy,
+    required: false,
+    default: AlbumSortBy.AverageRating,
+  })
+  @IsOptional()
+  @IsEnum(AlbumSortBy)
+  sortBy?: AlbumSortBy = AlbumSortBy.AverageRating;
+
+  @ApiProperty({
+    description:
+      'Filtrer sur le type de sortie (album, EP, single ou compilation)',
+    enum: AlbumType,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(AlbumType)
+  albumType?: AlbumType;
+}
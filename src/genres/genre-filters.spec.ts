@@ -0,0 +1,25 @@
+import { albumGenreWhere, toGenreSlug } from './genre-filters';
+
+describe('genre filters', () => {
+  describe('toGenreSlug', () => {
+    it('should build URL-safe slugs from genre names', () => {
+      expect(toGenreSlug('Hip Hop')).toBe('hip-hop');
+      expect(toGenreSlug('R&B')).toBe('r-b');
+      expect(toGenreSlug('  Musique québécoise ')).toBe('musique-quebecoise');
+    });
+  });
+
+  describe('albumGenreWhere', () => {
+    it('should match albums through any credited artist', () => {
+      expect(albumGenreWhere('french-house')).toEqual({
+        artists: {
+          some: {
+            artist: {
+              genres: { some: { genre: { slug: 'french-house' } } },
+            },
+          },
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,26 @@
+// Fonctions partagées par les modules qui importent ou filtrent des genres
+// (artistes, albums, classements)
+
+// "Hip Hop" -> "hip-hop", "Musique québécoise" -> "musique-quebecoise"
+export function toGenreSlug(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// Filtre Prisma des albums d'un genre : un album hérite des genres de tous
+// ses artistes crédités
+export function albumGenreWhere(slug: string) {
+  return {
+    artists: {
+      some: {
+        artist: {
+          genres: { some: { genre: { slug } } },
+        },
+      },
+    },
+  };
+}
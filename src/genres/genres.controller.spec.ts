@@ -0,0 +1,68 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext } from '@nestjs/common';
+import { GenresController } from './genres.controller';
+import { GenresService } from './genres.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { AlbumSortBy } from '../albums/enums/album-sort-by.enum';
+
+describe('GenresController', () => {
+  let controller: GenresController;
+
+  const mockGenresPage = {
+    items: [{ id: 1, name: 'french house', slug: 'french-house' }],
+    pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+  };
+
+  const mockGenresService = {
+    findAll: jest.fn().mockResolvedValue(mockGenresPage),
+    findAlbums: jest.fn().mockResolvedValue({
+      genre: { id: 1, name: 'french house', slug: 'french-house' },
+      items: [],
+      pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+    }),
+  };
+
+  const mockJwtAuthGuard = {
+    canActivate: jest.fn().mockImplementation((context: ExecutionContext) => {
+      const request = context.switchToHttp().getRequest();
+      request.user = { id: 1, username: 'testuser' };
+      return true;
+    }),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [GenresController],
+      providers: [{ provide: GenresService, useValue: mockGenresService }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(mockJwtAuthGuard)
+      .compile();
+
+    controller = module.get<GenresController>(GenresController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list genres', async () => {
+    const result = await controller.findAll({ take: 10 });
+
+    expect(result).toEqual(mockGenresPage);
+    expect(mockGenresService.findAll).toHaveBeenCalledWith({ take: 10 });
+  });
+
+  it('should list the albums of a genre', async () => {
+    const query = { sortBy: AlbumSortBy.ReviewCount };
+
+    await controller.findAlbums('french-house', query);
+
+    expect(mockGenresService.findAlbums).toHaveBeenCalledWith(
+      'french-house',
+      query,
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { GenresService } from './genres.service';
+import { GetGenreAlbumsDto } from './dto/get-genre-albums.dto';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('genres')
+@ApiBearerAuth()
+@Controller('genres')
+export class GenresController {
+  constructor(private readonly genresService: GenresService) {}
+
+  @ApiOperation({ summary: 'Lister les genres' })
+  @ApiResponse({
+    status: 200,
+    description:
+      "Liste paginée des genres par ordre alphabétique, avec leur nombre d'artistes",
+  })
+  @UseGuards(JwtAuthGuard)
+  @Get()
+  findAll(@Query() query: PaginationQueryDto) {
+    return this.genresService.findAll(query);
+  }
+
+  @ApiOperation({
+    summary: "Lister les albums d'un genre",
+    description:
+      'Un album appartient aux genres de tous ses artistes crédités. Tri par note moyenne par défaut',
+  })
+  @ApiParam({ name: 'slug', description: 'Slug du genre', type: 'string' })
+  @ApiResponse({
+    status: 200,
+    description: 'Le genre et la liste paginée de ses albums',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Genre non trouvé',
+  })
+  @UseGuards(JwtAuthGuard)
+  @Get(':slug/albums')
+  findAlbums(@Param('slug') slug: string, @Query() query: GetGenreAlbumsDto) {
+    return this.genresService.findAlbums(slug, query);
+  }
+}
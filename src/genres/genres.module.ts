@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { GenresController } from './genres.controller';
+import { GenresService } from './genres.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AlbumsModule } from '../albums/albums.module';
+
+@Module({
+  imports: [PrismaModule, AlbumsModule],
+  controllers: [GenresController],
+  providers: [GenresService],
+})
+export class GenresModule {}
@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { GenresService } from './genres.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AlbumsService } from '../albums/albums.service';
+import { AlbumSortBy } from '../albums/enums/album-sort-by.enum';
+
+describe('GenresService', () => {
+  let service: GenresService;
+
+  const genre = { id: 1, name: 'french house', slug: 'french-house' };
+
+  const mockPrismaService = {
+    genre: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+  };
+
+  const mockAlbumsService = {
+    findAll: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GenresService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AlbumsService, useValue: mockAlbumsService },
+      ],
+    }).compile();
+
+    service = module.get<GenresService>(GenresService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('findAll', () => {
+    it('should list genres alphabetically with their artist count', async () => {
+      mockPrismaService.genre.findMany.mockResolvedValue([genre]);
+
+      const result = await service.findAll({ take: 10 });
+
+      expect(mockPrismaService.genre.findMany).toHaveBeenCalledWith({
+        include: {
+          _count: {
+            select: { artists: true },
+          },
+        },
+        orderBy: [{ name: 'asc' }, { id: 'asc' }],
+        take: 11,
+      });
+      expect(result.items).toEqual([genre]);
+      expect(result.pageInfo.hasNextPage).toBe(false);
+    });
+  });
+
+  describe('findAlbums', () => {
+    it('should list the albums of the genre', async () => {
+      const page = {
+        items: [{ id: 1, title: 'Discovery' }],
+        pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+      };
+      mockPrismaService.genre.findUnique.mockResolvedValue(genre);
+      mockAlbumsService.findAll.mockResolvedValue(page);
+
+      const result = await service.findAlbums('french-house', {
+        sortBy: AlbumSortBy.AverageRating,
+        take: 10,
+      });
+
+      expect(mockPrismaService.genre.findUnique).toHaveBeenCalledWith({
+        where: { slug: 'french-house' },
+      });
+      expect(mockAlbumsService.findAll).toHaveBeenCalledWith({
+        sortBy: AlbumSortBy.AverageRating,
+        take: 10,
+        genre: 'french-house',
+      });
+      expect(result).toEqual({ genre, ...page });
+    });
+
+    it('should throw NotFoundException if the genre does not exist', async () => {
+      mockPrismaService.genre.findUnique.mockResolvedValue(null);
+
+      await expect(service.findAlbums('unknown')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockAlbumsService.findAll).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { AlbumsService } from '../albums/albums.service';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { paginate } from '../common/pagination/paginate';
+import { GetGenreAlbumsDto } from './dto/get-genre-albums.dto';
+
+@Injectable()
+export class GenresService {
+  constructor(
+    private prisma: PrismaService,
+    private albumsService: AlbumsService,
+  ) {}
+
+  // Lister les genres par ordre alphabétique, avec leur nombre d'artistes
+  async findAll(query: PaginationQueryDto = {}) {
+    return paginate(
+      this.prisma.genre,
+      {
+        include: {
+          _count: {
+            select: { artists: true },
+          },
+        },
+      },
+      query,
+      [
+        { field: 'name', direction: 'asc' },
+        { field: 'id', direction: 'asc' },
+      ],
+    );
+  }
+
+  // Albums d'un genre (hérité de leurs artistes), les mieux notés d'abord
+  async findAlbums(slug: string, query: GetGenreAlbumsDto = {}) {
+    const genre = await this.prisma.genre.findUnique({
+      where: { slug },
+    });
+
+    if (!genre) {
+      throw new NotFoundException(`Genre ${slug} not found`);
+    }
+
+    const albums = await this.albumsService.findAll({ ...query, genre: slug });
+
+    return { genre, ...albums };
+  }
+}
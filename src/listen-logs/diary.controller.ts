@@ -0,0 +1,34 @@
+import { Controller, Get, Param, Query, ParseIntPipe } from '@nestjs/common';
+import { ListenLogsService } from './listen-logs.service';
+import { GetDiaryDto } from './dto/get-diary.dto';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+
+@ApiTags('listen-logs')
+@Controller('users/:userId/diary')
+export class DiaryController {
+  constructor(private readonly listenLogsService: ListenLogsService) {}
+
+  @ApiOperation({
+    summary: "Journal d'écoute d'un utilisateur",
+    description:
+      "Récupère les écoutes datées d'un utilisateur regroupées par mois, de la plus récente à la plus ancienne. La pagination porte sur les écoutes : un mois peut se poursuivre sur la page suivante",
+  })
+  @ApiParam({
+    name: 'userId',
+    description: "ID de l'utilisateur",
+    type: 'number',
+  })
+  @ApiResponse({ status: 200, description: 'Écoutes regroupées par mois' })
+  @ApiResponse({
+    status: 400,
+    description: 'Paramètres de pagination ou de filtre invalides',
+  })
+  @ApiResponse({ status: 404, description: 'Utilisateur non trouvé' })
+  @Get()
+  findDiary(
+    @Param('userId', ParseIntPipe) userId: number,
+    @Query() query: GetDiaryDto,
+  ) {
+    return this.listenLogsService.findDiary(userId, query);
+  }
+}
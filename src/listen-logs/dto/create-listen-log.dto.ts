@@ -0,0 +1,73 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsRating,
+  MAX_RATING,
+  MIN_RATING,
+  RATING_DESCRIPTION,
+} from '../../albums/rating-scale';
+
+export class CreateListenLogDto {
+  @ApiProperty({
+    description: "ID de l'album écouté",
+    example: 1,
+    type: Number,
+  })
+  @IsNotEmpty()
+  @IsInt()
+  albumId: number;
+
+  @ApiProperty({
+    description: "Jour de l'écoute (aujourd'hui par défaut)",
+    example: '2026-10-18',
+    required: false,
+    type: String,
+    format: 'date',
+  })
+  @IsOptional()
+  @IsDateString()
+  listenedOn?: string;
+
+  @ApiProperty({
+    description: `${RATING_DESCRIPTION} attribuée lors de cette écoute`,
+    example: 8,
+    minimum: MIN_RATING,
+    maximum: MAX_RATING,
+    required: false,
+    type: Number,
+  })
+  @IsOptional()
+  @IsRating()
+  rating?: number;
+
+  @ApiProperty({
+    description: "Remarque sur l'écoute",
+    example: 'Réécouté au casque, la production est encore meilleure.',
+    maxLength: 2000,
+    required: false,
+    type: String,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+
+  @ApiProperty({
+    description:
+      "Créer ou mettre à jour la critique de l'album à partir de la dernière écoute notée",
+    example: true,
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  syncReview?: boolean;
+}
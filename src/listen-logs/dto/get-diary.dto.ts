@@ -0,0 +1,18 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { PaginationQueryDto } from '../../common/pagination/pagination-query.dto';
+
+export class GetDiaryDto extends PaginationQueryDto {
+  @ApiProperty({
+    description: 'Limiter le journal aux écoutes de cette année',
+    example: 2026,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1900)
+  @Max(9999)
+  @Type(() => Number)
+  year?: number;
+}
@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateListenLogDto } from './create-listen-log.dto';
+
+// Une écoute ne peut pas être déplacée vers un autre album
+export class UpdateListenLogDto extends PartialType(
+  OmitType(CreateListenLogDto, ['albumId'] as const),
+) {}
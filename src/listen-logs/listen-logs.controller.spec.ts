@@ -0,0 +1,82 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext } from '@nestjs/common';
+import { ListenLogsController } from './listen-logs.controller';
+import { DiaryController } from './diary.controller';
+import { ListenLogsService } from './listen-logs.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { Role } from '../auth/enums/role.enum';
+
+describe('ListenLogsController', () => {
+  let controller: ListenLogsController;
+  let diaryController: DiaryController;
+
+  const mockListenLogsService = {
+    create: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+    findDiary: jest.fn(),
+  };
+
+  const mockJwtAuthGuard = {
+    canActivate: jest.fn().mockImplementation((context: ExecutionContext) => {
+      const req = context.switchToHttp().getRequest();
+      req.user = { id: 2, username: 'fan', role: Role.User };
+      return true;
+    }),
+  };
+
+  const user = { id: 2, username: 'fan', role: Role.User };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ListenLogsController, DiaryController],
+      providers: [
+        { provide: ListenLogsService, useValue: mockListenLogsService },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(mockJwtAuthGuard)
+      .compile();
+
+    controller = module.get<ListenLogsController>(ListenLogsController);
+    diaryController = module.get<DiaryController>(DiaryController);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+    expect(diaryController).toBeDefined();
+  });
+
+  it('should log a listen as the current user', async () => {
+    const dto = { albumId: 1, rating: 4, syncReview: true };
+
+    await controller.create(user, dto);
+
+    expect(mockListenLogsService.create).toHaveBeenCalledWith(2, dto);
+  });
+
+  it('should update a listen as the current user', async () => {
+    const dto = { note: 'Modifié' };
+
+    await controller.update(10, user, dto);
+
+    expect(mockListenLogsService.update).toHaveBeenCalledWith(10, 2, dto);
+  });
+
+  it('should delete a listen as the current user', async () => {
+    await controller.remove(10, user);
+
+    expect(mockListenLogsService.remove).toHaveBeenCalledWith(10, 2);
+  });
+
+  it("should return a user's diary with the query", async () => {
+    await diaryController.findDiary(1, { take: 20, year: 2026 });
+
+    expect(mockListenLogsService.findDiary).toHaveBeenCalledWith(1, {
+      take: 20,
+      year: 2026,
+    });
+  });
+});
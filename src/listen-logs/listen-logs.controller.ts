@@ -0,0 +1,100 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ListenLogsService } from './listen-logs.service';
+import { CreateListenLogDto } from './dto/create-listen-log.dto';
+import { UpdateListenLogDto } from './dto/update-listen-log.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+
+@ApiTags('listen-logs')
+@Controller('listen-logs')
+export class ListenLogsController {
+  constructor(private readonly listenLogsService: ListenLogsService) {}
+
+  @ApiOperation({
+    summary: 'Consigner une écoute',
+    description:
+      "Ajoute une écoute datée au journal de l'utilisateur connecté, éventuellement notée. Un album peut être écouté plusieurs fois ; avec syncReview, la critique de l'album est créée ou mise à jour à partir de la dernière écoute notée",
+  })
+  @ApiBody({
+    type: CreateListenLogDto,
+    description: "Données de l'écoute",
+  })
+  @ApiResponse({ status: 201, description: 'Écoute consignée avec succès' })
+  @ApiResponse({
+    status: 400,
+    description: "Données invalides ou date d'écoute dans le futur",
+  })
+  @ApiResponse({ status: 401, description: 'Non autorisé' })
+  @ApiResponse({ status: 404, description: 'Album non trouvé' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Post()
+  create(@CurrentUser() user, @Body() createListenLogDto: CreateListenLogDto) {
+    return this.listenLogsService.create(user.id, createListenLogDto);
+  }
+
+  @ApiOperation({
+    summary: 'Modifier une écoute',
+    description:
+      'Permet à un utilisateur de modifier une écoute de son journal',
+  })
+  @ApiParam({ name: 'id', description: "ID de l'écoute", type: 'number' })
+  @ApiBody({
+    type: UpdateListenLogDto,
+    description: "Champs de l'écoute à modifier",
+  })
+  @ApiResponse({ status: 200, description: 'Écoute modifiée avec succès' })
+  @ApiResponse({ status: 401, description: 'Non autorisé' })
+  @ApiResponse({
+    status: 403,
+    description: 'Interdit - Vous ne pouvez modifier que vos propres écoutes',
+  })
+  @ApiResponse({ status: 404, description: 'Écoute non trouvée' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Patch(':id')
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user,
+    @Body() updateListenLogDto: UpdateListenLogDto,
+  ) {
+    return this.listenLogsService.update(id, user.id, updateListenLogDto);
+  }
+
+  @ApiOperation({
+    summary: 'Supprimer une écoute',
+    description:
+      "Retire une écoute du journal ; la critique de l'album n'est pas modifiée",
+  })
+  @ApiParam({ name: 'id', description: "ID de l'écoute", type: 'number' })
+  @ApiResponse({ status: 200, description: 'Écoute supprimée avec succès' })
+  @ApiResponse({ status: 401, description: 'Non autorisé' })
+  @ApiResponse({
+    status: 403,
+    description: 'Interdit - Vous ne pouvez supprimer que vos propres écoutes',
+  })
+  @ApiResponse({ status: 404, description: 'Écoute non trouvée' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Delete(':id')
+  remove(@Param('id', ParseIntPipe) id: number, @CurrentUser() user) {
+    return this.listenLogsService.remove(id, user.id);
+  }
+}
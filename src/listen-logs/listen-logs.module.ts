@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ListenLogsController } from './listen-logs.controller';
+import { DiaryController } from './diary.controller';
+import { ListenLogsService } from './listen-logs.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ReviewsModule } from '../reviews/reviews.module';
+
+@Module({
+  imports: [PrismaModule, ReviewsModule],
+  controllers: [ListenLogsController, DiaryController],
+  providers: [ListenLogsService],
+})
+export class ListenLogsModule {}
@@ -0,0 +1,284 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ListenLogsService } from './listen-logs.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ReviewsService } from '../reviews/reviews.service';
+
+describe('ListenLogsService', () => {
+  let service: ListenLogsService;
+
+  const mockPrismaService = {
+    album: {
+      findUnique: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    review: {
+      findUnique: jest.fn(),
+    },
+    listenLog: {
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+
+  const mockReviewsService = {
+    create: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockListenLog = {
+    id: 10,
+    userId: 1,
+    albumId: 1,
+    listenedOn: new Date('2026-10-18T00:00:00Z'),
+    rating: 4,
+    note: 'Toujours aussi bon',
+  };
+
+  // Note de 4 sur 10 : 2 étoiles
+  const listenLogOutput = { ...mockListenLog, stars: 2 };
+
+  const albumInclude = { album: { include: { artist: true } } };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ListenLogsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ReviewsService, useValue: mockReviewsService },
+      ],
+    }).compile();
+
+    service = module.get<ListenLogsService>(ListenLogsService);
+
+    jest.clearAllMocks();
+
+    mockPrismaService.album.findUnique.mockResolvedValue({ id: 1 });
+    mockPrismaService.user.findUnique.mockResolvedValue({ id: 1 });
+    mockPrismaService.listenLog.findUnique.mockResolvedValue(mockListenLog);
+    mockPrismaService.listenLog.create.mockResolvedValue(mockListenLog);
+    mockPrismaService.listenLog.update.mockResolvedValue(mockListenLog);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should log a dated listen without touching the review', async () => {
+      const result = await service.create(1, {
+        albumId: 1,
+        listenedOn: '2026-10-18',
+        rating: 4,
+        note: 'Toujours aussi bon',
+      });
+
+      expect(result).toEqual(listenLogOutput);
+      expect(mockPrismaService.listenLog.create).toHaveBeenCalledWith({
+        data: {
+          userId: 1,
+          albumId: 1,
+          listenedOn: new Date('2026-10-18T00:00:00Z'),
+          rating: 4,
+          note: 'Toujours aussi bon',
+        },
+        include: albumInclude,
+      });
+      expect(mockReviewsService.create).not.toHaveBeenCalled();
+      expect(mockReviewsService.update).not.toHaveBeenCalled();
+    });
+
+    it('should default to today', async () => {
+      jest.useFakeTimers({ now: new Date('2026-10-19T21:30:00Z') });
+
+      try {
+        await service.create(1, { albumId: 1 });
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(mockPrismaService.listenLog.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { userId: 1, albumId: 1, listenedOn: new Date('2026-10-19') },
+        }),
+      );
+    });
+
+    it('should reject listens in the future', async () => {
+      await expect(
+        service.create(1, { albumId: 1, listenedOn: '2999-01-01' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.listenLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown album', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue(null);
+
+      await expect(service.create(1, { albumId: 99 })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should reject listens of an album removed from the catalog', async () => {
+      mockPrismaService.album.findUnique.mockResolvedValue({
+        id: 1,
+        removedAt: new Date('2024-01-01'),
+      });
+
+      await expect(service.create(1, { albumId: 1 })).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.listenLog.create).not.toHaveBeenCalled();
+    });
+
+    it('should create the review from the latest rated listen', async () => {
+      const review = { id: 5, rating: 4 };
+      mockPrismaService.listenLog.findFirst.mockResolvedValue(mockListenLog);
+      mockPrismaService.review.findUnique.mockResolvedValue(null);
+      mockReviewsService.create.mockResolvedValue(review);
+
+      const result = await service.create(1, {
+        albumId: 1,
+        rating: 4,
+        syncReview: true,
+      });
+
+      expect(mockPrismaService.listenLog.findFirst).toHaveBeenCalledWith({
+        where: { userId: 1, albumId: 1, rating: { not: null } },
+        orderBy: [{ listenedOn: 'desc' }, { id: 'desc' }],
+      });
+      expect(mockReviewsService.create).toHaveBeenCalledWith(1, {
+        albumId: 1,
+        rating: 4,
+        comment: 'Toujours aussi bon',
+      });
+      expect(result).toEqual({ ...listenLogOutput, review });
+    });
+
+    it('should update the existing review without erasing its comment', async () => {
+      mockPrismaService.listenLog.findFirst.mockResolvedValue({
+        ...mockListenLog,
+        rating: 5,
+        note: null,
+      });
+      mockPrismaService.review.findUnique.mockResolvedValue({
+        id: 5,
+        userId: 1,
+      });
+
+      await service.create(1, { albumId: 1, rating: 5, syncReview: true });
+
+      expect(mockReviewsService.update).toHaveBeenCalledWith(5, 1, {
+        rating: 5,
+      });
+      expect(mockReviewsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not derive a review without any rated listen', async () => {
+      mockPrismaService.listenLog.findFirst.mockResolvedValue(null);
+
+      const result = await service.create(1, { albumId: 1, syncReview: true });
+
+      expect(result).toEqual({ ...listenLogOutput, review: null });
+      expect(mockReviewsService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should update an own listen', async () => {
+      await service.update(10, 1, { listenedOn: '2026-10-01', rating: 3 });
+
+      expect(mockPrismaService.listenLog.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: { rating: 3, listenedOn: new Date('2026-10-01T00:00:00Z') },
+        include: albumInclude,
+      });
+    });
+
+    it("should forbid updating someone else's listen", async () => {
+      await expect(service.update(10, 2, { rating: 3 })).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should throw NotFoundException for an unknown listen', async () => {
+      mockPrismaService.listenLog.findUnique.mockResolvedValue(null);
+
+      await expect(service.update(99, 1, { rating: 3 })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete an own listen', async () => {
+      await service.remove(10, 1);
+
+      expect(mockPrismaService.listenLog.delete).toHaveBeenCalledWith({
+        where: { id: 10 },
+      });
+      expect(mockReviewsService.update).not.toHaveBeenCalled();
+    });
+
+    it("should forbid deleting someone else's listen", async () => {
+      await expect(service.remove(10, 2)).rejects.toThrow(ForbiddenException);
+      expect(mockPrismaService.listenLog.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findDiary', () => {
+    it('should group listens by month', async () => {
+      const october = [
+        mockListenLog,
+        { ...mockListenLog, id: 9, listenedOn: new Date('2026-10-02') },
+      ];
+      const september = { ...mockListenLog, id: 8, albumId: 2 };
+      september.listenedOn = new Date('2026-09-30');
+      mockPrismaService.listenLog.findMany.mockResolvedValue([
+        ...october,
+        september,
+      ]);
+
+      const result = await service.findDiary(1, { take: 10, year: 2026 });
+
+      expect(mockPrismaService.listenLog.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 1,
+          listenedOn: {
+            gte: new Date('2026-01-01T00:00:00Z'),
+            lt: new Date('2027-01-01T00:00:00Z'),
+          },
+        },
+        include: albumInclude,
+        orderBy: [{ listenedOn: 'desc' }, { id: 'desc' }],
+        take: 11,
+      });
+      expect(result).toEqual({
+        items: [
+          {
+            month: '2026-10',
+            entries: october.map((entry) => ({ ...entry, stars: 2 })),
+          },
+          { month: '2026-09', entries: [{ ...september, stars: 2 }] },
+        ],
+        pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+      });
+    });
+
+    it('should throw NotFoundException for an unknown user', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.findDiary(99)).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { ReviewsService } from '../reviews/reviews.service';
+import { paginate, SortKey } from '../common/pagination/paginate';
+import { CreateListenLogDto } from './dto/create-listen-log.dto';
+import { UpdateListenLogDto } from './dto/update-listen-log.dto';
+import { GetDiaryDto } from './dto/get-diary.dto';
+import { toStars } from '../albums/rating-scale';
+import { AlbumRow, toAlbumOutput } from '../albums/album-output';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const listenLogInclude = {
+  album: {
+    include: {
+      artist: true,
+    },
+  },
+};
+
+// Du jour d'écoute le plus récent au plus ancien ; à jour égal, dernière saisie d'abord
+const diarySortKeys: SortKey[] = [
+  { field: 'listenedOn', direction: 'desc' },
+  { field: 'id', direction: 'desc' },
+];
+
+export interface ListenLogRow {
+  id: number;
+  userId: number;
+  albumId: number;
+  listenedOn: Date;
+  rating: number | null;
+  note: string | null;
+  album?: AlbumRow;
+}
+
+// Écoutes d'un même mois du journal ("2026-10")
+export interface DiaryMonth<T> {
+  month: string;
+  entries: T[];
+}
+
+// Journal d'écoute : plusieurs écoutes datées par album, indépendantes de la
+// critique (unique par album), qui peut en être dérivée à la demande
+@Injectable()
+export class ListenLogsService {
+  constructor(
+    private prisma: PrismaService,
+    private reviewsService: ReviewsService,
+  ) {}
+
+  async create(userId: number, createListenLogDto: CreateListenLogDto) {
+    const { albumId, listenedOn, syncReview, ...data } = createListenLogDto;
+
+    // Vérifier si l'album existe
+    const album = await this.prisma.album.findUnique({
+      where: { id: albumId },
+    });
+
+    if (!album) {
+      throw new NotFoundException(`Album with ID ${albumId} not found`);
+    }
+
+    if (album.removedAt) {
+      throw new BadRequestException(
+        'You cannot log a listen of an album removed from the catalog',
+      );
+    }
+
+    const listenLog: ListenLogRow = await this.prisma.listenLog.create({
+      data: {
+        userId,
+        albumId,
+        listenedOn: this.toListenDay(listenedOn),
+        ...data,
+      },
+      include: listenLogInclude,
+    });
+
+    return this.withDerivedReview(listenLog, syncReview);
+  }
+
+  async update(
+    id: number,
+    userId: number,
+    updateListenLogDto: UpdateListenLogDto,
+  ) {
+    await this.findOwnListenLog(id, userId, 'update');
+
+    const { listenedOn, syncReview, ...data } = updateListenLogDto;
+    const listenLog: ListenLogRow = await this.prisma.listenLog.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(listenedOn !== undefined && {
+          listenedOn: this.toListenDay(listenedOn),
+        }),
+      },
+      include: listenLogInclude,
+    });
+
+    return this.withDerivedReview(listenLog, syncReview);
+  }
+
+  // La critique éventuellement dérivée de l'écoute est conservée
+  async remove(id: number, userId: number) {
+    await this.findOwnListenLog(id, userId, 'delete');
+
+    return this.prisma.listenLog.delete({
+      where: { id },
+    });
+  }
+
+  // Journal d'un utilisateur regroupé par mois, du plus récent au plus ancien
+  // La pagination porte sur les écoutes : un mois peut se poursuivre sur la
+  // page suivante
+  async findDiary(userId: number, query: GetDiaryDto = {}) {
+    // Vérifier si l'utilisateur existe
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    const page = await paginate<ListenLogRow>(
+      this.prisma.listenLog,
+      {
+        where: {
+          userId,
+          ...(query.year !== undefined && {
+            listenedOn: {
+              gte: new Date(Date.UTC(query.year, 0, 1)),
+              lt: new Date(Date.UTC(query.year + 1, 0, 1)),
+            },
+          }),
+        },
+        include: listenLogInclude,
+      },
+      query,
+      diarySortKeys,
+    );
+
+    return {
+      items: this.groupByMonth(
+        page.items.map((listenLog) => this.toOutput(listenLog)),
+      ),
+      pageInfo: page.pageInfo,
+    };
+  }
+
+  private async findOwnListenLog(
+    id: number,
+    userId: number,
+    action: 'update' | 'delete',
+  ) {
+    const listenLog = await this.prisma.listenLog.findUnique({
+      where: { id },
+    });
+
+    if (!listenLog) {
+      throw new NotFoundException(`Listen log with ID ${id} not found`);
+    }
+
+    if (listenLog.userId !== userId) {
+      throw new ForbiddenException(`You can only ${action} your own listens`);
+    }
+
+    return listenLog;
+  }
+
+  // Jour d'écoute à minuit UTC ; une journée de tolérance pour les fuseaux
+  // en avance sur UTC
+  private toListenDay(listenedOn?: string): Date {
+    const date = listenedOn ? new Date(listenedOn) : new Date();
+    const day = new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+
+    if (day.getTime() > Date.now() + DAY_MS) {
+      throw new BadRequestException('listenedOn cannot be in the future');
+    }
+
+    return day;
+  }
+
+  private async withDerivedReview<T extends ListenLogRow>(
+    listenLog: T,
+    syncReview?: boolean,
+  ) {
+    const output = this.toOutput(listenLog);
+    if (!syncReview) {
+      return output;
+    }
+
+    return {
+      ...output,
+      review: await this.deriveReview(listenLog.userId, listenLog.albumId),
+    };
+  }
+
+  // Critique de l'album tirée de la dernière écoute notée (la plus récente par
+  // jour d'écoute, pas par saisie) : créée si besoin, sinon mise à jour
+  // La remarque ne remplace le commentaire de la critique que si elle est renseignée
+  // Sans écoute notée, aucune critique n'est dérivée (null)
+  private async deriveReview(userId: number, albumId: number) {
+    const latest: ListenLogRow | null = await this.prisma.listenLog.findFirst({
+      where: { userId, albumId, rating: { not: null } },
+      orderBy: [{ listenedOn: 'desc' }, { id: 'desc' }],
+    });
+
+    if (!latest || latest.rating === null) {
+      return null;
+    }
+
+    const review = await this.prisma.review.findUnique({
+      where: { userId_albumId: { userId, albumId } },
+    });
+
+    if (review) {
+      return this.reviewsService.update(review.id, userId, {
+        rating: latest.rating,
+        ...(latest.note && { comment: latest.note }),
+      });
+    }
+
+    return this.reviewsService.create(userId, {
+      albumId,
+      rating: latest.rating,
+      comment: latest.note ?? undefined,
+    });
+  }
+
+  // Note brute (de 1 à 10) accompagnée de sa valeur affichée en étoiles
+  private toOutput<T extends ListenLogRow>(listenLog: T) {
+    return {
+      ...listenLog,
+      album: listenLog.album && toAlbumOutput(listenLog.album),
+      stars: listenLog.rating === null ? null : toStars(listenLog.rating),
+    };
+  }
+
+  // Les écoutes arrivent triées par jour décroissant : regrouper les mois consécutifs
+  private groupByMonth<T extends Pick<ListenLogRow, 'listenedOn'>>(
+    listenLogs: T[],
+  ): DiaryMonth<T>[] {
+    const months: DiaryMonth<T>[] = [];
+
+    for (const listenLog of listenLogs) {
+      const month = listenLog.listenedOn.toISOString().slice(0, 7);
+      const current = months[months.length - 1];
+
+      if (current?.month === month) {
+        current.entries.push(listenLog);
+      } else {
+        months.push({ month, entries: [listenLog] });
+      }
+    }
+
+    return months;
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  AlbumClassificationPolicy,
+  classifyAlbum,
+  isListedAlbumType,
+  loadClassificationPolicy,
+  parseAlbumType,
+} from './album-classification';
+
+describe('album-classification', () => {
+  const policy: AlbumClassificationPolicy = {
+    epMinTracks: 2,
+    includeSingles: false,
+    includeCompilations: false,
+  };
+
+  describe('classifyAlbum', () => {
+    it('should keep albums, EPs and compilations', () => {
+      expect(classifyAlbum('album', 12, policy)).toBe('album');
+      expect(classifyAlbum('EP', 5, policy)).toBe('ep');
+      expect(classifyAlbum('compilation', 20, policy)).toBe('compilation');
+    });
+
+    it('should reclassify singles with enough tracks as EPs', () => {
+      expect(classifyAlbum('single', 1, policy)).toBe('single');
+      expect(classifyAlbum('single', 2, policy)).toBe('ep');
+      expect(classifyAlbum('single', 3, { ...policy, epMinTracks: 4 })).toBe(
+        'single',
+      );
+    });
+
+    it('should consider singles of unknown length as EPs', () => {
+      expect(classifyAlbum('single', undefined, policy)).toBe('ep');
+      expect(classifyAlbum('single', null, policy)).toBe('ep');
+    });
+
+    it('should return null for unknown types', () => {
+      expect(classifyAlbum('appears_on', 10, policy)).toBeNull();
+      expect(classifyAlbum(undefined, 10, policy)).toBeNull();
+    });
+  });
+
+  describe('parseAlbumType', () => {
+    it('should keep the catalog type whatever the track count', () => {
+      expect(parseAlbumType('Single')).toBe('single');
+      expect(parseAlbumType('EP')).toBe('ep');
+      expect(parseAlbumType('Broadcast')).toBeNull();
+      expect(parseAlbumType(undefined)).toBeNull();
+    });
+  });
+
+  describe('isListedAlbumType', () => {
+    it('should always list albums and EPs', () => {
+      expect(isListedAlbumType('album', policy)).toBe(true);
+      expect(isListedAlbumType('ep', policy)).toBe(true);
+      expect(isListedAlbumType(null, policy)).toBe(false);
+    });
+
+    it('should list singles and compilations only when enabled', () => {
+      expect(isListedAlbumType('single', policy)).toBe(false);
+      expect(isListedAlbumType('compilation', policy)).toBe(false);
+      expect(
+        isListedAlbumType('single', { ...policy, includeSingles: true }),
+      ).toBe(true);
+      expect(
+        isListedAlbumType('compilation', {
+          ...policy,
+          includeCompilations: true,
+        }),
+      ).toBe(true);
+    });
+  });
+
+  describe('loadClassificationPolicy', () => {
+    it('should read the policy from the configuration', () => {
+      const config: Record<string, string> = {
+        ALBUM_EP_MIN_TRACKS: '3',
+        ALBUM_INCLUDE_SINGLES: 'true',
+      };
+      const configService = {
+        get: jest.fn((key: string, defaultValue?: any) =>
+          key in config ? config[key] : defaultValue,
+        ),
+      };
+
+      expect(loadClassificationPolicy(configService as any)).toEqual({
+        epMinTracks: 3,
+        includeSingles: true,
+        includeCompilations: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { ConfigService } from '@nestjs/config';
+
+// Classification des sorties du catalogue (album, EP, single, compilation),
+// commune à tous les catalogues : les catalogues ne distinguent pas toujours
+// les EP des singles (Spotify les range tous dans "single")
+
+export type CatalogAlbumType = 'album' | 'ep' | 'single' | 'compilation';
+
+export interface AlbumClassificationPolicy {
+  // Nombre de pistes à partir duquel un single est considéré comme un EP
+  epMinTracks: number;
+  // Garder les singles (sous le seuil) dans les résultats de recherche
+  includeSingles: boolean;
+  // Garder les compilations dans les résultats de recherche
+  includeCompilations: boolean;
+}
+
+// Politique configurable via ALBUM_EP_MIN_TRACKS, ALBUM_INCLUDE_SINGLES
+// et ALBUM_INCLUDE_COMPILATIONS
+export function loadClassificationPolicy(
+  configService: ConfigService,
+): AlbumClassificationPolicy {
+  return {
+    epMinTracks: Number(configService.get('ALBUM_EP_MIN_TRACKS', 2)),
+    includeSingles:
+      String(configService.get('ALBUM_INCLUDE_SINGLES', 'false')) === 'true',
+    includeCompilations:
+      String(configService.get('ALBUM_INCLUDE_COMPILATIONS', 'false')) ===
+      'true',
+  };
+}
+
+// Type d'une sortie tel que publié par le catalogue (null si le type est inconnu)
+export function parseAlbumType(
+  albumType: string | undefined,
+): CatalogAlbumType | null {
+  const type = albumType?.toLowerCase();
+
+  switch (type) {
+    case 'album':
+    case 'ep':
+    case 'single':
+    case 'compilation':
+      return type;
+    default:
+      return null;
+  }
+}
+
+// Type d'une sortie selon la politique (null si le type est inconnu)
+// Un single d'au moins epMinTracks pistes, ou dont le nombre de pistes
+// est inconnu, est considéré comme un EP
+export function classifyAlbum(
+  albumType: string | undefined,
+  totalTracks: number | null | undefined,
+  policy: AlbumClassificationPolicy,
+): CatalogAlbumType | null {
+  const type = parseAlbumType(albumType);
+
+  if (type !== 'single') {
+    return type;
+  }
+
+  return totalTracks == null || totalTracks >= policy.epMinTracks
+    ? 'ep'
+    : 'single';
+}
+
+// Une sortie ainsi classée doit-elle apparaître dans les résultats de recherche
+export function isListedAlbumType(
+  type: CatalogAlbumType | null,
+  policy: AlbumClassificationPolicy,
+): boolean {
+  switch (type) {
+    case 'album':
+    case 'ep':
+      return true;
+    case 'single':
+      return policy.includeSingles;
+    case 'compilation':
+      return policy.includeCompilations;
+    default:
+      return false;
+  }
+}
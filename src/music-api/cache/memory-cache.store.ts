@@ -0,0 +1,58 @@
+import {
+  MusicApiCacheEntry,
+  MusicApiCacheStore,
+} from './music-api-cache.store';
+
+// Cache LRU en mémoire : la Map conserve l'ordre d'insertion,
+// chaque lecture replace l'entrée en fin de Map
+// Les entrées sont copiées à l'écriture et à la lecture : un appelant qui
+// modifie la valeur obtenue ne doit pas altérer le cache
+export class MemoryCacheStore implements MusicApiCacheStore {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, MusicApiCacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  get<T>(key: string): Promise<MusicApiCacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return Promise.resolve(undefined);
+    }
+
+    if (entry.staleUntil <= Date.now()) {
+      this.entries.delete(key);
+      return Promise.resolve(undefined);
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return Promise.resolve(structuredClone(entry) as MusicApiCacheEntry<T>);
+  }
+
+  set<T>(key: string, entry: MusicApiCacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, structuredClone(entry));
+
+    // Évincer les entrées les moins récemment utilisées
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  clear(): Promise<void> {
+    this.entries.clear();
+    return Promise.resolve();
+  }
+
+  size(): Promise<number> {
+    return Promise.resolve(this.entries.size);
+  }
+}
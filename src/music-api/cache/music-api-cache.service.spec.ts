@@ -0,0 +1,191 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MusicApiCacheService } from './music-api-cache.service';
+import { MUSIC_API_CACHE_STORE } from './music-api-cache.store';
+import { MemoryCacheStore } from './memory-cache.store';
+
+describe('MusicApiCacheService', () => {
+  let service: MusicApiCacheService;
+  let store: MemoryCacheStore;
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    store = new MemoryCacheStore(2);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MusicApiCacheService,
+        {
+          provide: MUSIC_API_CACHE_STORE,
+          useValue: store,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MusicApiCacheService>(MusicApiCacheService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('wrap', () => {
+    it('should call the fetcher on a miss and serve the cached value afterwards', async () => {
+      const fetcher = jest.fn().mockResolvedValue({ title: 'Test Album' });
+
+      const first = await service.wrap('album-details', { id: 'a1' }, fetcher);
+      const second = await service.wrap('album-details', { id: 'a1' }, fetcher);
+
+      expect(first).toEqual({ title: 'Test Album' });
+      expect(second).toEqual({ title: 'Test Album' });
+      expect(fetcher).toHaveBeenCalledTimes(1);
+
+      const stats = await service.getStats();
+      expect(stats.endpoints['album-details']).toEqual(
+        expect.objectContaining({ hits: 1, misses: 1, hitRate: 0.5 }),
+      );
+    });
+
+    it('should build the same key regardless of parameter order', async () => {
+      const fetcher = jest.fn().mockResolvedValue([]);
+
+      await service.wrap('search-albums', { q: 'test', offset: 0 }, fetcher);
+      await service.wrap('search-albums', { offset: 0, q: 'test' }, fetcher);
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should serve a stale value and refresh it in the background', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const fetcher = jest
+        .fn()
+        .mockResolvedValueOnce('v1')
+        .mockResolvedValueOnce('v2');
+
+      await service.wrap('album-details', { id: 'a1' }, fetcher);
+
+      // Dépasser le TTL (24h) sans dépasser la fenêtre stale (7 jours)
+      jest.setSystemTime(new Date('2026-01-02T01:00:00Z'));
+      const stale = await service.wrap('album-details', { id: 'a1' }, fetcher);
+      expect(stale).toBe('v1');
+      expect(fetcher).toHaveBeenCalledTimes(2);
+
+      // Laisser le rafraîchissement en arrière-plan se terminer
+      await Promise.resolve();
+      await Promise.resolve();
+
+      const fresh = await service.wrap('album-details', { id: 'a1' }, fetcher);
+      expect(fresh).toBe('v2');
+
+      const stats = await service.getStats();
+      expect(stats.endpoints['album-details'].staleHits).toBe(1);
+    });
+
+    it('should refetch once the stale window is over', async () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const fetcher = jest
+        .fn()
+        .mockResolvedValueOnce('v1')
+        .mockResolvedValueOnce('v2');
+
+      await service.wrap('search-albums', { q: 'test' }, fetcher);
+
+      jest.setSystemTime(new Date('2026-01-02T00:00:00Z'));
+      const result = await service.wrap(
+        'search-albums',
+        { q: 'test' },
+        fetcher,
+      );
+
+      expect(result).toBe('v2');
+      const stats = await service.getStats();
+      expect(stats.endpoints['search-albums'].misses).toBe(2);
+    });
+
+    it('should share a single request between concurrent callers', async () => {
+      const fetcher = jest.fn().mockResolvedValue('value');
+
+      await Promise.all([
+        service.wrap('artist-details', { id: 'x' }, fetcher),
+        service.wrap('artist-details', { id: 'x' }, fetcher),
+      ]);
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should bypass the cached value when a fresh read is requested', async () => {
+      const fetcher = jest
+        .fn()
+        .mockResolvedValueOnce('old')
+        .mockResolvedValueOnce('new');
+
+      await service.wrap('artist-albums', { id: '1' }, fetcher);
+      await expect(
+        service.wrap('artist-albums', { id: '1' }, fetcher, { fresh: true }),
+      ).resolves.toBe('new');
+      // La réponse obtenue remplace la valeur en cache
+      await expect(
+        service.wrap('artist-albums', { id: '1' }, fetcher),
+      ).resolves.toBe('new');
+      expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not let callers mutate the cached value', async () => {
+      const fetcher = jest.fn().mockResolvedValue({ title: 'Original' });
+
+      const first = await service.wrap<{ title: string }>(
+        'album-details',
+        { id: '1' },
+        fetcher,
+      );
+      first.title = 'Mutated';
+      const second = await service.wrap('album-details', { id: '1' }, fetcher);
+
+      expect(fetcher).toHaveBeenCalledTimes(1);
+      expect(second).toEqual({ title: 'Original' });
+    });
+
+    it('should not cache errors', async () => {
+      const fetcher = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Spotify down'))
+        .mockResolvedValueOnce('value');
+
+      await expect(
+        service.wrap('artist-albums', { id: 'x' }, fetcher),
+      ).rejects.toThrow('Spotify down');
+      await expect(
+        service.wrap('artist-albums', { id: 'x' }, fetcher),
+      ).resolves.toBe('value');
+
+      const stats = await service.getStats();
+      expect(stats.endpoints['artist-albums'].errors).toBe(1);
+    });
+  });
+
+  describe('getStats', () => {
+    it('should expose the backend and evict least recently used entries', async () => {
+      const fetcher = jest.fn().mockResolvedValue('value');
+
+      await service.wrap('album-details', { id: '1' }, fetcher);
+      await service.wrap('album-details', { id: '2' }, fetcher);
+      await service.wrap('album-details', { id: '3' }, fetcher);
+
+      const stats = await service.getStats();
+      expect(stats.backend).toBe('memory');
+      expect(stats.size).toBe(2);
+    });
+  });
+});
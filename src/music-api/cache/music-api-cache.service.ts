@@ -0,0 +1,215 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MUSIC_API_CACHE_STORE } from './music-api-cache.store';
+import type {
+  MusicApiCacheEntry,
+  MusicApiCacheStore,
+} from './music-api-cache.store';
+
+export type MusicApiEndpoint =
+  | 'search-albums'
+  | 'album-details'
+  | 'artist-details'
+  | 'artist-albums';
+
+interface EndpointTtl {
+  // Durée (en secondes) pendant laquelle la réponse est considérée fraîche
+  ttl: number;
+  // Durée supplémentaire pendant laquelle la réponse périmée peut être servie
+  staleTtl: number;
+}
+
+interface EndpointStats {
+  hits: number;
+  staleHits: number;
+  misses: number;
+  errors: number;
+}
+
+// TTL par défaut, surchargeables via MUSIC_API_CACHE_TTL_<ENDPOINT>
+// et MUSIC_API_CACHE_STALE_TTL_<ENDPOINT> (ex: MUSIC_API_CACHE_TTL_ALBUM_DETAILS)
+const DEFAULT_TTLS: Record<MusicApiEndpoint, EndpointTtl> = {
+  'search-albums': { ttl: 10 * 60, staleTtl: 60 * 60 },
+  'album-details': { ttl: 24 * 60 * 60, staleTtl: 7 * 24 * 60 * 60 },
+  'artist-details': { ttl: 24 * 60 * 60, staleTtl: 7 * 24 * 60 * 60 },
+  'artist-albums': { ttl: 6 * 60 * 60, staleTtl: 24 * 60 * 60 },
+};
+
+@Injectable()
+export class MusicApiCacheService {
+  private readonly logger = new Logger(MusicApiCacheService.name);
+  private readonly ttls: Record<MusicApiEndpoint, EndpointTtl>;
+  private readonly stats = new Map<MusicApiEndpoint, EndpointStats>();
+  // Requêtes en cours, pour ne pas appeler l'API plusieurs fois pour une même clé
+  private readonly inFlight = new Map<string, Promise<any>>();
+
+  constructor(
+    @Inject(MUSIC_API_CACHE_STORE) private readonly store: MusicApiCacheStore,
+    private readonly configService: ConfigService,
+  ) {
+    this.ttls = Object.fromEntries(
+      Object.entries(DEFAULT_TTLS).map(([endpoint, defaults]) => {
+        const suffix = endpoint.toUpperCase().replace(/-/g, '_');
+        return [
+          endpoint,
+          {
+            ttl: Number(
+              this.configService.get(
+                `MUSIC_API_CACHE_TTL_${suffix}`,
+                defaults.ttl,
+              ),
+            ),
+            staleTtl: Number(
+              this.configService.get(
+                `MUSIC_API_CACHE_STALE_TTL_${suffix}`,
+                defaults.staleTtl,
+              ),
+            ),
+          },
+        ];
+      }),
+    ) as Record<MusicApiEndpoint, EndpointTtl>;
+  }
+
+  // Retourner la valeur en cache pour cet endpoint et ces paramètres,
+  // ou l'obtenir via fetcher et la mettre en cache
+  // Avec fresh, la valeur en cache est ignorée et remplacée par celle du fetcher
+  async wrap<T>(
+    endpoint: MusicApiEndpoint,
+    params: Record<string, unknown>,
+    fetcher: () => Promise<T>,
+    { fresh = false }: { fresh?: boolean } = {},
+  ): Promise<T> {
+    const key = this.buildKey(endpoint, params);
+    const stats = this.getEndpointStats(endpoint);
+
+    const entry = fresh ? undefined : await this.readEntry<T>(key);
+
+    if (entry && entry.expiresAt > Date.now()) {
+      stats.hits++;
+      return entry.value;
+    }
+
+    if (entry) {
+      // Stale-while-revalidate : servir la valeur périmée et rafraîchir en arrière-plan
+      stats.staleHits++;
+      this.revalidate(endpoint, key, fetcher).catch((error) => {
+        this.logger.warn(
+          `Background refresh failed for ${key}: ${error.message}`,
+        );
+      });
+      return entry.value;
+    }
+
+    stats.misses++;
+    return this.revalidate(endpoint, key, fetcher);
+  }
+
+  async invalidate(
+    endpoint: MusicApiEndpoint,
+    params: Record<string, unknown>,
+  ) {
+    await this.store.delete(this.buildKey(endpoint, params));
+  }
+
+  async clear() {
+    await this.store.clear();
+  }
+
+  // Compteurs de succès / échecs du cache, pour le diagnostic
+  async getStats() {
+    const endpoints = Object.fromEntries(
+      (Object.keys(DEFAULT_TTLS) as MusicApiEndpoint[]).map((endpoint) => {
+        const stats = this.getEndpointStats(endpoint);
+        const lookups = stats.hits + stats.staleHits + stats.misses;
+        return [
+          endpoint,
+          {
+            ...stats,
+            hitRate: lookups > 0 ? (stats.hits + stats.staleHits) / lookups : 0,
+            ttl: this.ttls[endpoint].ttl,
+            staleTtl: this.ttls[endpoint].staleTtl,
+          },
+        ];
+      }),
+    );
+
+    return {
+      backend: this.store.name,
+      size: await this.store.size(),
+      endpoints,
+    };
+  }
+
+  private revalidate<T>(
+    endpoint: MusicApiEndpoint,
+    key: string,
+    fetcher: () => Promise<T>,
+  ): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = (async () => {
+      try {
+        const value = await fetcher();
+        const { ttl, staleTtl } = this.ttls[endpoint];
+        const now = Date.now();
+        await this.writeEntry(key, {
+          value,
+          expiresAt: now + ttl * 1000,
+          staleUntil: now + (ttl + staleTtl) * 1000,
+        });
+        return value;
+      } catch (error) {
+        this.getEndpointStats(endpoint).errors++;
+        throw error;
+      } finally {
+        this.inFlight.delete(key);
+      }
+    })();
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  // Une panne du backend de cache ne doit jamais empêcher l'appel à l'API
+  private async readEntry<T>(key: string) {
+    try {
+      return await this.store.get<T>(key);
+    } catch (error) {
+      this.logger.warn(`Cache read failed for ${key}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  private async writeEntry(key: string, entry: MusicApiCacheEntry) {
+    try {
+      await this.store.set(key, entry);
+    } catch (error) {
+      this.logger.warn(`Cache write failed for ${key}: ${error.message}`);
+    }
+  }
+
+  private buildKey(
+    endpoint: MusicApiEndpoint,
+    params: Record<string, unknown>,
+  ) {
+    // Trier les paramètres pour qu'un même appel produise toujours la même clé
+    const sortedParams = Object.keys(params)
+      .sort()
+      .map((name) => `${name}=${JSON.stringify(params[name])}`)
+      .join('&');
+    return `${endpoint}?${sortedParams}`;
+  }
+
+  private getEndpointStats(endpoint: MusicApiEndpoint): EndpointStats {
+    let stats = this.stats.get(endpoint);
+    if (!stats) {
+      stats = { hits: 0, staleHits: 0, misses: 0, errors: 0 };
+      this.stats.set(endpoint, stats);
+    }
+    return stats;
+  }
+}
@@ -0,0 +1,19 @@
+// Entrée de cache : la valeur est fraîche jusqu'à expiresAt,
+// puis peut encore être servie (en la rafraîchissant) jusqu'à staleUntil
+export interface MusicApiCacheEntry<T = any> {
+  value: T;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+// Backend de stockage du cache (mémoire, Prisma, ...)
+export interface MusicApiCacheStore {
+  readonly name: string;
+  get<T>(key: string): Promise<MusicApiCacheEntry<T> | undefined>;
+  set<T>(key: string, entry: MusicApiCacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+}
+
+export const MUSIC_API_CACHE_STORE = Symbol('MUSIC_API_CACHE_STORE');
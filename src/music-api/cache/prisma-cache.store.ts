@@ -0,0 +1,61 @@
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  MusicApiCacheEntry,
+  MusicApiCacheStore,
+} from './music-api-cache.store';
+
+// Cache persistant dans la table MusicApiCacheEntry (partagé entre instances
+// et conservé entre deux redémarrages)
+export class PrismaCacheStore implements MusicApiCacheStore {
+  readonly name = 'prisma';
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async get<T>(key: string): Promise<MusicApiCacheEntry<T> | undefined> {
+    const row = await this.prisma.musicApiCacheEntry.findUnique({
+      where: { key },
+    });
+
+    if (!row) {
+      return undefined;
+    }
+
+    if (row.staleUntil.getTime() <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    return {
+      value: row.value as T,
+      expiresAt: row.expiresAt.getTime(),
+      staleUntil: row.staleUntil.getTime(),
+    };
+  }
+
+  async set<T>(key: string, entry: MusicApiCacheEntry<T>): Promise<void> {
+    const data = {
+      value: entry.value as Prisma.InputJsonValue,
+      expiresAt: new Date(entry.expiresAt),
+      staleUntil: new Date(entry.staleUntil),
+    };
+
+    await this.prisma.musicApiCacheEntry.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: data,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.prisma.musicApiCacheEntry.deleteMany({ where: { key } });
+  }
+
+  async clear(): Promise<void> {
+    await this.prisma.musicApiCacheEntry.deleteMany({});
+  }
+
+  size(): Promise<number> {
+    return this.prisma.musicApiCacheEntry.count();
+  }
+}
@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { NotFoundException } from '@nestjs/common';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FixtureMusicApiService } from './fixture-music-api.service';
+import { MusicApiService } from './music-api.service';
+
+describe('FixtureMusicApiService', () => {
+  let service: FixtureMusicApiService;
+  let fixturesDir: string;
+  let config: Record<string, string>;
+
+  const mockMusicApiService = {
+    searchAlbums: jest.fn(),
+    getAlbumDetails: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(
+      (key: string, defaultValue?: any) => config[key] ?? defaultValue,
+    ),
+  };
+
+  const writeFixture = async (path: string, value: unknown) => {
+    await mkdir(join(fixturesDir, path, '..'), { recursive: true });
+    await writeFile(join(fixturesDir, path), JSON.stringify(value));
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FixtureMusicApiService,
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: MusicApiService,
+          useValue: mockMusicApiService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<FixtureMusicApiService>(FixtureMusicApiService);
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    fixturesDir = await mkdtemp(join(tmpdir(), 'music-api-fixtures-'));
+    config = { MUSIC_API_FIXTURES_DIR: fixturesDir };
+    await createService();
+  });
+
+  afterEach(async () => {
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+    expect(service.providerName).toBe('spotify');
+  });
+
+  describe('searchAlbums', () => {
+    it('should replay the recorded search and paginate it', async () => {
+      await writeFixture('search-albums/daft-punk.json', [
+        { externalId: 'a1', title: 'Homework' },
+        { externalId: 'a2', title: 'Discovery' },
+        { externalId: 'a3', title: 'Human After All' },
+      ]);
+
+      const result = await service.searchAlbums('Daft Punk', 2, 1);
+
+      expect(result).toEqual([
+        { externalId: 'a2', title: 'Discovery' },
+        { externalId: 'a3', title: 'Human After All' },
+      ]);
+      expect(mockMusicApiService.searchAlbums).not.toHaveBeenCalled();
+    });
+
+    it('should return an empty list when nothing was recorded', async () => {
+      await expect(service.searchAlbums('unknown')).resolves.toEqual([]);
+    });
+  });
+
+  describe('getAlbumDetails', () => {
+    it('should replay the recorded album', async () => {
+      const album = { externalId: 'album1', title: 'Discovery' };
+      await writeFixture('album-details/album1.json', album);
+
+      await expect(service.getAlbumDetails(' album1 ')).resolves.toEqual(album);
+    });
+
+    it('should throw NotFoundException when the album was not recorded', async () => {
+      await expect(service.getAlbumDetails('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockMusicApiService.getAlbumDetails).not.toHaveBeenCalled();
+    });
+
+    it('should not read outside of the fixtures directory', async () => {
+      await expect(service.getAlbumDetails('../secret')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should record missing fixtures from Spotify in record mode', async () => {
+      config.MUSIC_API_FIXTURES_RECORD = 'true';
+      await createService();
+      const album = { externalId: 'album2', title: 'Homework' };
+      mockMusicApiService.getAlbumDetails.mockResolvedValue(album);
+
+      const result = await service.getAlbumDetails('album2');
+
+      expect(result).toEqual(album);
+      const recorded = await readFile(
+        join(fixturesDir, 'album-details', 'album2.json'),
+        'utf8',
+      );
+      expect(JSON.parse(recorded)).toEqual(album);
+    });
+  });
+
+  describe('testAlbumId', () => {
+    it('should return whether the album was recorded', async () => {
+      await writeFixture('album-details/album1.json', { externalId: 'album1' });
+
+      await expect(service.testAlbumId('album1')).resolves.toBe(true);
+      await expect(service.testAlbumId('album2')).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { MusicApiService } from './music-api.service';
+import {
+  CatalogAlbum,
+  CatalogAlbumDetails,
+  CatalogArtist,
+  CatalogArtistDetails,
+  MusicCatalogProvider,
+} from './music-catalog-provider.interface';
+
+type FixtureEndpoint =
+  | 'search-artists'
+  | 'search-albums'
+  | 'album-details'
+  | 'artist-details'
+  | 'artist-albums';
+
+// Rejoue des réponses Spotify enregistrées sur disque (tests e2e, dev hors ligne)
+// Arborescence : <MUSIC_API_FIXTURES_DIR>/<endpoint>/<clé>.json
+// Avec MUSIC_API_FIXTURES_RECORD=true, les fixtures manquantes sont
+// enregistrées depuis le vrai service Spotify
+@Injectable()
+export class FixtureMusicApiService implements MusicCatalogProvider {
+  // Les fixtures sont des réponses Spotify : mêmes identifiants externes
+  readonly providerName = 'spotify';
+  private readonly logger = new Logger(FixtureMusicApiService.name);
+  private readonly fixturesDir: string;
+  private readonly record: boolean;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly spotify: MusicApiService,
+  ) {
+    this.fixturesDir = this.configService.get<string>(
+      'MUSIC_API_FIXTURES_DIR',
+      join(process.cwd(), 'test', 'fixtures', 'music-api'),
+    );
+    this.record =
+      this.configService.get<string>('MUSIC_API_FIXTURES_RECORD') === 'true';
+  }
+
+  async searchArtists(query: string, limit = 10): Promise<CatalogArtist[]> {
+    const artists = await this.replay<CatalogArtist[]>(
+      'search-artists',
+      this.slugify(query),
+      () => this.spotify.searchArtists(query, 50),
+    );
+
+    return (artists ?? []).slice(0, limit);
+  }
+
+  // La pagination est appliquée sur la liste enregistrée
+  async searchAlbums(
+    query: string,
+    limit = 10,
+    offset = 0,
+  ): Promise<CatalogAlbum[]> {
+    const albums = await this.replay<CatalogAlbum[]>(
+      'search-albums',
+      this.slugify(query),
+      () => this.spotify.searchAlbums(query, 50, 0),
+    );
+
+    return (albums ?? []).slice(offset, offset + limit);
+  }
+
+  async getAlbumDetails(externalId: string): Promise<CatalogAlbumDetails> {
+    const cleanExternalId = externalId.trim();
+    const album = await this.replay<CatalogAlbumDetails>(
+      'album-details',
+      cleanExternalId,
+      () => this.spotify.getAlbumDetails(cleanExternalId),
+    );
+
+    if (!album) {
+      throw new NotFoundException(
+        `Album with ID ${cleanExternalId} not found in fixtures`,
+      );
+    }
+
+    return album;
+  }
+
+  async getArtistDetails(externalId: string): Promise<CatalogArtistDetails> {
+    const artist = await this.replay<CatalogArtistDetails>(
+      'artist-details',
+      externalId,
+      () => this.spotify.getArtistDetails(externalId),
+    );
+
+    if (!artist) {
+      throw new NotFoundException(
+        `Artist with ID ${externalId} not found in fixtures`,
+      );
+    }
+
+    return artist;
+  }
+
+  async getArtistAlbums(
+    artistExternalId: string,
+    limit = 50,
+    offset = 0,
+  ): Promise<CatalogAlbum[]> {
+    const albums = await this.replay<CatalogAlbum[]>(
+      'artist-albums',
+      artistExternalId,
+      () => this.spotify.getArtistAlbums(artistExternalId, 50),
+    );
+
+    return (albums ?? []).slice(offset, offset + limit);
+  }
+
+  async testAlbumId(albumId: string): Promise<boolean> {
+    try {
+      await this.getAlbumDetails(albumId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Lire la fixture, ou l'enregistrer si le mode enregistrement est actif
+  // Retourne null si la fixture n'existe pas
+  private async replay<T>(
+    endpoint: FixtureEndpoint,
+    key: string,
+    recorder: () => Promise<T>,
+  ): Promise<T | null> {
+    // Refuser les clés qui sortiraient du dossier des fixtures
+    if (!/^[\w-]+$/.test(key)) {
+      return null;
+    }
+
+    const path = join(this.fixturesDir, endpoint, `${key}.json`);
+
+    try {
+      return JSON.parse(await readFile(path, 'utf8')) as T;
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    if (!this.record) {
+      this.logger.warn(`No fixture recorded for ${endpoint}/${key}`);
+      return null;
+    }
+
+    const value = await recorder();
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, `${JSON.stringify(value, null, 2)}\n`);
+    this.logger.log(`Recorded fixture ${endpoint}/${key}`);
+
+    return value;
+  }
+
+  // "Daft Punk" -> "daft-punk" (accents et ponctuation ignorés)
+  private slugify(query: string): string {
+    return query
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+}
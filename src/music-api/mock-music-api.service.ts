@@ -1,8 +1,14 @@
 import { Injectable } from '@nestjs/common';
+import {
+  CatalogAlbum,
+  MusicCatalogProvider,
+} from './music-catalog-provider.interface';
 
 // Service temporaire qui simule les réponses de l'API Spotify
 @Injectable()
-export class MockMusicApiService {
+export class MockMusicApiService implements MusicCatalogProvider {
+  readonly providerName = 'mock';
+
   // Mock de recherche d'artistes
   async searchArtists(query: string) {
     return [
@@ -89,8 +95,13 @@ export class MockMusicApiService {
     };
   }
 
+  // Tous les IDs d'album sont considérés comme valides
+  async testAlbumId(albumId: string) {
+    return Boolean(albumId);
+  }
+
   // Mock d'albums d'un artiste
-  async getArtistAlbums(artistExternalId: string) {
+  async getArtistAlbums(artistExternalId: string): Promise<CatalogAlbum[]> {
     return [
       {
         externalId: 'album1',
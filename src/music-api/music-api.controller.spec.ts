@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MusicApiController } from './music-api.controller';
+import { MusicApiCacheService } from './cache/music-api-cache.service';
+import { SpotifyRequestExecutor } from './request/spotify-request.executor';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+
+describe('MusicApiController', () => {
+  let controller: MusicApiController;
+  let cacheService: MusicApiCacheService;
+
+  const mockStats = {
+    backend: 'memory',
+    size: 1,
+    endpoints: {},
+  };
+
+  const mockCacheService = {
+    getStats: jest.fn().mockResolvedValue(mockStats),
+    clear: jest.fn().mockResolvedValue(undefined),
+  };
+
+  const mockRequestExecutor = {
+    getCircuitState: jest.fn().mockReturnValue({
+      state: 'closed',
+      consecutiveFailures: 0,
+      retryAfterMs: 0,
+    }),
+  };
+
+  const mockGuard = { canActivate: jest.fn().mockReturnValue(true) };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MusicApiController],
+      providers: [
+        {
+          provide: MusicApiCacheService,
+          useValue: mockCacheService,
+        },
+        {
+          provide: SpotifyRequestExecutor,
+          useValue: mockRequestExecutor,
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(mockGuard)
+      .overrideGuard(RolesGuard)
+      .useValue(mockGuard)
+      .compile();
+
+    controller = module.get<MusicApiController>(MusicApiController);
+    cacheService = module.get<MusicApiCacheService>(MusicApiCacheService);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  describe('getCircuitState', () => {
+    it('should return the circuit breaker state', () => {
+      const result = controller.getCircuitState();
+
+      expect(result).toEqual(expect.objectContaining({ state: 'closed' }));
+      expect(mockRequestExecutor.getCircuitState).toHaveBeenCalled();
+    });
+  });
+
+  describe('getCacheStats', () => {
+    it('should return cache statistics', async () => {
+      const result = await controller.getCacheStats();
+
+      expect(result).toEqual(mockStats);
+      expect(cacheService.getStats).toHaveBeenCalled();
+    });
+  });
+
+  describe('clearCache', () => {
+    it('should clear the cache', async () => {
+      await controller.clearCache();
+
+      expect(cacheService.clear).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import { MusicApiCacheService } from './cache/music-api-cache.service';
+import { SpotifyRequestExecutor } from './request/spotify-request.executor';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+@ApiTags('music-api')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.Admin)
+@Controller('music-api')
+export class MusicApiController {
+  constructor(
+    private readonly cacheService: MusicApiCacheService,
+    private readonly requestExecutor: SpotifyRequestExecutor,
+  ) {}
+
+  @ApiOperation({
+    summary: 'État du disjoncteur Spotify',
+    description:
+      'Indique si les appels à Spotify sont suspendus suite à des erreurs répétées (réservé aux administrateurs)',
+  })
+  @ApiResponse({ status: 200, description: 'État du disjoncteur' })
+  @ApiResponse({ status: 403, description: 'Réservé aux administrateurs' })
+  @Get('circuit-breaker')
+  getCircuitState() {
+    return this.requestExecutor.getCircuitState();
+  }
+
+  @ApiOperation({
+    summary: 'Statistiques du cache Spotify',
+    description:
+      'Compteurs de succès / échecs du cache par endpoint (réservé aux administrateurs)',
+  })
+  @ApiResponse({ status: 200, description: 'Statistiques du cache' })
+  @ApiResponse({ status: 403, description: 'Réservé aux administrateurs' })
+  @Get('cache/stats')
+  getCacheStats() {
+    return this.cacheService.getStats();
+  }
+
+  @ApiOperation({
+    summary: 'Vider le cache Spotify',
+    description: 'Supprime toutes les réponses mises en cache',
+  })
+  @ApiResponse({ status: 204, description: 'Cache vidé' })
+  @ApiResponse({ status: 403, description: 'Réservé aux administrateurs' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete('cache')
+  async clearCache() {
+    await this.cacheService.clear();
+  }
+}
@@ -2,15 +2,83 @@ import { Module } from '@nestjs/common';
 import { MusicApiService } from './music-api.service';
 import { HttpModule } from '@nestjs/axios';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PrismaService } from '../prisma/prisma.service';
+import { MusicApiController } from './music-api.controller';
+import { MusicApiCacheService } from './cache/music-api-cache.service';
+import { MUSIC_API_CACHE_STORE } from './cache/music-api-cache.store';
+import { MemoryCacheStore } from './cache/memory-cache.store';
+import { PrismaCacheStore } from './cache/prisma-cache.store';
+import { SpotifyRequestExecutor } from './request/spotify-request.executor';
+import { MusicBrainzService } from './musicbrainz.service';
+import { MockMusicApiService } from './mock-music-api.service';
+import { FixtureMusicApiService } from './fixture-music-api.service';
+import { MUSIC_CATALOG_PROVIDER } from './music-catalog-provider.interface';
 
 @Module({
-  imports: [HttpModule, ConfigModule],
+  imports: [HttpModule, ConfigModule, PrismaModule],
+  controllers: [MusicApiController],
   providers: [
+    MusicApiService,
+    MockMusicApiService,
+    FixtureMusicApiService,
+    MusicBrainzService,
     {
-      provide: MusicApiService,
-      useClass: MusicApiService, // Par défaut, utilisez le vrai service Spotify
+      // Catalogue utilisé par les albums et artistes
+      // MUSIC_API_MODE : "spotify" (API réelle, par défaut), "mock" (données
+      // factices) ou "fixture" (réponses enregistrées sur disque, hors ligne)
+      // En mode "spotify", MUSIC_CATALOG_PROVIDER permet de choisir MusicBrainz
+      provide: MUSIC_CATALOG_PROVIDER,
+      useFactory: (
+        configService: ConfigService,
+        spotify: MusicApiService,
+        musicBrainz: MusicBrainzService,
+        mock: MockMusicApiService,
+        fixture: FixtureMusicApiService,
+      ) => {
+        const mode = configService.get<string>('MUSIC_API_MODE', 'spotify');
+
+        switch (mode) {
+          case 'mock':
+            return mock;
+          case 'fixture':
+            return fixture;
+          case 'spotify':
+            return configService.get<string>(
+              'MUSIC_CATALOG_PROVIDER',
+              'spotify',
+            ) === 'musicbrainz'
+              ? musicBrainz
+              : spotify;
+          default:
+            throw new Error(
+              `Invalid MUSIC_API_MODE "${mode}" (expected spotify, mock or fixture)`,
+            );
+        }
+      },
+      inject: [
+        ConfigService,
+        MusicApiService,
+        MusicBrainzService,
+        MockMusicApiService,
+        FixtureMusicApiService,
+      ],
+    },
+    {
+      // Backend du cache : LRU en mémoire par défaut, ou table Prisma
+      provide: MUSIC_API_CACHE_STORE,
+      useFactory: (configService: ConfigService, prisma: PrismaService) =>
+        configService.get<string>('MUSIC_API_CACHE_BACKEND', 'memory') ===
+        'prisma'
+          ? new PrismaCacheStore(prisma)
+          : new MemoryCacheStore(
+              Number(configService.get('MUSIC_API_CACHE_MAX_ENTRIES', 500)),
+            ),
+      inject: [ConfigService, PrismaService],
     },
+    MusicApiCacheService,
+    SpotifyRequestExecutor,
   ],
-  exports: [MusicApiService],
+  exports: [MusicApiService, MusicApiCacheService, MUSIC_CATALOG_PROVIDER],
 })
 export class MusicApiModule {}
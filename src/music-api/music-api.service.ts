@@ -4,28 +4,50 @@ import {
   NotFoundException,
   InternalServerErrorException,
   HttpException,
+  BadGatewayException,
 } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { ConfigService } from '@nestjs/config';
 import { catchError, firstValueFrom } from 'rxjs';
 import { AxiosError } from 'axios';
+import { MusicApiCacheService } from './cache/music-api-cache.service';
+import { SpotifyRequestExecutor } from './request/spotify-request.executor';
+import {
+  CatalogAlbumArtist,
+  CatalogAlbumDetails,
+  CatalogRequestOptions,
+  MusicCatalogProvider,
+} from './music-catalog-provider.interface';
+import {
+  AlbumClassificationPolicy,
+  classifyAlbum,
+  isListedAlbumType,
+  loadClassificationPolicy,
+} from './album-classification';
 
 @Injectable()
-export class MusicApiService {
+export class MusicApiService implements MusicCatalogProvider {
+  readonly providerName = 'spotify';
   private readonly logger = new Logger(MusicApiService.name);
   private accessToken: string;
   private tokenExpiry: Date;
   private readonly baseUrl = 'https://api.spotify.com/v1';
+  private readonly classificationPolicy: AlbumClassificationPolicy;
 
   constructor(
     private readonly httpService: HttpService,
     private readonly configService: ConfigService,
-  ) {}
+    private readonly cacheService: MusicApiCacheService,
+    private readonly requestExecutor: SpotifyRequestExecutor,
+  ) {
+    this.classificationPolicy = loadClassificationPolicy(configService);
+  }
 
   // Méthode pour obtenir un token d'accès Spotify
-  private async getAccessToken(): Promise<string> {
+  // (forceRefresh ignore le token en mémoire, par exemple après une réponse 401)
+  private async getAccessToken(forceRefresh = false): Promise<string> {
     // Vérifier si le token est toujours valide
-    if (this.accessToken && this.tokenExpiry > new Date()) {
+    if (!forceRefresh && this.accessToken && this.tokenExpiry > new Date()) {
       return this.accessToken;
     }
 
@@ -75,32 +97,51 @@ export class MusicApiService {
     }
   }
 
+  // Effectuer un GET sur l'API Spotify via l'exécuteur partagé
+  // (retries, Retry-After, renouvellement du token, disjoncteur)
+  private async spotifyGet<T = any>(
+    path: string,
+    errorMessage: string,
+    options: {
+      params?: Record<string, unknown>;
+      notFoundMessage?: string;
+    } = {},
+  ): Promise<T> {
+    try {
+      return await this.requestExecutor.get<T>(`${this.baseUrl}${path}`, {
+        operation: errorMessage,
+        params: options.params,
+        getToken: (forceRefresh) => this.getAccessToken(forceRefresh),
+      });
+    } catch (error) {
+      if (!(error instanceof AxiosError)) {
+        throw error; // 503 du disjoncteur ou erreur de configuration
+      }
+
+      this.logger.error(errorMessage, error.response?.data);
+      if (error.response?.status === 404 && options.notFoundMessage) {
+        throw new NotFoundException(options.notFoundMessage);
+      }
+      throw new BadGatewayException(errorMessage);
+    }
+  }
+
   // Recherche d'artistes
   async searchArtists(query: string, limit = 10): Promise<any> {
     try {
-      const token = await this.getAccessToken();
-      const response = await firstValueFrom(
-        this.httpService
-          .get(`${this.baseUrl}/search`, {
-            headers: { Authorization: `Bearer ${token}` },
-            params: {
-              q: query,
-              type: 'artist',
-              limit,
-            },
-          })
-          .pipe(
-            catchError((error: AxiosError) => {
-              this.logger.error(
-                'Error searching artists',
-                error.response?.data,
-              );
-              throw new Error('Failed to search artists');
-            }),
-          ),
+      const data = await this.spotifyGet(
+        '/search',
+        'Failed to search artists',
+        {
+          params: {
+            q: query,
+            type: 'artist',
+            limit,
+          },
+        },
       );
 
-      return response.data.artists.items.map((artist) => ({
+      return data.artists.items.map((artist) => ({
         externalId: artist.id,
         name: artist.name,
         imageUrl: artist.images?.[0]?.url,
@@ -114,155 +155,105 @@ export class MusicApiService {
   // Recherche d'albums (albums complets et EPs seulement, pas de singles)
   async searchAlbums(query: string, limit = 10, offset = 0): Promise<any> {
     try {
-      const token = await this.getAccessToken();
-
       // Essayons de détecter si nous avons un ID Spotify et utiliser une recherche plus précise
       const isLikelySpotifyId = /^[0-9A-Za-z]{22}$/.test(query);
 
       // Si ça ressemble à un ID Spotify, ajoutons "id:" à la requête
-      let searchQuery = isLikelySpotifyId ? `id:${query}` : query;
-
-      // Le filtre pour exclure les singles et inclure seulement les albums et EPs
-      // est maintenant géré via le paramètre album_type directement
-      // Nous laissons la requête simple
-      if (!isLikelySpotifyId) {
-        // Pas besoin d'ajouter album_type dans la requête de recherche
-      }
-
-      // Demander le maximum de résultats possibles pour avoir assez après filtrage
-      // Spotify limite à 50 résultats par requête, donc on demande ce maximum
-      const apiLimit = 50; // Maximum possible par l'API Spotify
-
-      // L'API Spotify a une limite de 1000 résultats au total et 50 par requête
-      // S'assurer que notre offset est dans les limites
-      const apiOffset = Math.min(offset, 950);
-
-      const response = await firstValueFrom(
-        this.httpService
-          .get(`${this.baseUrl}/search`, {
-            headers: { Authorization: `Bearer ${token}` },
-            params: {
-              q: searchQuery,
-              type: 'album',
-              album_type: 'album,single,ep', // Inclure explicitement tous les types
-              limit: apiLimit,
-              offset: apiOffset,
-            },
-          })
-          .pipe(
-            catchError((error: AxiosError) => {
-              this.logger.error('Error searching albums', error.response?.data);
-              throw new Error('Failed to search albums');
-            }),
-          ),
+      const searchQuery = isLikelySpotifyId ? `id:${query}` : query;
+
+      // Spotify renvoie au plus 50 résultats par requête et 1000 au total :
+      // la fenêtre demandée est transmise telle quelle dans ces limites
+      const apiLimit = Math.min(limit, 50);
+      const apiOffset = Math.min(offset, 1000 - apiLimit);
+
+      // Chaque fenêtre filtrée est mise en cache sous sa limite et son offset
+      const filteredItems = await this.cacheService.wrap(
+        'search-albums',
+        { q: searchQuery, limit: apiLimit, offset: apiOffset },
+        () => this.fetchAlbumSearchPage(searchQuery, apiLimit, apiOffset),
       );
-
-      // Filtrer pour garder uniquement les albums complets et recatégoriser les singles comme EP si nécessaire
-      const filteredItems = response.data.albums.items.filter((album) => {
-        // Normaliser le type d'album pour éviter les problèmes de casse
-        const albumType = album.album_type?.toLowerCase() || '';
-
-        // Garder tous les albums
-        if (albumType === 'album') {
-          return true;
-        }
-
-        // Garder tous les EP
-        if (albumType === 'ep') {
-          return true;
-        } // Si c'est un single, vérifier le nombre de pistes
-        if (album.album_type === 'single') {
-          // Si total_tracks n'est pas défini, considérer tous les singles comme des EP par défaut
-          if (album.total_tracks === undefined) {
-            album.album_type = 'ep';
-            return true;
-          }
-
-          // Si c'est un single avec 2 pistes ou plus, on le considère comme un EP
-          if (album.total_tracks >= 2) {
-            album.album_type = 'ep';
-            return true;
-          }
-
-          // Rejeter seulement les singles avec exactement une piste
-          return false;
-        }
-
-        // Si on arrive ici, c'est un type inconnu, on le rejette
-        return false;
-      });
-
-      // Compter combien d'éléments de chaque type on a après filtrage et recatégorisation
-      const types = {};
-      filteredItems.forEach((item) => {
-        const type = item.album_type;
-        types[type] = (types[type] || 0) + 1;
-      });
-
-      // Limiter le nombre de résultats au nombre demandé
-      const limitedResults = filteredItems.slice(0, limit);
       this.logger.debug(
-        `Returning ${limitedResults.length} albums/EPs out of ${filteredItems.length} filtered results`,
+        `Returning ${filteredItems.length} albums/EPs out of ${apiLimit} requested results`,
       );
 
-      const formattedResults = limitedResults.map((album) => {
-        // S'assurer que le type d'album est bien normalisé (en minuscules)
-        const normalizedType = album.album_type?.toLowerCase();
-
-        return {
-          externalId: album.id,
-          title: album.name,
-          releaseDate: album.release_date,
-          coverUrl: album.images?.[0]?.url,
-          artistName: album.artists[0]?.name,
-          artistExternalId: album.artists[0]?.id,
-          albumType: normalizedType, // 'album' ou 'ep' après recatégorisation
-          totalTracks: album.total_tracks || null,
-        };
-      });
-
-      return formattedResults;
+      return filteredItems;
     } catch (error) {
       this.logger.error('Error in searchAlbums', error);
       throw error;
     }
   }
 
+  // Récupérer une page de résultats de recherche d'albums, filtrée et formatée
+  private async fetchAlbumSearchPage(
+    searchQuery: string,
+    limit: number,
+    offset: number,
+  ): Promise<any[]> {
+    const data = await this.spotifyGet('/search', 'Failed to search albums', {
+      params: {
+        q: searchQuery,
+        type: 'album',
+        album_type: 'album,single,ep', // Inclure explicitement tous les types
+        limit,
+        offset,
+      },
+    });
+
+    // Classer chaque sortie (les singles de plusieurs pistes deviennent des EP)
+    // et ne garder que les types listés par la politique de classification
+    return data.albums.items
+      .map((album) => ({
+        album,
+        albumType: classifyAlbum(
+          album.album_type,
+          album.total_tracks,
+          this.classificationPolicy,
+        ),
+      }))
+      .filter(({ albumType }) =>
+        isListedAlbumType(albumType, this.classificationPolicy),
+      )
+      .map(({ album, albumType }) => ({
+        externalId: album.id,
+        title: album.name,
+        releaseDate: album.release_date,
+        releaseDatePrecision: album.release_date_precision,
+        coverUrl: album.images?.[0]?.url,
+        artistName: album.artists[0]?.name,
+        artistExternalId: album.artists[0]?.id,
+        artists: this.mapAlbumArtists(album.artists),
+        albumType,
+        totalTracks: album.total_tracks || null,
+      }));
+  }
+
   // Obtenir les détails d'un album par son ID externe
-  async getAlbumDetails(externalId: string): Promise<any> {
+  async getAlbumDetails(
+    externalId: string,
+    options: CatalogRequestOptions = {},
+  ): Promise<any> {
+    return this.cacheService.wrap(
+      'album-details',
+      { id: externalId.trim() },
+      () => this.fetchAlbumDetails(externalId),
+      options,
+    );
+  }
+
+  private async fetchAlbumDetails(externalId: string): Promise<any> {
     try {
       // Nettoyer l'ID externe au cas où il contiendrait des caractères indésirables
       const cleanExternalId = externalId.trim();
 
-      const token = await this.getAccessToken();
-
       // URL correcte selon la documentation Spotify
-      const url = `${this.baseUrl}/albums/${cleanExternalId}`;
-
-      const response = await firstValueFrom(
-        this.httpService
-          .get(url, {
-            headers: { Authorization: `Bearer ${token}` },
-          })
-          .pipe(
-            catchError((error: AxiosError) => {
-              this.logger.error(
-                'Error getting album details',
-                error.response?.data,
-              );
-              if (error.response?.status === 404) {
-                throw new NotFoundException(
-                  `Album with ID ${cleanExternalId} not found in Spotify`,
-                );
-              }
-              throw new InternalServerErrorException(
-                'Failed to get album details from Spotify API',
-              );
-            }),
-          ),
+      const album = await this.spotifyGet(
+        `/albums/${cleanExternalId}`,
+        'Failed to get album details from Spotify API',
+        {
+          notFoundMessage: `Album with ID ${cleanExternalId} not found in Spotify`,
+        },
       );
 
-      const album = response.data;
       if (!album || !album.id) {
         this.logger.error('Invalid album data returned from Spotify API');
         throw new InternalServerErrorException(
@@ -270,19 +261,7 @@ export class MusicApiService {
         );
       }
 
-      return {
-        externalId: album.id,
-        title: album.name,
-        releaseDate: album.release_date,
-        coverUrl: album.images?.[0]?.url,
-        artistName: album.artists[0]?.name,
-        artistExternalId: album.artists[0]?.id,
-        tracks: album.tracks?.items?.map((track) => ({
-          name: track.name,
-          duration: track.duration_ms,
-          trackNumber: track.track_number,
-        })),
-      };
+      return this.mapAlbumDetails(album);
     } catch (error) {
       this.logger.error('Error in getAlbumDetails', error);
 
@@ -305,39 +284,14 @@ export class MusicApiService {
             try {
               // Certains IDs peuvent avoir besoin d'être traités différemment
               // Par exemple, essayer un format différent de l'URL
-              const alternativeUrl = `${this.baseUrl}/albums/${encodeURIComponent(externalId)}`;
-
-              // Obtenir un nouveau token au cas où
-              const altToken = await this.getAccessToken();
-
-              const altResponse = await firstValueFrom(
-                this.httpService
-                  .get(alternativeUrl, {
-                    headers: { Authorization: `Bearer ${altToken}` },
-                  })
-                  .pipe(
-                    catchError(() => {
-                      // Si ça ne fonctionne pas, on ignore simplement cette tentative
-                      throw error;
-                    }),
-                  ),
+              // Si ça ne fonctionne pas, on ignore simplement cette tentative
+              const altAlbum = await this.spotifyGet(
+                `/albums/${encodeURIComponent(externalId)}`,
+                'Failed to get album details from Spotify API',
               );
 
               // Si nous arrivons ici, la requête alternative a fonctionné
-              const altAlbum = altResponse.data;
-              return {
-                externalId: altAlbum.id,
-                title: altAlbum.name,
-                releaseDate: altAlbum.release_date,
-                coverUrl: altAlbum.images?.[0]?.url,
-                artistName: altAlbum.artists[0]?.name,
-                artistExternalId: altAlbum.artists[0]?.id,
-                tracks: altAlbum.tracks?.items?.map((track) => ({
-                  name: track.name,
-                  duration: track.duration_ms,
-                  trackNumber: track.track_number,
-                })),
-              };
+              return this.mapAlbumDetails(altAlbum);
             } catch (altError) {
               // Si l'approche alternative échoue aussi, on continue avec l'erreur originale
             }
@@ -362,26 +316,28 @@ export class MusicApiService {
   }
 
   // Obtenir les détails d'un artiste par son ID externe
-  async getArtistDetails(externalId: string): Promise<any> {
+  async getArtistDetails(
+    externalId: string,
+    options: CatalogRequestOptions = {},
+  ): Promise<any> {
+    return this.cacheService.wrap(
+      'artist-details',
+      { id: externalId },
+      () => this.fetchArtistDetails(externalId),
+      options,
+    );
+  }
+
+  private async fetchArtistDetails(externalId: string): Promise<any> {
     try {
-      const token = await this.getAccessToken();
-      const response = await firstValueFrom(
-        this.httpService
-          .get(`${this.baseUrl}/artists/${externalId}`, {
-            headers: { Authorization: `Bearer ${token}` },
-          })
-          .pipe(
-            catchError((error: AxiosError) => {
-              this.logger.error(
-                'Error getting artist details',
-                error.response?.data,
-              );
-              throw new Error('Failed to get artist details');
-            }),
-          ),
+      const artist = await this.spotifyGet(
+        `/artists/${externalId}`,
+        'Failed to get artist details',
+        {
+          notFoundMessage: `Artist with ID ${externalId} not found in Spotify`,
+        },
       );
 
-      const artist = response.data;
       return {
         externalId: artist.id,
         name: artist.name,
@@ -398,21 +354,8 @@ export class MusicApiService {
   // Tester si un ID d'album est valide directement avec Spotify
   async testAlbumId(albumId: string): Promise<boolean> {
     try {
-      const token = await this.getAccessToken();
-
-      // Effectuer un test en utilisant GET avec la méthode silencieuse
-      await firstValueFrom(
-        this.httpService
-          .get(`${this.baseUrl}/albums/${albumId}`, {
-            headers: { Authorization: `Bearer ${token}` },
-          })
-          .pipe(
-            catchError((error: AxiosError) => {
-              // Si on reçoit une erreur, l'ID n'est pas valide
-              throw new Error(`Album ID test failed: ${error.message}`);
-            }),
-          ),
-      );
+      // Effectuer un test en utilisant GET : toute erreur signifie que l'ID n'est pas valide
+      await this.spotifyGet(`/albums/${albumId}`, 'Album ID test failed');
 
       // Si on arrive ici sans erreur, l'ID est valide
       return true;
@@ -423,39 +366,93 @@ export class MusicApiService {
   }
 
   // Obtenir les albums d'un artiste
-  async getArtistAlbums(artistExternalId: string, limit = 50): Promise<any> {
+  // Une page de la discographie (50 albums au maximum par requête Spotify)
+  async getArtistAlbums(
+    artistExternalId: string,
+    limit = 50,
+    offset = 0,
+    options: CatalogRequestOptions = {},
+  ): Promise<any> {
+    return this.cacheService.wrap(
+      'artist-albums',
+      { id: artistExternalId, limit, offset },
+      () => this.fetchArtistAlbums(artistExternalId, limit, offset),
+      options,
+    );
+  }
+
+  private async fetchArtistAlbums(
+    artistExternalId: string,
+    limit: number,
+    offset: number,
+  ): Promise<any> {
     try {
-      const token = await this.getAccessToken();
-      const response = await firstValueFrom(
-        this.httpService
-          .get(`${this.baseUrl}/artists/${artistExternalId}/albums`, {
-            headers: { Authorization: `Bearer ${token}` },
-            params: {
-              include_groups: 'album,single',
-              limit,
-            },
-          })
-          .pipe(
-            catchError((error: AxiosError) => {
-              this.logger.error(
-                'Error getting artist albums',
-                error.response?.data,
-              );
-              throw new Error('Failed to get artist albums');
-            }),
-          ),
+      const data = await this.spotifyGet(
+        `/artists/${artistExternalId}/albums`,
+        'Failed to get artist albums',
+        {
+          params: {
+            include_groups: 'album,single',
+            limit,
+            offset,
+          },
+        },
       );
 
-      return response.data.items.map((album) => ({
+      return data.items.map((album) => ({
         externalId: album.id,
         title: album.name,
         releaseDate: album.release_date,
+        releaseDatePrecision: album.release_date_precision,
         coverUrl: album.images?.[0]?.url,
-        albumType: album.album_type,
+        artists: this.mapAlbumArtists(album.artists),
+        albumType:
+          classifyAlbum(
+            album.album_type,
+            album.total_tracks,
+            this.classificationPolicy,
+          ) ?? undefined,
+        totalTracks: album.total_tracks || null,
       }));
     } catch (error) {
       this.logger.error('Error in getArtistAlbums', error);
       throw error;
     }
   }
+
+  // Album complet (GET /albums/{id}), classé selon la politique de classification
+  private mapAlbumDetails(album): CatalogAlbumDetails {
+    return {
+      externalId: album.id,
+      title: album.name,
+      releaseDate: album.release_date,
+      releaseDatePrecision: album.release_date_precision,
+      coverUrl: album.images?.[0]?.url,
+      artistName: album.artists[0]?.name,
+      artistExternalId: album.artists[0]?.id,
+      artists: this.mapAlbumArtists(album.artists),
+      albumType:
+        classifyAlbum(
+          album.album_type,
+          album.total_tracks,
+          this.classificationPolicy,
+        ) ?? undefined,
+      totalTracks: album.total_tracks ?? null,
+      label: album.label || undefined,
+      tracks: album.tracks?.items?.map((track) => ({
+        name: track.name,
+        duration: track.duration_ms,
+        discNumber: track.disc_number,
+        trackNumber: track.track_number,
+      })),
+    };
+  }
+
+  // Spotify ne crédite au niveau de l'album que ses artistes principaux
+  private mapAlbumArtists(artists: any[] = []): CatalogAlbumArtist[] {
+    return artists.map((artist) => ({
+      externalId: artist.id,
+      name: artist.name,
+    }));
+  }
 }
@@ -0,0 +1,88 @@
+import type { CatalogAlbumType } from './album-classification';
+
+// Contrat commun à tous les catalogues musicaux (Spotify, MusicBrainz, mock...)
+// Les identifiants externes ne sont uniques qu'au sein d'un même catalogue :
+// ils sont toujours stockés avec le nom du fournisseur (providerName)
+
+export interface CatalogArtist {
+  externalId: string;
+  name: string;
+  imageUrl?: string;
+}
+
+export interface CatalogArtistDetails extends CatalogArtist {
+  popularity?: number;
+  genres?: string[];
+}
+
+// Artiste crédité sur un album ; featured pour les invités ("feat.")
+export interface CatalogAlbumArtist extends CatalogArtist {
+  featured?: boolean;
+}
+
+export interface CatalogAlbum {
+  externalId: string;
+  title: string;
+  releaseDate?: string;
+  coverUrl?: string;
+  // Artiste principal (premier crédité)
+  artistName?: string;
+  artistExternalId?: string;
+  // Tous les artistes crédités, dans l'ordre du catalogue
+  artists?: CatalogAlbumArtist[];
+  // Type après classification (voir album-classification)
+  albumType?: CatalogAlbumType;
+  totalTracks?: number | null;
+  label?: string;
+  // Précision de releaseDate ("1973", "1973-03" ou "1973-03-01")
+  releaseDatePrecision?: 'year' | 'month' | 'day';
+}
+
+export interface CatalogTrack {
+  name: string;
+  duration: number;
+  // Numérotation par disque (1 si le catalogue ne la fournit pas)
+  discNumber?: number;
+  trackNumber: number;
+}
+
+export interface CatalogAlbumDetails extends CatalogAlbum {
+  // Toujours renseigné : l'artiste est créé en base avec l'album
+  artistExternalId: string;
+  tracks?: CatalogTrack[];
+}
+
+// Options de lecture : fresh ignore le cache (la réponse obtenue le remplace),
+// pour les synchronisations qui doivent voir l'état actuel du catalogue
+export interface CatalogRequestOptions {
+  fresh?: boolean;
+}
+
+export interface MusicCatalogProvider {
+  // Valeur enregistrée dans la colonne provider des artistes et albums
+  readonly providerName: string;
+
+  searchArtists(query: string, limit?: number): Promise<CatalogArtist[]>;
+  searchAlbums(
+    query: string,
+    limit?: number,
+    offset?: number,
+  ): Promise<CatalogAlbum[]>;
+  getAlbumDetails(
+    externalId: string,
+    options?: CatalogRequestOptions,
+  ): Promise<CatalogAlbumDetails>;
+  getArtistDetails(
+    externalId: string,
+    options?: CatalogRequestOptions,
+  ): Promise<CatalogArtistDetails>;
+  getArtistAlbums(
+    artistExternalId: string,
+    limit?: number,
+    offset?: number,
+    options?: CatalogRequestOptions,
+  ): Promise<CatalogAlbum[]>;
+  testAlbumId(externalId: string): Promise<boolean>;
+}
+
+export const MUSIC_CATALOG_PROVIDER = Symbol('MUSIC_CATALOG_PROVIDER');
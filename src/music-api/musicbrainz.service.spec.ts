@@ -0,0 +1,280 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadGatewayException,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { AxiosError } from 'axios';
+import { of, throwError } from 'rxjs';
+import { MusicBrainzService } from './musicbrainz.service';
+import { MusicApiCacheService } from './cache/music-api-cache.service';
+
+describe('MusicBrainzService', () => {
+  let service: MusicBrainzService;
+
+  const mockHttpService = {
+    get: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: any) => defaultValue),
+  };
+
+  // Le cache est transparent dans ces tests
+  const mockCacheService = {
+    wrap: jest.fn((endpoint, params, fetcher: () => Promise<any>) => fetcher()),
+  };
+
+  const releaseGroup = {
+    id: 'rg-1',
+    title: 'OK Computer',
+    'first-release-date': '1997-05-21',
+    'primary-type': 'Album',
+    'artist-credit': [
+      { name: 'Radiohead', artist: { id: 'a-1', name: 'Radiohead' } },
+    ],
+  };
+
+  const axiosError = (status: number) =>
+    new AxiosError(
+      `Request failed with status ${status}`,
+      'ERR_BAD_RESPONSE',
+      undefined,
+      undefined,
+      { status, headers: {}, data: {}, statusText: '', config: {} } as any,
+    );
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MusicBrainzService,
+        {
+          provide: HttpService,
+          useValue: mockHttpService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: MusicApiCacheService,
+          useValue: mockCacheService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<MusicBrainzService>(MusicBrainzService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+    expect(service.providerName).toBe('musicbrainz');
+  });
+
+  describe('searchAlbums', () => {
+    it('should query release groups and map them to catalog albums', async () => {
+      mockHttpService.get.mockReturnValue(
+        of({ data: { 'release-groups': [releaseGroup] } }),
+      );
+
+      const result = await service.searchAlbums('ok computer', 5, 10);
+
+      expect(mockHttpService.get).toHaveBeenCalledWith(
+        'https://musicbrainz.org/ws/2/release-group',
+        expect.objectContaining({
+          params: {
+            query:
+              '(ok computer) AND (primarytype:album OR primarytype:ep) AND NOT secondarytype:compilation',
+            limit: 5,
+            offset: 10,
+            fmt: 'json',
+          },
+        }),
+      );
+      expect(mockCacheService.wrap).toHaveBeenCalledWith(
+        'search-albums',
+        { provider: 'musicbrainz', q: 'ok computer', limit: 5, offset: 10 },
+        expect.any(Function),
+      );
+      expect(result).toEqual([
+        {
+          externalId: 'rg-1',
+          title: 'OK Computer',
+          releaseDate: '1997-05-21',
+          releaseDatePrecision: 'day',
+          coverUrl: 'https://coverartarchive.org/release-group/rg-1/front-500',
+          artistName: 'Radiohead',
+          artistExternalId: 'a-1',
+          artists: [{ externalId: 'a-1', name: 'Radiohead' }],
+          albumType: 'album',
+          totalTracks: null,
+        },
+      ]);
+    });
+
+    it('should credit every artist and flag featured ones', async () => {
+      mockHttpService.get.mockReturnValue(
+        of({
+          data: {
+            'release-groups': [
+              {
+                ...releaseGroup,
+                'artist-credit': [
+                  {
+                    name: 'Jay-Z',
+                    joinphrase: ' & ',
+                    artist: { id: 'a-2', name: 'Jay-Z' },
+                  },
+                  {
+                    name: 'Kanye West',
+                    joinphrase: ' feat. ',
+                    artist: { id: 'a-3', name: 'Kanye West' },
+                  },
+                  {
+                    name: 'Frank Ocean',
+                    artist: { id: 'a-4', name: 'Frank Ocean' },
+                  },
+                ],
+              },
+            ],
+          },
+        }),
+      );
+
+      const [album] = await service.searchAlbums('watch the throne');
+
+      expect(album.artistExternalId).toBe('a-2');
+      expect(album.artists).toEqual([
+        { externalId: 'a-2', name: 'Jay-Z' },
+        { externalId: 'a-3', name: 'Kanye West' },
+        { externalId: 'a-4', name: 'Frank Ocean', featured: true },
+      ]);
+    });
+
+    it('should keep singles as singles when the track count is unknown', async () => {
+      mockHttpService.get.mockReturnValue(
+        of({
+          data: {
+            'release-groups': [{ ...releaseGroup, 'primary-type': 'Single' }],
+          },
+        }),
+      );
+
+      const [album] = await service.searchAlbums('creep');
+
+      expect(album.albumType).toBe('single');
+    });
+
+    it('should throw ServiceUnavailableException when rate limited', async () => {
+      mockHttpService.get.mockReturnValue(throwError(() => axiosError(503)));
+
+      await expect(service.searchAlbums('test')).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+    });
+  });
+
+  describe('getAlbumDetails', () => {
+    it('should load tracks from the first release of the group', async () => {
+      mockHttpService.get
+        .mockReturnValueOnce(
+          of({ data: { ...releaseGroup, releases: [{ id: 'rel-1' }] } }),
+        )
+        .mockReturnValueOnce(
+          of({
+            data: {
+              media: [
+                { tracks: [{ title: 'Airbag', length: 284000 }] },
+                { tracks: [{ title: 'Paranoid Android', length: 383000 }] },
+              ],
+            },
+          }),
+        );
+
+      const result = await service.getAlbumDetails(' rg-1 ');
+
+      expect(mockHttpService.get).toHaveBeenNthCalledWith(
+        2,
+        'https://musicbrainz.org/ws/2/release/rel-1',
+        expect.objectContaining({
+          params: { inc: 'recordings+labels', fmt: 'json' },
+        }),
+      );
+      expect(result.totalTracks).toBe(2);
+      expect(result.tracks).toEqual([
+        { name: 'Airbag', duration: 284000, trackNumber: 1 },
+        { name: 'Paranoid Android', duration: 383000, trackNumber: 2 },
+      ]);
+    });
+
+    it('should classify the release group and map its label', async () => {
+      mockHttpService.get
+        .mockReturnValueOnce(
+          of({
+            data: {
+              ...releaseGroup,
+              'primary-type': 'Single',
+              releases: [{ id: 'rel-1' }],
+            },
+          }),
+        )
+        .mockReturnValueOnce(
+          of({
+            data: {
+              'label-info': [{ label: { name: 'Parlophone' } }],
+              media: [{ tracks: [{ title: 'Creep', length: 238000 }] }],
+            },
+          }),
+        );
+
+      const result = await service.getAlbumDetails('rg-1');
+
+      // Un single d'une seule piste reste un single
+      expect(result.albumType).toBe('single');
+      expect(result.label).toBe('Parlophone');
+    });
+
+    it('should throw NotFoundException when the release group does not exist', async () => {
+      mockHttpService.get.mockReturnValue(throwError(() => axiosError(404)));
+
+      await expect(service.getAlbumDetails('unknown')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('getArtistDetails', () => {
+    it('should map genres', async () => {
+      mockHttpService.get.mockReturnValue(
+        of({
+          data: { id: 'a-1', name: 'Radiohead', genres: [{ name: 'rock' }] },
+        }),
+      );
+
+      const result = await service.getArtistDetails('a-1');
+
+      expect(result).toEqual({
+        externalId: 'a-1',
+        name: 'Radiohead',
+        imageUrl: undefined,
+        popularity: undefined,
+        genres: ['rock'],
+      });
+    });
+  });
+
+  describe('testAlbumId', () => {
+    it('should return false when the lookup fails', async () => {
+      mockHttpService.get.mockReturnValue(throwError(() => axiosError(500)));
+
+      await expect(service.testAlbumId('broken')).resolves.toBe(false);
+      await expect(service.getAlbumDetails('broken')).rejects.toThrow(
+        BadGatewayException,
+      );
+    });
+  });
+});
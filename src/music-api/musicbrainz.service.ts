@@ -0,0 +1,361 @@
+import {
+  BadGatewayException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { catchError, firstValueFrom } from 'rxjs';
+import { AxiosError } from 'axios';
+import { MusicApiCacheService } from './cache/music-api-cache.service';
+import {
+  CatalogAlbum,
+  CatalogAlbumArtist,
+  CatalogAlbumDetails,
+  CatalogArtist,
+  CatalogArtistDetails,
+  CatalogRequestOptions,
+  MusicCatalogProvider,
+} from './music-catalog-provider.interface';
+import {
+  AlbumClassificationPolicy,
+  classifyAlbum,
+  loadClassificationPolicy,
+  parseAlbumType,
+} from './album-classification';
+
+// Réponses JSON de MusicBrainz, limitées aux champs utilisés
+interface MusicBrainzArtist {
+  id: string;
+  name: string;
+  genres?: { name: string }[];
+}
+
+interface MusicBrainzArtistCredit {
+  // Nom sous lequel l'artiste est crédité
+  name: string;
+  joinphrase?: string;
+  artist?: { id?: string; name?: string };
+}
+
+interface MusicBrainzReleaseGroup {
+  id: string;
+  title: string;
+  'first-release-date'?: string;
+  'primary-type'?: string;
+  'secondary-types'?: string[];
+  'artist-credit'?: MusicBrainzArtistCredit[];
+  releases?: { id: string }[];
+}
+
+interface MusicBrainzRelease {
+  media?: { tracks?: { title: string; length: number }[] }[];
+  'label-info'?: { label?: { name?: string } }[];
+}
+
+// Adaptateur pour l'API MusicBrainz (https://musicbrainz.org/doc/MusicBrainz_API)
+// Les albums correspondent aux "release groups" MusicBrainz, les pochettes
+// proviennent du Cover Art Archive
+@Injectable()
+export class MusicBrainzService implements MusicCatalogProvider {
+  readonly providerName = 'musicbrainz';
+  private readonly logger = new Logger(MusicBrainzService.name);
+  private readonly baseUrl = 'https://musicbrainz.org/ws/2';
+  private readonly coverArtUrl = 'https://coverartarchive.org';
+  private readonly classificationPolicy: AlbumClassificationPolicy;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+    private readonly cacheService: MusicApiCacheService,
+  ) {
+    this.classificationPolicy = loadClassificationPolicy(configService);
+  }
+
+  // Effectuer un GET sur l'API MusicBrainz (format JSON)
+  private async musicBrainzGet<T>(
+    path: string,
+    errorMessage: string,
+    options: {
+      params?: Record<string, unknown>;
+      notFoundMessage?: string;
+    } = {},
+  ): Promise<T> {
+    const response = await firstValueFrom(
+      this.httpService
+        .get<T>(`${this.baseUrl}${path}`, {
+          headers: {
+            // MusicBrainz exige un User-Agent identifiant l'application
+            'User-Agent': this.configService.get<string>(
+              'MUSICBRAINZ_USER_AGENT',
+              'TuneARate/0.0.1 ( https://github.com/EnzoDelpy/tunerate-api )',
+            ),
+            Accept: 'application/json',
+          },
+          params: { ...options.params, fmt: 'json' },
+        })
+        .pipe(
+          catchError((error: AxiosError) => {
+            this.logger.error(errorMessage, error.response?.data);
+            if (error.response?.status === 404 && options.notFoundMessage) {
+              throw new NotFoundException(options.notFoundMessage);
+            }
+            // MusicBrainz répond 503 lorsque la limite de débit est dépassée
+            if (error.response?.status === 503) {
+              throw new ServiceUnavailableException(
+                'MusicBrainz is temporarily unavailable, please retry later',
+              );
+            }
+            throw new BadGatewayException(errorMessage);
+          }),
+        ),
+    );
+
+    return response.data;
+  }
+
+  async searchArtists(query: string, limit = 10): Promise<CatalogArtist[]> {
+    const data = await this.musicBrainzGet<{ artists: MusicBrainzArtist[] }>(
+      '/artist',
+      'Failed to search artists',
+      { params: { query, limit } },
+    );
+
+    return data.artists.map((artist) => ({
+      externalId: artist.id,
+      name: artist.name,
+      imageUrl: undefined,
+    }));
+  }
+
+  // Recherche d'albums : albums complets et EPs, ainsi que les singles
+  // et compilations si la politique de classification les inclut
+  async searchAlbums(
+    query: string,
+    limit = 10,
+    offset = 0,
+  ): Promise<CatalogAlbum[]> {
+    return this.cacheService.wrap(
+      'search-albums',
+      { provider: this.providerName, q: query, limit, offset },
+      async () => {
+        const data = await this.musicBrainzGet<{
+          'release-groups': MusicBrainzReleaseGroup[];
+        }>('/release-group', 'Failed to search albums', {
+          params: {
+            query: this.buildAlbumSearchQuery(query),
+            limit,
+            offset,
+          },
+        });
+
+        return data['release-groups'].map((group) =>
+          this.mapReleaseGroup(group),
+        );
+      },
+    );
+  }
+
+  async getAlbumDetails(
+    externalId: string,
+    options: CatalogRequestOptions = {},
+  ): Promise<CatalogAlbumDetails> {
+    return this.cacheService.wrap(
+      'album-details',
+      { provider: this.providerName, id: externalId.trim() },
+      async () => {
+        const cleanExternalId = externalId.trim();
+        const group = await this.musicBrainzGet<MusicBrainzReleaseGroup>(
+          `/release-group/${cleanExternalId}`,
+          'Failed to get album details from MusicBrainz API',
+          {
+            params: { inc: 'artist-credits+releases' },
+            notFoundMessage: `Album with ID ${cleanExternalId} not found in MusicBrainz`,
+          },
+        );
+
+        // Les pistes sont portées par les "releases" : utiliser la première édition
+        const releaseId = group.releases?.[0]?.id;
+        const release = releaseId
+          ? await this.musicBrainzGet<MusicBrainzRelease>(
+              `/release/${releaseId}`,
+              'Failed to get album tracks from MusicBrainz API',
+              { params: { inc: 'recordings+labels' } },
+            )
+          : null;
+
+        const tracks = (release?.media ?? [])
+          .flatMap((medium) => medium.tracks ?? [])
+          .map((track, index) => ({
+            name: track.title,
+            duration: track.length,
+            trackNumber: index + 1,
+          }));
+
+        const album = this.mapReleaseGroup(group);
+        if (!album.artistExternalId) {
+          this.logger.error('Release group returned without artist credit');
+          throw new InternalServerErrorException(
+            'Invalid album data received from MusicBrainz',
+          );
+        }
+
+        // Le nombre de pistes, connu ici, permet de distinguer singles et EP
+        return {
+          ...album,
+          artistExternalId: album.artistExternalId,
+          albumType:
+            classifyAlbum(
+              this.releaseGroupType(group),
+              tracks.length || null,
+              this.classificationPolicy,
+            ) ?? undefined,
+          totalTracks: tracks.length || null,
+          label: release?.['label-info']?.[0]?.label?.name,
+          tracks,
+        };
+      },
+      options,
+    );
+  }
+
+  async getArtistDetails(
+    externalId: string,
+    options: CatalogRequestOptions = {},
+  ): Promise<CatalogArtistDetails> {
+    return this.cacheService.wrap(
+      'artist-details',
+      { provider: this.providerName, id: externalId },
+      async () => {
+        const artist = await this.musicBrainzGet<MusicBrainzArtist>(
+          `/artist/${externalId}`,
+          'Failed to get artist details',
+          {
+            params: { inc: 'genres' },
+            notFoundMessage: `Artist with ID ${externalId} not found in MusicBrainz`,
+          },
+        );
+
+        return {
+          externalId: artist.id,
+          name: artist.name,
+          imageUrl: undefined,
+          popularity: undefined,
+          genres: (artist.genres ?? []).map((genre) => genre.name),
+        };
+      },
+      options,
+    );
+  }
+
+  async getArtistAlbums(
+    artistExternalId: string,
+    limit = 50,
+    offset = 0,
+    options: CatalogRequestOptions = {},
+  ): Promise<CatalogAlbum[]> {
+    return this.cacheService.wrap(
+      'artist-albums',
+      { provider: this.providerName, id: artistExternalId, limit, offset },
+      async () => {
+        const data = await this.musicBrainzGet<{
+          'release-groups': MusicBrainzReleaseGroup[];
+        }>('/release-group', 'Failed to get artist albums', {
+          params: {
+            artist: artistExternalId,
+            type: 'album|ep|single',
+            inc: 'artist-credits',
+            limit,
+            offset,
+          },
+        });
+
+        return data['release-groups'].map((group) =>
+          this.mapReleaseGroup(group),
+        );
+      },
+      options,
+    );
+  }
+
+  async testAlbumId(albumId: string): Promise<boolean> {
+    try {
+      await this.getAlbumDetails(albumId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private buildAlbumSearchQuery(query: string): string {
+    const types = ['album', 'ep'];
+    if (this.classificationPolicy.includeSingles) {
+      types.push('single');
+    }
+
+    const typeFilter = types.map((type) => `primarytype:${type}`).join(' OR ');
+    const compilationFilter = this.classificationPolicy.includeCompilations
+      ? ''
+      : ' AND NOT secondarytype:compilation';
+
+    return `(${query}) AND (${typeFilter})${compilationFilter}`;
+  }
+
+  private mapReleaseGroup(group: MusicBrainzReleaseGroup): CatalogAlbum {
+    const credit = group['artist-credit']?.[0];
+    const releaseDate: string | undefined =
+      group['first-release-date'] || undefined;
+
+    return {
+      externalId: group.id,
+      title: group.title,
+      releaseDate,
+      // "1997", "1997-05" ou "1997-05-21"
+      releaseDatePrecision: releaseDate
+        ? (['year', 'month', 'day'] as const)[releaseDate.split('-').length - 1]
+        : undefined,
+      coverUrl: `${this.coverArtUrl}/release-group/${group.id}/front-500`,
+      artistName: credit?.artist?.name ?? credit?.name,
+      artistExternalId: credit?.artist?.id,
+      artists: this.mapArtistCredits(group['artist-credit']),
+      // Nombre de pistes inconnu dans les listes : MusicBrainz distingue déjà
+      // singles et EP, son type est donc repris tel quel
+      albumType: parseAlbumType(this.releaseGroupType(group)) ?? undefined,
+      totalTracks: null,
+    };
+  }
+
+  // Les compilations sont un type secondaire MusicBrainz ("Album" + "Compilation")
+  private releaseGroupType(group: MusicBrainzReleaseGroup): string | undefined {
+    return group['secondary-types']?.includes('Compilation')
+      ? 'compilation'
+      : group['primary-type'];
+  }
+
+  // Les crédits MusicBrainz sont reliés par des "joinphrase" (" & ", " feat. ")
+  // Les artistes qui suivent un "feat." sont des invités
+  private mapArtistCredits(
+    credits: MusicBrainzArtistCredit[] = [],
+  ): CatalogAlbumArtist[] {
+    const artists: CatalogAlbumArtist[] = [];
+    let featured = false;
+
+    for (const credit of credits) {
+      if (credit.artist?.id) {
+        artists.push({
+          externalId: credit.artist.id,
+          name: credit.artist.name ?? credit.name,
+          ...(featured && { featured }),
+        });
+      }
+      if (/\b(feat|ft)\b/i.test(credit.joinphrase ?? '')) {
+        featured = true;
+      }
+    }
+
+    return artists;
+  }
+}
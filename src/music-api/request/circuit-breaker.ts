@@ -0,0 +1,75 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Disjoncteur simple : après `failureThreshold` échecs consécutifs, le circuit
+// s'ouvre et les appels échouent immédiatement pendant `resetTimeoutMs`.
+// Un appel d'essai est ensuite autorisé (half-open) pour tester le rétablissement.
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInProgress = false;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number,
+  ) {}
+
+  // Indique si un appel peut être tenté maintenant
+  canRequest(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.resetTimeoutMs) {
+        return false;
+      }
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInProgress) {
+        return false;
+      }
+      this.trialInProgress = true;
+    }
+
+    return true;
+  }
+
+  recordSuccess() {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInProgress = false;
+  }
+
+  recordFailure() {
+    this.consecutiveFailures++;
+    this.trialInProgress = false;
+
+    if (
+      this.state === 'half-open' ||
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  // Libérer l'appel d'essai sans conclure sur l'état de Spotify
+  releaseTrial() {
+    this.trialInProgress = false;
+  }
+
+  // Délai restant (en ms) avant qu'un appel d'essai soit autorisé
+  getRetryAfterMs(): number {
+    if (this.state !== 'open') {
+      return 0;
+    }
+    return Math.max(0, this.openedAt + this.resetTimeoutMs - Date.now());
+  }
+
+  getSnapshot() {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      retryAfterMs: this.getRetryAfterMs(),
+    };
+  }
+}
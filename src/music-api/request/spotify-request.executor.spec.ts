@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { ServiceUnavailableException } from '@nestjs/common';
+import { AxiosError } from 'axios';
+import { of, throwError } from 'rxjs';
+import { SpotifyRequestExecutor } from './spotify-request.executor';
+
+describe('SpotifyRequestExecutor', () => {
+  let executor: SpotifyRequestExecutor;
+  let sleepSpy: jest.SpyInstance;
+
+  const config = {
+    SPOTIFY_MAX_RETRIES: 2,
+    SPOTIFY_RETRY_BASE_DELAY_MS: 100,
+    SPOTIFY_RETRY_MAX_DELAY_MS: 5000,
+    SPOTIFY_CIRCUIT_FAILURE_THRESHOLD: 2,
+    SPOTIFY_CIRCUIT_RESET_MS: 30000,
+  };
+
+  const mockHttpService = {
+    get: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(
+      (key: string, defaultValue?: any) => config[key] ?? defaultValue,
+    ),
+  };
+
+  const getToken = jest.fn().mockResolvedValue('token');
+
+  const axiosError = (status?: number, headers: Record<string, string> = {}) =>
+    new AxiosError(
+      `Request failed with status ${status}`,
+      'ERR_BAD_RESPONSE',
+      undefined,
+      undefined,
+      status === undefined
+        ? undefined
+        : ({ status, headers, data: {}, statusText: '', config: {} } as any),
+    );
+
+  const options = { operation: 'Test request', getToken };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SpotifyRequestExecutor,
+        {
+          provide: HttpService,
+          useValue: mockHttpService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+      ],
+    }).compile();
+
+    executor = module.get<SpotifyRequestExecutor>(SpotifyRequestExecutor);
+    sleepSpy = jest
+      .spyOn(executor as any, 'sleep')
+      .mockResolvedValue(undefined);
+  });
+
+  it('should be defined', () => {
+    expect(executor).toBeDefined();
+  });
+
+  it('should return the response data on success', async () => {
+    mockHttpService.get.mockReturnValue(of({ data: { id: 'album1' } }));
+
+    const result = await executor.get('https://api/albums/1', {
+      ...options,
+      params: { market: 'FR' },
+    });
+
+    expect(result).toEqual({ id: 'album1' });
+    expect(mockHttpService.get).toHaveBeenCalledWith('https://api/albums/1', {
+      headers: { Authorization: 'Bearer token' },
+      params: { market: 'FR' },
+    });
+    expect(getToken).toHaveBeenCalledWith(false);
+  });
+
+  it('should retry 5xx responses with backoff', async () => {
+    mockHttpService.get
+      .mockReturnValueOnce(throwError(() => axiosError(502)))
+      .mockReturnValueOnce(of({ data: 'ok' }));
+
+    await expect(executor.get('https://api/x', options)).resolves.toBe('ok');
+    expect(mockHttpService.get).toHaveBeenCalledTimes(2);
+    expect(sleepSpy).toHaveBeenCalledTimes(1);
+    expect(sleepSpy.mock.calls[0][0]).toBeLessThanOrEqual(100);
+  });
+
+  it('should honour the Retry-After header on 429 responses', async () => {
+    mockHttpService.get
+      .mockReturnValueOnce(
+        throwError(() => axiosError(429, { 'retry-after': '2' })),
+      )
+      .mockReturnValueOnce(of({ data: 'ok' }));
+
+    await expect(executor.get('https://api/x', options)).resolves.toBe('ok');
+    expect(sleepSpy).toHaveBeenCalledWith(2000);
+  });
+
+  it('should fail fast with a 503 when Retry-After exceeds the maximum delay', async () => {
+    mockHttpService.get.mockReturnValue(
+      throwError(() => axiosError(429, { 'retry-after': '60' })),
+    );
+
+    await expect(executor.get('https://api/x', options)).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+    expect(mockHttpService.get).toHaveBeenCalledTimes(1);
+    expect(sleepSpy).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to backoff when Retry-After is empty', async () => {
+    const randomSpy = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    mockHttpService.get
+      .mockReturnValueOnce(
+        throwError(() => axiosError(429, { 'retry-after': '' })),
+      )
+      .mockReturnValueOnce(of({ data: 'ok' }));
+
+    await expect(executor.get('https://api/x', options)).resolves.toBe('ok');
+    expect(sleepSpy).toHaveBeenCalledWith(50);
+    randomSpy.mockRestore();
+  });
+
+  it('should not open the circuit on rate limiting', async () => {
+    mockHttpService.get.mockReturnValue(
+      throwError(() => axiosError(429, { 'retry-after': '60' })),
+    );
+
+    for (let i = 0; i < 3; i++) {
+      await expect(executor.get('https://api/x', options)).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+    }
+    expect(executor.getCircuitState()).toMatchObject({
+      state: 'closed',
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('should refresh the token once on 401', async () => {
+    mockHttpService.get
+      .mockReturnValueOnce(throwError(() => axiosError(401)))
+      .mockReturnValueOnce(of({ data: 'ok' }));
+
+    await expect(executor.get('https://api/x', options)).resolves.toBe('ok');
+    expect(getToken).toHaveBeenNthCalledWith(1, false);
+    expect(getToken).toHaveBeenNthCalledWith(2, true);
+    expect(sleepSpy).not.toHaveBeenCalled();
+  });
+
+  it('should not retry client errors', async () => {
+    const notFound = axiosError(404);
+    mockHttpService.get.mockReturnValue(throwError(() => notFound));
+
+    await expect(executor.get('https://api/x', options)).rejects.toBe(notFound);
+    expect(mockHttpService.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw a 503 once retries are exhausted', async () => {
+    mockHttpService.get.mockReturnValue(throwError(() => axiosError(503)));
+
+    await expect(executor.get('https://api/x', options)).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+    // 1 tentative initiale + 2 nouvelles tentatives
+    expect(mockHttpService.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should open the circuit after repeated failures and fail fast', async () => {
+    mockHttpService.get.mockReturnValue(throwError(() => axiosError()));
+
+    await expect(executor.get('https://api/x', options)).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+    await expect(executor.get('https://api/x', options)).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+    expect(executor.getCircuitState().state).toBe('open');
+
+    mockHttpService.get.mockClear();
+    await expect(executor.get('https://api/x', options)).rejects.toThrow(
+      ServiceUnavailableException,
+    );
+    expect(mockHttpService.get).not.toHaveBeenCalled();
+  });
+});
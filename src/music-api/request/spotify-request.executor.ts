@@ -0,0 +1,161 @@
+import {
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import { firstValueFrom } from 'rxjs';
+import { AxiosError } from 'axios';
+import { CircuitBreaker } from './circuit-breaker';
+
+export interface SpotifyRequestOptions {
+  // Nom de l'opération, utilisé dans les logs
+  operation: string;
+  params?: Record<string, unknown>;
+  // Fournit le token d'accès (forceRefresh = true après une réponse 401)
+  getToken: (forceRefresh: boolean) => Promise<string>;
+}
+
+// Exécute les requêtes GET vers Spotify avec :
+// - respect de l'en-tête Retry-After sur les réponses 429
+// - nouvelles tentatives avec backoff exponentiel et jitter sur 429 / 5xx / erreurs réseau
+// - renouvellement du token sur 401
+// - disjoncteur qui renvoie immédiatement une 503 tant que Spotify est dégradé
+@Injectable()
+export class SpotifyRequestExecutor {
+  private readonly logger = new Logger(SpotifyRequestExecutor.name);
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxRetries = Number(this.configService.get('SPOTIFY_MAX_RETRIES', 3));
+    this.baseDelayMs = Number(
+      this.configService.get('SPOTIFY_RETRY_BASE_DELAY_MS', 300),
+    );
+    this.maxDelayMs = Number(
+      this.configService.get('SPOTIFY_RETRY_MAX_DELAY_MS', 10000),
+    );
+    this.circuitBreaker = new CircuitBreaker(
+      Number(this.configService.get('SPOTIFY_CIRCUIT_FAILURE_THRESHOLD', 5)),
+      Number(this.configService.get('SPOTIFY_CIRCUIT_RESET_MS', 30000)),
+    );
+  }
+
+  // Les erreurs non récupérables (404, 400, ...) sont propagées telles quelles
+  // (AxiosError) pour que l'appelant puisse les traduire
+  async get<T = any>(url: string, options: SpotifyRequestOptions): Promise<T> {
+    if (!this.circuitBreaker.canRequest()) {
+      throw this.unavailable(this.circuitBreaker.getRetryAfterMs());
+    }
+
+    let forceTokenRefresh = false;
+    let tokenRefreshed = false;
+    let attempt = 0;
+
+    while (true) {
+      try {
+        const token = await options.getToken(forceTokenRefresh);
+        const response = await firstValueFrom(
+          this.httpService.get<T>(url, {
+            headers: { Authorization: `Bearer ${token}` },
+            params: options.params,
+          }),
+        );
+
+        this.circuitBreaker.recordSuccess();
+        return response.data;
+      } catch (error) {
+        if (!(error instanceof AxiosError)) {
+          // Erreur hors HTTP (ex: identifiants Spotify absents)
+          this.circuitBreaker.releaseTrial();
+          throw error;
+        }
+
+        const status = error.response?.status;
+
+        // Token expiré ou révoqué : le renouveler une seule fois
+        if (status === 401 && !tokenRefreshed) {
+          this.logger.warn(`${options.operation}: token rejected, refreshing`);
+          forceTokenRefresh = true;
+          tokenRefreshed = true;
+          continue;
+        }
+
+        if (!this.isRetryable(error)) {
+          // Spotify a répondu normalement : ce n'est pas une panne
+          this.circuitBreaker.recordSuccess();
+          throw error;
+        }
+
+        const delayMs = this.getRetryDelay(error, attempt);
+        if (attempt >= this.maxRetries || delayMs > this.maxDelayMs) {
+          this.logger.error(
+            `${options.operation}: giving up after ${attempt + 1} attempt(s) (status ${status ?? 'network error'})`,
+          );
+          if (status === 429) {
+            // Limitation de débit : Spotify répond, ce n'est pas une panne
+            this.circuitBreaker.releaseTrial();
+            throw this.unavailable(delayMs);
+          }
+          this.circuitBreaker.recordFailure();
+          throw this.unavailable(0);
+        }
+
+        this.logger.warn(
+          `${options.operation}: attempt ${attempt + 1} failed (status ${status ?? 'network error'}), retrying in ${delayMs}ms`,
+        );
+        attempt++;
+        await this.sleep(delayMs);
+      }
+    }
+  }
+
+  getCircuitState() {
+    return this.circuitBreaker.getSnapshot();
+  }
+
+  private isRetryable(error: AxiosError): boolean {
+    const status = error.response?.status;
+    return status === undefined || status === 429 || status >= 500;
+  }
+
+  private getRetryDelay(error: AxiosError, attempt: number): number {
+    // Retry-After est exprimé en secondes par Spotify ; un en-tête absent,
+    // vide ou invalide retombe sur le backoff
+    const header: unknown = error.response?.headers?.['retry-after'];
+    const retryAfter =
+      typeof header === 'string' && header.trim() !== '' ? Number(header) : NaN;
+    if (
+      error.response?.status === 429 &&
+      Number.isFinite(retryAfter) &&
+      retryAfter >= 0
+    ) {
+      return retryAfter * 1000;
+    }
+
+    // Backoff exponentiel avec "full jitter"
+    const exponentialDelay = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** attempt,
+    );
+    return Math.round(Math.random() * exponentialDelay);
+  }
+
+  private unavailable(retryAfterMs: number) {
+    return new ServiceUnavailableException({
+      statusCode: 503,
+      message: 'Spotify is temporarily unavailable, please retry later',
+      retryAfter: Math.ceil(retryAfterMs / 1000),
+    });
+  }
+
+  private sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,31 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from './app.module';
+import { AlbumRatingsService } from './albums/album-ratings.service';
+
+// Commande de réparation : recalcule les agrégats de notes de tous les albums
+// (ou d'un seul album si son ID est passé en argument) à partir des critiques
+async function bootstrap() {
+  const app = await NestFactory.createApplicationContext(AppModule);
+  const albumRatingsService = app.get(AlbumRatingsService);
+  const albumId = process.argv[2] ? Number(process.argv[2]) : undefined;
+
+  try {
+    if (albumId !== undefined) {
+      await albumRatingsService.recompute(albumId);
+      console.log(`Agrégats recalculés pour l'album ${albumId}`);
+    } else {
+      const count = await albumRatingsService.recomputeAll();
+      console.log(`Agrégats recalculés pour ${count} albums`);
+    }
+  } catch (error) {
+    console.error('Erreur lors du recalcul des agrégats :', error.message);
+    process.exitCode = 1;
+  }
+
+  await app.close();
+}
+
+bootstrap().catch((error) => {
+  console.error('Erreur lors du démarrage de la commande :', error);
+  process.exitCode = 1;
+});
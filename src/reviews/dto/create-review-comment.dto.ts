@@ -0,0 +1,34 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateReviewCommentDto {
+  @ApiProperty({
+    description: 'Contenu du commentaire',
+    example: "Tout à fait d'accord, la deuxième face est incroyable.",
+    maxLength: 2000,
+    type: String,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(2000)
+  content: string;
+
+  @ApiProperty({
+    description:
+      'ID du commentaire auquel on répond (absent pour un commentaire de premier niveau)',
+    example: 12,
+    required: false,
+    type: Number,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  parentId?: number;
+}
@@ -1,12 +1,21 @@
 import {
+  ArrayMaxSize,
+  IsArray,
   IsInt,
   IsNotEmpty,
   IsOptional,
   IsString,
-  Max,
-  Min,
+  ValidateNested,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { TrackRatingDto } from './track-rating.dto';
+import {
+  IsRating,
+  MAX_RATING,
+  MIN_RATING,
+  RATING_DESCRIPTION,
+} from '../../albums/rating-scale';
 
 export class CreateReviewDto {
   @ApiProperty({
@@ -19,16 +28,14 @@ export class CreateReviewDto {
   albumId: number;
 
   @ApiProperty({
-    description: "Note attribuée à l'album (entre 1 et 5)",
-    example: 4,
-    minimum: 1,
-    maximum: 5,
+    description: `${RATING_DESCRIPTION} attribuée à l'album`,
+    example: 8,
+    minimum: MIN_RATING,
+    maximum: MAX_RATING,
     type: Number,
   })
   @IsNotEmpty()
-  @IsInt()
-  @Min(1)
-  @Max(5)
+  @IsRating()
   rating: number;
 
   @ApiProperty({
@@ -40,4 +47,17 @@ export class CreateReviewDto {
   @IsOptional()
   @IsString()
   comment?: string;
+
+  @ApiProperty({
+    description:
+      "Notes facultatives des pistes marquantes de l'album (une note par piste)",
+    required: false,
+    type: [TrackRatingDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => TrackRatingDto)
+  trackRatings?: TrackRatingDto[];
 }
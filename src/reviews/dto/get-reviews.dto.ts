@@ -0,0 +1,96 @@
+import {
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import { PaginationQueryDto } from '../../common/pagination/pagination-query.dto';
+import { ReviewSort } from '../enums/review-sort.enum';
+import { IsRating } from '../../albums/rating-scale';
+
+export class GetReviewsDto extends PaginationQueryDto {
+  @ApiProperty({
+    description:
+      'Ordre de tri : plus récentes, plus anciennes, meilleures notes, moins bonnes notes ou plus aimées',
+    enum: ReviewSort,
+    required: false,
+    default: ReviewSort.Newest,
+  })
+  @IsOptional()
+  @IsEnum(ReviewSort)
+  sort?: ReviewSort = ReviewSort.Newest;
+
+  @ApiProperty({
+    description: 'Note minimale (incluse), de 1 à 10 en demi-étoiles',
+    example: 6,
+    required: false,
+  })
+  @IsOptional()
+  @IsRating()
+  @Type(() => Number)
+  minRating?: number;
+
+  @ApiProperty({
+    description: 'Note maximale (incluse), de 1 à 10 en demi-étoiles',
+    example: 10,
+    required: false,
+  })
+  @IsOptional()
+  @IsRating()
+  @Type(() => Number)
+  maxRating?: number;
+
+  @ApiProperty({
+    description: 'Critiques publiées à partir de cette date (incluse)',
+    example: '2026-01-01',
+    required: false,
+    type: String,
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  from?: Date;
+
+  @ApiProperty({
+    description: 'Critiques publiées avant cette date (exclue)',
+    example: '2027-01-01',
+    required: false,
+    type: String,
+    format: 'date-time',
+  })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  to?: Date;
+
+  @ApiProperty({
+    description:
+      'true : uniquement les critiques avec un commentaire ; false : uniquement les notes seules',
+    required: false,
+    type: Boolean,
+  })
+  @IsOptional()
+  @IsBoolean()
+  // Les paramètres de requête arrivent sous forme de chaînes
+  @Transform(({ value }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  hasComment?: boolean;
+
+  @ApiProperty({
+    description:
+      "Filtrer sur l'ID (interne) d'un artiste crédité sur l'album, quelle que soit sa position",
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  artistId?: number;
+}
@@ -0,0 +1,30 @@
+import { IsInt, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsRating,
+  MAX_RATING,
+  MIN_RATING,
+  RATING_DESCRIPTION,
+} from '../../albums/rating-scale';
+
+export class TrackRatingDto {
+  @ApiProperty({
+    description: "ID de la piste notée (doit appartenir à l'album critiqué)",
+    example: 3,
+    type: Number,
+  })
+  @IsNotEmpty()
+  @IsInt()
+  trackId: number;
+
+  @ApiProperty({
+    description: `${RATING_DESCRIPTION} attribuée à la piste`,
+    example: 9,
+    minimum: MIN_RATING,
+    maximum: MAX_RATING,
+    type: Number,
+  })
+  @IsNotEmpty()
+  @IsRating()
+  rating: number;
+}
@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateReviewCommentDto {
+  @ApiProperty({
+    description: 'Nouveau contenu du commentaire',
+    example: "Tout à fait d'accord, surtout la deuxième face.",
+    maxLength: 2000,
+    type: String,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(2000)
+  content: string;
+}
@@ -1,22 +1,32 @@
 import { PartialType } from '@nestjs/mapped-types';
 import { CreateReviewDto } from './create-review.dto';
 import {
-  IsInt,
+  ArrayMaxSize,
+  IsArray,
   IsNotEmpty,
   IsOptional,
   IsString,
-  Max,
-  Min,
+  ValidateNested,
 } from 'class-validator';
+import { Type } from 'class-transformer';
+import { TrackRatingDto } from './track-rating.dto';
+import { IsRating } from '../../albums/rating-scale';
 
 export class UpdateReviewDto {
+  // Même échelle qu'à la création (voir rating-scale)
   @IsOptional()
-  @IsInt()
-  @Min(1)
-  @Max(10)
+  @IsRating()
   rating?: number;
 
   @IsOptional()
   @IsString()
   comment?: string;
+
+  // Remplace l'ensemble des notes de pistes de la critique
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => TrackRatingDto)
+  trackRatings?: TrackRatingDto[];
 }
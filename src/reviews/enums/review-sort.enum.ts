@@ -0,0 +1,8 @@
+// Ordres de tri des listes de critiques
+export enum ReviewSort {
+  Newest = 'newest',
+  Oldest = 'oldest',
+  HighestRating = 'highest-rating',
+  LowestRating = 'lowest-rating',
+  MostLiked = 'most-liked',
+}
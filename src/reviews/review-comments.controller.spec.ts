@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext } from '@nestjs/common';
+import { ReviewCommentsController } from './review-comments.controller';
+import { ReviewCommentsService } from './review-comments.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { Role } from '../auth/enums/role.enum';
+
+describe('ReviewCommentsController', () => {
+  let controller: ReviewCommentsController;
+
+  const mockReviewCommentsService = {
+    findByReviewId: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    remove: jest.fn(),
+  };
+
+  const mockJwtAuthGuard = {
+    canActivate: jest.fn().mockImplementation((context: ExecutionContext) => {
+      const req = context.switchToHttp().getRequest();
+      req.user = { id: 2, username: 'fan', role: Role.User };
+      return true;
+    }),
+  };
+
+  const user = { id: 2, username: 'fan', role: Role.User };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ReviewCommentsController],
+      providers: [
+        {
+          provide: ReviewCommentsService,
+          useValue: mockReviewCommentsService,
+        },
+      ],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(mockJwtAuthGuard)
+      .compile();
+
+    controller = module.get<ReviewCommentsController>(ReviewCommentsController);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should list comments with the pagination query', async () => {
+    await controller.findByReviewId(1, { take: 10 });
+
+    expect(mockReviewCommentsService.findByReviewId).toHaveBeenCalledWith(1, {
+      take: 10,
+    });
+  });
+
+  it('should create a comment as the current user', async () => {
+    const dto = { content: 'Bien vu !', parentId: 10 };
+
+    await controller.create(1, user, dto);
+
+    expect(mockReviewCommentsService.create).toHaveBeenCalledWith(1, 2, dto);
+  });
+
+  it('should update a comment as the current user', async () => {
+    const dto = { content: 'Modifié' };
+
+    await controller.update(1, 10, user, dto);
+
+    expect(mockReviewCommentsService.update).toHaveBeenCalledWith(
+      1,
+      10,
+      2,
+      dto,
+    );
+  });
+
+  it('should delete a comment with the role of the current user', async () => {
+    await controller.remove(1, 10, user);
+
+    expect(mockReviewCommentsService.remove).toHaveBeenCalledWith(
+      1,
+      10,
+      2,
+      Role.User,
+    );
+  });
+});
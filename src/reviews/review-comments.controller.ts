@@ -0,0 +1,173 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  Query,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ReviewCommentsService } from './review-comments.service';
+import { CreateReviewCommentDto } from './dto/create-review-comment.dto';
+import { UpdateReviewCommentDto } from './dto/update-review-comment.dto';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+
+@ApiTags('reviews')
+@Controller('reviews/:reviewId/comments')
+export class ReviewCommentsController {
+  constructor(private readonly reviewCommentsService: ReviewCommentsService) {}
+
+  @ApiOperation({
+    summary: "Lister les commentaires d'une critique",
+    description:
+      'Récupère les commentaires de premier niveau avec pagination, chacun accompagné de ses réponses',
+  })
+  @ApiParam({
+    name: 'reviewId',
+    description: 'ID de la critique',
+    type: 'number',
+  })
+  @ApiResponse({ status: 200, description: 'Fils de commentaires' })
+  @ApiResponse({ status: 404, description: 'Critique non trouvée' })
+  @Get()
+  findByReviewId(
+    @Param('reviewId', ParseIntPipe) reviewId: number,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.reviewCommentsService.findByReviewId(reviewId, query);
+  }
+
+  @ApiOperation({
+    summary: 'Commenter une critique',
+    description:
+      'Permet à un utilisateur connecté de commenter une critique ou de répondre à un commentaire',
+  })
+  @ApiParam({
+    name: 'reviewId',
+    description: 'ID de la critique',
+    type: 'number',
+  })
+  @ApiBody({
+    type: CreateReviewCommentDto,
+    description: 'Données du commentaire à créer',
+  })
+  @ApiResponse({ status: 201, description: 'Commentaire créé avec succès' })
+  @ApiResponse({
+    status: 400,
+    description: 'Données invalides ou réponse à un commentaire supprimé',
+  })
+  @ApiResponse({ status: 401, description: 'Non autorisé' })
+  @ApiResponse({
+    status: 404,
+    description: 'Critique ou commentaire parent non trouvé',
+  })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Post()
+  create(
+    @Param('reviewId', ParseIntPipe) reviewId: number,
+    @CurrentUser() user,
+    @Body() createReviewCommentDto: CreateReviewCommentDto,
+  ) {
+    return this.reviewCommentsService.create(
+      reviewId,
+      user.id,
+      createReviewCommentDto,
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Modifier un commentaire',
+    description: 'Permet à un utilisateur de modifier son propre commentaire',
+  })
+  @ApiParam({
+    name: 'reviewId',
+    description: 'ID de la critique',
+    type: 'number',
+  })
+  @ApiParam({
+    name: 'commentId',
+    description: 'ID du commentaire à modifier',
+    type: 'number',
+  })
+  @ApiBody({
+    type: UpdateReviewCommentDto,
+    description: 'Nouveau contenu du commentaire',
+  })
+  @ApiResponse({ status: 200, description: 'Commentaire modifié avec succès' })
+  @ApiResponse({ status: 401, description: 'Non autorisé' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Interdit - Vous ne pouvez modifier que vos propres commentaires',
+  })
+  @ApiResponse({ status: 404, description: 'Commentaire non trouvé' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Patch(':commentId')
+  update(
+    @Param('reviewId', ParseIntPipe) reviewId: number,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @CurrentUser() user,
+    @Body() updateReviewCommentDto: UpdateReviewCommentDto,
+  ) {
+    return this.reviewCommentsService.update(
+      reviewId,
+      commentId,
+      user.id,
+      updateReviewCommentDto,
+    );
+  }
+
+  @ApiOperation({
+    summary: 'Supprimer un commentaire',
+    description:
+      'Permet à un utilisateur de supprimer son propre commentaire (ou à un administrateur de supprimer tout commentaire). Un commentaire qui a des réponses est vidé mais reste dans le fil',
+  })
+  @ApiParam({
+    name: 'reviewId',
+    description: 'ID de la critique',
+    type: 'number',
+  })
+  @ApiParam({
+    name: 'commentId',
+    description: 'ID du commentaire à supprimer',
+    type: 'number',
+  })
+  @ApiResponse({ status: 200, description: 'Commentaire supprimé avec succès' })
+  @ApiResponse({ status: 401, description: 'Non autorisé' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Interdit - Vous ne pouvez supprimer que vos propres commentaires',
+  })
+  @ApiResponse({ status: 404, description: 'Commentaire non trouvé' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Delete(':commentId')
+  remove(
+    @Param('reviewId', ParseIntPipe) reviewId: number,
+    @Param('commentId', ParseIntPipe) commentId: number,
+    @CurrentUser() user,
+  ) {
+    return this.reviewCommentsService.remove(
+      reviewId,
+      commentId,
+      user.id,
+      user.role,
+    );
+  }
+}
@@ -0,0 +1,255 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ReviewCommentsService } from './review-comments.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { Role } from '../auth/enums/role.enum';
+
+describe('ReviewCommentsService', () => {
+  let service: ReviewCommentsService;
+
+  const mockPrismaService = {
+    review: {
+      findUnique: jest.fn(),
+    },
+    reviewComment: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      count: jest.fn(),
+    },
+  };
+
+  const mockReview = { id: 1, userId: 1, albumId: 1, rating: 4 };
+
+  const mockComment = {
+    id: 10,
+    reviewId: 1,
+    userId: 2,
+    parentId: null,
+    content: 'Bien vu !',
+    deletedAt: null,
+    user: { id: 2, username: 'fan' },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewCommentsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<ReviewCommentsService>(ReviewCommentsService);
+
+    jest.clearAllMocks();
+
+    mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
+    mockPrismaService.reviewComment.findUnique.mockResolvedValue(null);
+    mockPrismaService.reviewComment.findMany.mockResolvedValue([]);
+    mockPrismaService.reviewComment.count.mockResolvedValue(0);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('findByReviewId', () => {
+    it('should nest replies under their parent comment', async () => {
+      const reply = { ...mockComment, id: 11, parentId: 10 };
+      const nestedReply = { ...mockComment, id: 12, parentId: 11 };
+      mockPrismaService.reviewComment.findMany
+        .mockResolvedValueOnce([mockComment])
+        .mockResolvedValueOnce([reply])
+        .mockResolvedValueOnce([nestedReply])
+        .mockResolvedValueOnce([]);
+
+      const result = await service.findByReviewId(1, { take: 10 });
+
+      expect(mockPrismaService.reviewComment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { reviewId: 1, parentId: null },
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          take: 11,
+        }),
+      );
+      // Réponses chargées niveau par niveau, pour les seuls fils de la page
+      expect(mockPrismaService.reviewComment.findMany).toHaveBeenCalledWith({
+        where: { parentId: { in: [10] } },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        include: { user: { select: { id: true, username: true } } },
+      });
+      expect(mockPrismaService.reviewComment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { parentId: { in: [11] } } }),
+      );
+      expect(mockPrismaService.reviewComment.findMany).toHaveBeenCalledTimes(4);
+      expect(result).toEqual({
+        items: [
+          {
+            ...mockComment,
+            replies: [{ ...reply, replies: [{ ...nestedReply, replies: [] }] }],
+          },
+        ],
+        pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+      });
+    });
+
+    it('should not look for replies when the page has no comment', async () => {
+      mockPrismaService.reviewComment.findMany.mockResolvedValueOnce([]);
+
+      const result = await service.findByReviewId(1);
+
+      expect(result.items).toEqual([]);
+      expect(mockPrismaService.reviewComment.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw NotFoundException if review does not exist', async () => {
+      mockPrismaService.review.findUnique.mockResolvedValue(null);
+
+      await expect(service.findByReviewId(999)).rejects.toThrow(
+        new NotFoundException('Review with ID 999 not found'),
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('should create a top-level comment', async () => {
+      mockPrismaService.reviewComment.create.mockResolvedValue(mockComment);
+
+      const result = await service.create(1, 2, { content: 'Bien vu !' });
+
+      expect(mockPrismaService.reviewComment.create).toHaveBeenCalledWith({
+        data: {
+          reviewId: 1,
+          userId: 2,
+          parentId: undefined,
+          content: 'Bien vu !',
+        },
+        include: { user: { select: { id: true, username: true } } },
+      });
+      expect(result).toEqual(mockComment);
+    });
+
+    it('should create a reply to a comment of the same review', async () => {
+      mockPrismaService.reviewComment.findUnique.mockResolvedValue(mockComment);
+
+      await service.create(1, 3, { content: 'Pareil', parentId: 10 });
+
+      expect(mockPrismaService.reviewComment.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ parentId: 10 }),
+        }),
+      );
+    });
+
+    it('should throw NotFoundException if the parent belongs to another review', async () => {
+      mockPrismaService.reviewComment.findUnique.mockResolvedValue({
+        ...mockComment,
+        reviewId: 2,
+      });
+
+      await expect(
+        service.create(1, 3, { content: 'Pareil', parentId: 10 }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.reviewComment.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException when replying to a deleted comment', async () => {
+      mockPrismaService.reviewComment.findUnique.mockResolvedValue({
+        ...mockComment,
+        content: null,
+        deletedAt: new Date(),
+      });
+
+      await expect(
+        service.create(1, 3, { content: 'Pareil', parentId: 10 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('update', () => {
+    it('should update a comment of the author', async () => {
+      mockPrismaService.reviewComment.findUnique.mockResolvedValue(mockComment);
+      mockPrismaService.reviewComment.update.mockResolvedValue({
+        ...mockComment,
+        content: 'Modifié',
+      });
+
+      await service.update(1, 10, 2, { content: 'Modifié' });
+
+      expect(mockPrismaService.reviewComment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 10 },
+          data: { content: 'Modifié' },
+        }),
+      );
+    });
+
+    it('should throw ForbiddenException if user is not the author', async () => {
+      mockPrismaService.reviewComment.findUnique.mockResolvedValue(mockComment);
+
+      await expect(
+        service.update(1, 10, 3, { content: 'Modifié' }),
+      ).rejects.toThrow(
+        new ForbiddenException('You can only update your own comments'),
+      );
+    });
+
+    it('should throw NotFoundException for a deleted comment', async () => {
+      mockPrismaService.reviewComment.findUnique.mockResolvedValue({
+        ...mockComment,
+        deletedAt: new Date(),
+      });
+
+      await expect(
+        service.update(1, 10, 2, { content: 'Modifié' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a comment without replies', async () => {
+      mockPrismaService.reviewComment.findUnique.mockResolvedValue(mockComment);
+
+      await service.remove(1, 10, 2);
+
+      expect(mockPrismaService.reviewComment.delete).toHaveBeenCalledWith({
+        where: { id: 10 },
+      });
+    });
+
+    it('should only clear a comment that has replies', async () => {
+      mockPrismaService.reviewComment.findUnique.mockResolvedValue(mockComment);
+      mockPrismaService.reviewComment.count.mockResolvedValue(2);
+
+      await service.remove(1, 10, 2);
+
+      expect(mockPrismaService.reviewComment.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: { content: null, deletedAt: expect.any(Date) },
+      });
+      expect(mockPrismaService.reviewComment.delete).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException if user is not the author', async () => {
+      mockPrismaService.reviewComment.findUnique.mockResolvedValue(mockComment);
+
+      await expect(service.remove(1, 10, 3)).rejects.toThrow(
+        new ForbiddenException('You can only delete your own comments'),
+      );
+    });
+
+    it('should allow an admin to delete any comment', async () => {
+      mockPrismaService.reviewComment.findUnique.mockResolvedValue(mockComment);
+
+      await service.remove(1, 10, 3, Role.Admin);
+
+      expect(mockPrismaService.reviewComment.delete).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ReviewComment } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateReviewCommentDto } from './dto/create-review-comment.dto';
+import { UpdateReviewCommentDto } from './dto/update-review-comment.dto';
+import { Role } from '../auth/enums/role.enum';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { CREATED_AT_ASC, paginate } from '../common/pagination/paginate';
+
+const commentInclude = {
+  user: {
+    select: {
+      id: true,
+      username: true,
+    },
+  },
+};
+
+// Commentaire accompagné de ses réponses
+interface CommentThread extends ReviewComment {
+  replies: CommentThread[];
+}
+
+@Injectable()
+export class ReviewCommentsService {
+  constructor(private prisma: PrismaService) {}
+
+  // Commentaires d'une critique sous forme de fils de discussion
+  // La pagination porte sur les commentaires de premier niveau, chacun
+  // étant renvoyé avec toutes ses réponses (replies), du plus ancien au plus récent
+  // Seules les réponses des fils de la page sont chargées, niveau par niveau
+  async findByReviewId(reviewId: number, query: PaginationQueryDto = {}) {
+    await this.findReviewOrFail(reviewId);
+
+    const page = await paginate<ReviewComment>(
+      this.prisma.reviewComment,
+      { where: { reviewId, parentId: null }, include: commentInclude },
+      query,
+      CREATED_AT_ASC,
+    );
+
+    const threads: CommentThread[] = page.items.map((comment) => ({
+      ...comment,
+      replies: [],
+    }));
+    const nodes = new Map<number, CommentThread>(
+      threads.map((thread) => [thread.id, thread]),
+    );
+
+    // Rattacher chaque réponse à son parent, quelle que soit la profondeur
+    let parentIds = threads.map((thread) => thread.id);
+    while (parentIds.length > 0) {
+      const replies = await this.prisma.reviewComment.findMany({
+        where: { parentId: { in: parentIds } },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        include: commentInclude,
+      });
+
+      for (const reply of replies) {
+        const node: CommentThread = { ...reply, replies: [] };
+        nodes.set(reply.id, node);
+        if (reply.parentId !== null) {
+          nodes.get(reply.parentId)?.replies.push(node);
+        }
+      }
+      parentIds = replies.map((reply) => reply.id);
+    }
+
+    return {
+      items: threads,
+      pageInfo: page.pageInfo,
+    };
+  }
+
+  async create(
+    reviewId: number,
+    userId: number,
+    createReviewCommentDto: CreateReviewCommentDto,
+  ) {
+    await this.findReviewOrFail(reviewId);
+
+    // Une réponse doit viser un commentaire visible de la même critique
+    const { parentId } = createReviewCommentDto;
+    if (parentId !== undefined) {
+      const parent = await this.prisma.reviewComment.findUnique({
+        where: { id: parentId },
+      });
+
+      if (!parent || parent.reviewId !== reviewId) {
+        throw new NotFoundException(
+          `Comment with ID ${parentId} not found on review ${reviewId}`,
+        );
+      }
+
+      if (parent.deletedAt) {
+        throw new BadRequestException('You cannot reply to a deleted comment');
+      }
+    }
+
+    return this.prisma.reviewComment.create({
+      data: {
+        reviewId,
+        userId,
+        parentId,
+        content: createReviewCommentDto.content,
+      },
+      include: commentInclude,
+    });
+  }
+
+  async update(
+    reviewId: number,
+    commentId: number,
+    userId: number,
+    updateReviewCommentDto: UpdateReviewCommentDto,
+  ) {
+    const comment = await this.findCommentOrFail(reviewId, commentId);
+
+    // Vérifier si l'utilisateur est bien l'auteur du commentaire
+    if (comment.userId !== userId) {
+      throw new ForbiddenException('You can only update your own comments');
+    }
+
+    return this.prisma.reviewComment.update({
+      where: { id: commentId },
+      data: { content: updateReviewCommentDto.content },
+      include: commentInclude,
+    });
+  }
+
+  async remove(
+    reviewId: number,
+    commentId: number,
+    userId: number,
+    role: Role = Role.User,
+  ) {
+    const comment = await this.findCommentOrFail(reviewId, commentId);
+
+    // Vérifier si l'utilisateur est l'auteur du commentaire ou un modérateur
+    if (comment.userId !== userId && role !== Role.Admin) {
+      throw new ForbiddenException('You can only delete your own comments');
+    }
+
+    // Un commentaire avec des réponses est seulement vidé pour garder le fil
+    const replyCount = await this.prisma.reviewComment.count({
+      where: { parentId: commentId },
+    });
+
+    if (replyCount > 0) {
+      return this.prisma.reviewComment.update({
+        where: { id: commentId },
+        data: { content: null, deletedAt: new Date() },
+      });
+    }
+
+    return this.prisma.reviewComment.delete({
+      where: { id: commentId },
+    });
+  }
+
+  private async findReviewOrFail(reviewId: number) {
+    const review = await this.prisma.review.findUnique({
+      where: { id: reviewId },
+    });
+
+    if (!review) {
+      throw new NotFoundException(`Review with ID ${reviewId} not found`);
+    }
+
+    return review;
+  }
+
+  // Les commentaires supprimés ne sont plus modifiables
+  private async findCommentOrFail(reviewId: number, commentId: number) {
+    const comment = await this.prisma.reviewComment.findUnique({
+      where: { id: commentId },
+    });
+
+    if (!comment || comment.reviewId !== reviewId || comment.deletedAt) {
+      throw new NotFoundException(
+        `Comment with ID ${commentId} not found on review ${reviewId}`,
+      );
+    }
+
+    return comment;
+  }
+}
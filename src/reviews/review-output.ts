@@ -0,0 +1,35 @@
+import { toStars } from '../albums/rating-scale';
+import { AlbumRow, toAlbumOutput } from '../albums/album-output';
+
+// Critique lue par Prisma : champs utilisés pour sa restitution (ses autres
+// colonnes et relations sont renvoyées telles quelles)
+export interface ReviewRow {
+  id: number;
+  rating: number;
+  updatedAt?: Date | null;
+  album?: AlbumRow;
+  trackRatings?: { rating: number }[];
+}
+
+// Critique telle que renvoyée par l'API :
+// - note brute (rating, de 1 à 10) et note affichée en étoiles (stars),
+//   y compris pour les notes de pistes
+// - album éventuel restitué avec sa date de sortie à sa précision réelle
+// - marqueur "modifiée" : updatedAt n'est renseigné que lorsque l'auteur
+//   change sa note ou son commentaire (pas pour ses seules notes de pistes)
+export function toReviewOutput<T extends ReviewRow>(review: T) {
+  const { album, trackRatings, ...row } = review;
+
+  return {
+    ...row,
+    ...(album && { album: toAlbumOutput(album) }),
+    ...(trackRatings && {
+      trackRatings: trackRatings.map((trackRating) => ({
+        ...trackRating,
+        stars: toStars(trackRating.rating),
+      })),
+    }),
+    stars: toStars(review.rating),
+    edited: review.updatedAt != null,
+  };
+}
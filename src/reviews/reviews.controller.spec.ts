@@ -18,6 +18,10 @@ describe('ReviewsController', () => {
     findOne: jest.fn(),
     update: jest.fn(),
     remove: jest.fn(),
+    findRevisions: jest.fn(),
+    findLikes: jest.fn(),
+    like: jest.fn(),
+    unlike: jest.fn(),
   };
 
   const mockJwtAuthGuard = {
@@ -59,12 +63,11 @@ describe('ReviewsController', () => {
   };
 
   const mockPaginatedResponse = {
-    reviews: [mockReview],
-    meta: {
-      total: 1,
-      skip: 0,
+    items: [mockReview],
+    pageInfo: {
       take: 10,
-      hasMore: false,
+      hasNextPage: false,
+      nextCursor: null,
     },
   };
 
@@ -127,119 +130,73 @@ describe('ReviewsController', () => {
   });
 
   describe('findAll', () => {
-    it('should return all reviews with default pagination', async () => {
+    it('should return all reviews with cursor pagination', async () => {
       // Arrange
+      const query = { cursor: 'next-page', take: 10 };
       mockReviewsService.findAll.mockResolvedValue(mockPaginatedResponse);
 
       // Act
-      const result = await controller.findAll();
+      const result = await controller.findAll(query);
 
       // Assert
-      expect(mockReviewsService.findAll).toHaveBeenCalledWith(0, 10);
+      expect(mockReviewsService.findAll).toHaveBeenCalledWith(query);
       expect(result).toEqual(mockPaginatedResponse);
     });
 
-    it('should return all reviews with custom pagination', async () => {
+    it('should return all reviews with offset pagination', async () => {
       // Arrange
-      const skip = 10;
-      const take = 5;
+      const query = { skip: 10, take: 5 };
       mockReviewsService.findAll.mockResolvedValue({
         ...mockPaginatedResponse,
-        meta: { ...mockPaginatedResponse.meta, skip, take },
+        pageInfo: { ...mockPaginatedResponse.pageInfo, ...query },
       });
 
       // Act
-      const result = await controller.findAll(skip, take);
+      const result = await controller.findAll(query);
 
       // Assert
-      expect(mockReviewsService.findAll).toHaveBeenCalledWith(skip, take);
-      expect(result.meta.skip).toEqual(skip);
-      expect(result.meta.take).toEqual(take);
+      expect(mockReviewsService.findAll).toHaveBeenCalledWith(query);
+      expect(result.pageInfo.skip).toEqual(10);
+      expect(result.pageInfo.take).toEqual(5);
     });
   });
 
   describe('findByAlbumId', () => {
-    it('should return all reviews for a specific album with default pagination', async () => {
+    it('should return all reviews for a specific album', async () => {
       // Arrange
       const albumId = 1;
+      const query = { take: 10 };
       mockReviewsService.findByAlbumId.mockResolvedValue(mockPaginatedResponse);
 
       // Act
-      const result = await controller.findByAlbumId(albumId);
+      const result = await controller.findByAlbumId(albumId, query);
 
       // Assert
       expect(mockReviewsService.findByAlbumId).toHaveBeenCalledWith(
         albumId,
-        0,
-        10,
+        query,
       );
       expect(result).toEqual(mockPaginatedResponse);
     });
-
-    it('should return all reviews for a specific album with custom pagination', async () => {
-      // Arrange
-      const albumId = 1;
-      const skip = 10;
-      const take = 5;
-      mockReviewsService.findByAlbumId.mockResolvedValue({
-        ...mockPaginatedResponse,
-        meta: { ...mockPaginatedResponse.meta, skip, take },
-      });
-
-      // Act
-      const result = await controller.findByAlbumId(albumId, skip, take);
-
-      // Assert
-      expect(mockReviewsService.findByAlbumId).toHaveBeenCalledWith(
-        albumId,
-        skip,
-        take,
-      );
-      expect(result.meta.skip).toEqual(skip);
-      expect(result.meta.take).toEqual(take);
-    });
   });
 
   describe('findByUserId', () => {
-    it('should return all reviews by a specific user with default pagination', async () => {
+    it('should return all reviews by a specific user', async () => {
       // Arrange
       const userId = 1;
+      const query = { take: 10 };
       mockReviewsService.findByUserId.mockResolvedValue(mockPaginatedResponse);
 
       // Act
-      const result = await controller.findByUserId(userId);
+      const result = await controller.findByUserId(userId, query);
 
       // Assert
       expect(mockReviewsService.findByUserId).toHaveBeenCalledWith(
         userId,
-        0,
-        10,
+        query,
       );
       expect(result).toEqual(mockPaginatedResponse);
     });
-
-    it('should return all reviews by a specific user with custom pagination', async () => {
-      // Arrange
-      const userId = 1;
-      const skip = 10;
-      const take = 5;
-      mockReviewsService.findByUserId.mockResolvedValue({
-        ...mockPaginatedResponse,
-        meta: { ...mockPaginatedResponse.meta, skip, take },
-      });
-
-      // Act
-      const result = await controller.findByUserId(userId, skip, take);
-
-      // Assert
-      expect(mockReviewsService.findByUserId).toHaveBeenCalledWith(
-        userId,
-        skip,
-        take,
-      );
-      expect(result.meta.skip).toEqual(skip);
-      expect(result.meta.take).toEqual(take);
-    });
   });
 
   describe('findOne', () => {
@@ -300,4 +257,65 @@ describe('ReviewsController', () => {
       expect(result).toEqual(mockReview);
     });
   });
+
+  describe('findRevisions', () => {
+    it('should return the revisions with the role of the current user', async () => {
+      const revisions = {
+        items: [],
+        pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+      };
+      mockReviewsService.findRevisions.mockResolvedValue(revisions);
+
+      const result = await controller.findRevisions(
+        1,
+        { id: 2, role: 'ADMIN' },
+        { take: 10 },
+      );
+
+      expect(mockReviewsService.findRevisions).toHaveBeenCalledWith(
+        1,
+        2,
+        'ADMIN',
+        { take: 10 },
+      );
+      expect(result).toEqual(revisions);
+    });
+  });
+
+  describe('findLikes', () => {
+    it('should return the likes of a review', async () => {
+      const likes = {
+        items: [],
+        pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+      };
+      mockReviewsService.findLikes.mockResolvedValue(likes);
+
+      const result = await controller.findLikes(1, { take: 10 });
+
+      expect(mockReviewsService.findLikes).toHaveBeenCalledWith(1, {
+        take: 10,
+      });
+      expect(result).toEqual(likes);
+    });
+  });
+
+  describe('like', () => {
+    it('should like a review as the current user', async () => {
+      const like = { userId: 2, reviewId: 1 };
+      mockReviewsService.like.mockResolvedValue(like);
+
+      const result = await controller.like(1, { id: 2 });
+
+      expect(mockReviewsService.like).toHaveBeenCalledWith(1, 2);
+      expect(result).toEqual(like);
+    });
+  });
+
+  describe('unlike', () => {
+    it('should remove the like of the current user', async () => {
+      await controller.unlike(1, { id: 2 });
+
+      expect(mockReviewsService.unlike).toHaveBeenCalledWith(1, 2);
+    });
+  });
 });
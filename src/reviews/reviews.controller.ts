@@ -9,10 +9,14 @@ import {
   UseGuards,
   Query,
   ParseIntPipe,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { ReviewsService } from './reviews.service';
 import { CreateReviewDto } from './dto/create-review.dto';
 import { UpdateReviewDto } from './dto/update-review.dto';
+import { GetReviewsDto } from './dto/get-reviews.dto';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import {
@@ -20,7 +24,6 @@ import {
   ApiOperation,
   ApiResponse,
   ApiParam,
-  ApiQuery,
   ApiBearerAuth,
   ApiBody,
 } from '@nestjs/swagger';
@@ -60,30 +63,20 @@ export class ReviewsController {
 
   @ApiOperation({
     summary: 'Lister toutes les critiques',
-    description: 'Récupère toutes les critiques avec pagination',
-  })
-  @ApiQuery({
-    name: 'skip',
-    required: false,
-    description: "Nombre d'éléments à sauter (pagination)",
-    type: Number,
-  })
-  @ApiQuery({
-    name: 'take',
-    required: false,
-    description: "Nombre d'éléments à récupérer (pagination)",
-    type: Number,
+    description:
+      'Récupère toutes les critiques avec pagination, tri et filtres (note, date, commentaire, artiste)',
   })
   @ApiResponse({
     status: 200,
     description: 'Liste des critiques',
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Paramètres de pagination, de tri ou de filtre invalides',
+  })
   @Get()
-  findAll(
-    @Query('skip', new ParseIntPipe({ optional: true })) skip?: number,
-    @Query('take', new ParseIntPipe({ optional: true })) take?: number,
-  ) {
-    return this.reviewsService.findAll(skip || 0, take || 10);
+  findAll(@Query() query: GetReviewsDto) {
+    return this.reviewsService.findAll(query);
   }
 
   @ApiOperation({
@@ -92,26 +85,17 @@ export class ReviewsController {
       "Récupère toutes les critiques d'un album spécifique avec pagination",
   })
   @ApiParam({ name: 'albumId', description: "ID de l'album", type: 'number' })
-  @ApiQuery({
-    name: 'skip',
-    required: false,
-    description: "Nombre d'éléments à sauter",
-    type: Number,
-  })
-  @ApiQuery({
-    name: 'take',
-    required: false,
-    description: "Nombre d'éléments à récupérer",
-    type: Number,
-  })
   @ApiResponse({ status: 200, description: "Liste des critiques de l'album" })
+  @ApiResponse({
+    status: 400,
+    description: 'Paramètres de pagination, de tri ou de filtre invalides',
+  })
   @Get('album/:albumId')
   findByAlbumId(
     @Param('albumId', ParseIntPipe) albumId: number,
-    @Query('skip', new ParseIntPipe({ optional: true })) skip?: number,
-    @Query('take', new ParseIntPipe({ optional: true })) take?: number,
+    @Query() query: GetReviewsDto,
   ) {
-    return this.reviewsService.findByAlbumId(albumId, skip || 0, take || 10);
+    return this.reviewsService.findByAlbumId(albumId, query);
   }
 
   @ApiOperation({
@@ -124,29 +108,20 @@ export class ReviewsController {
     description: "ID de l'utilisateur",
     type: 'number',
   })
-  @ApiQuery({
-    name: 'skip',
-    required: false,
-    description: "Nombre d'éléments à sauter",
-    type: Number,
-  })
-  @ApiQuery({
-    name: 'take',
-    required: false,
-    description: "Nombre d'éléments à récupérer",
-    type: Number,
-  })
   @ApiResponse({
     status: 200,
     description: "Liste des critiques de l'utilisateur",
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Paramètres de pagination, de tri ou de filtre invalides',
+  })
   @Get('user/:userId')
   findByUserId(
     @Param('userId', ParseIntPipe) userId: number,
-    @Query('skip', new ParseIntPipe({ optional: true })) skip?: number,
-    @Query('take', new ParseIntPipe({ optional: true })) take?: number,
+    @Query() query: GetReviewsDto,
   ) {
-    return this.reviewsService.findByUserId(userId, skip || 0, take || 10);
+    return this.reviewsService.findByUserId(userId, query);
   }
 
   @ApiOperation({
@@ -192,9 +167,35 @@ export class ReviewsController {
     return this.reviewsService.update(id, user.id, updateReviewDto);
   }
 
+  @ApiOperation({
+    summary: "Historique des modifications d'une critique",
+    description:
+      "Récupère les versions précédentes d'une critique (note et commentaire), de la plus récente à la plus ancienne. Réservé à l'auteur de la critique et aux administrateurs",
+  })
+  @ApiParam({ name: 'id', description: 'ID de la critique', type: 'number' })
+  @ApiResponse({ status: 200, description: 'Versions précédentes' })
+  @ApiResponse({ status: 401, description: 'Non autorisé' })
+  @ApiResponse({
+    status: 403,
+    description:
+      "Interdit - Seuls l'auteur et les administrateurs peuvent consulter l'historique",
+  })
+  @ApiResponse({ status: 404, description: 'Critique non trouvée' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/revisions')
+  findRevisions(
+    @Param('id', ParseIntPipe) id: number,
+    @CurrentUser() user,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.reviewsService.findRevisions(id, user.id, user.role, query);
+  }
+
   @ApiOperation({
     summary: 'Supprimer une critique',
-    description: 'Permet à un utilisateur de supprimer sa propre critique',
+    description:
+      'Permet à un utilisateur de supprimer sa propre critique (ou à un administrateur de supprimer toute critique)',
   })
   @ApiParam({
     name: 'id',
@@ -213,6 +214,53 @@ export class ReviewsController {
   @UseGuards(JwtAuthGuard)
   @Delete(':id')
   remove(@Param('id', ParseIntPipe) id: number, @CurrentUser() user) {
-    return this.reviewsService.remove(id, user.id);
+    return this.reviewsService.remove(id, user.id, user.role);
+  }
+
+  @ApiOperation({
+    summary: 'Lister les "j\'aime" d\'une critique',
+    description: 'Récupère les utilisateurs ayant aimé une critique',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la critique', type: 'number' })
+  @ApiResponse({ status: 200, description: 'Liste des "j\'aime"' })
+  @ApiResponse({ status: 404, description: 'Critique non trouvée' })
+  @Get(':id/likes')
+  findLikes(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.reviewsService.findLikes(id, query);
+  }
+
+  @ApiOperation({
+    summary: 'Aimer une critique',
+    description: 'Ajoute un "j\'aime" de l\'utilisateur connecté',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la critique', type: 'number' })
+  @ApiResponse({ status: 201, description: '"J\'aime" ajouté' })
+  @ApiResponse({ status: 401, description: 'Non autorisé' })
+  @ApiResponse({ status: 404, description: 'Critique non trouvée' })
+  @ApiResponse({ status: 409, description: 'Critique déjà aimée' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Post(':id/likes')
+  like(@Param('id', ParseIntPipe) id: number, @CurrentUser() user) {
+    return this.reviewsService.like(id, user.id);
+  }
+
+  @ApiOperation({
+    summary: 'Retirer son "j\'aime"',
+    description: 'Retire le "j\'aime" de l\'utilisateur connecté',
+  })
+  @ApiParam({ name: 'id', description: 'ID de la critique', type: 'number' })
+  @ApiResponse({ status: 204, description: '"J\'aime" retiré' })
+  @ApiResponse({ status: 401, description: 'Non autorisé' })
+  @ApiResponse({ status: 404, description: 'Aucun "j\'aime" à retirer' })
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Delete(':id/likes')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  unlike(@Param('id', ParseIntPipe) id: number, @CurrentUser() user) {
+    return this.reviewsService.unlike(id, user.id);
   }
 }
@@ -1,12 +1,15 @@
 import { Module } from '@nestjs/common';
 import { ReviewsController } from './reviews.controller';
 import { ReviewsService } from './reviews.service';
+import { ReviewCommentsController } from './review-comments.controller';
+import { ReviewCommentsService } from './review-comments.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { AlbumsModule } from '../albums/albums.module';
 
 @Module({
-  imports: [PrismaModule],
-  controllers: [ReviewsController],
-  providers: [ReviewsService],
+  imports: [PrismaModule, AlbumsModule],
+  controllers: [ReviewsController, ReviewCommentsController],
+  providers: [ReviewsService, ReviewCommentsService],
   exports: [ReviewsService],
 })
 export class ReviewsModule {}
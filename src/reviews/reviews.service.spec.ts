@@ -2,16 +2,19 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ReviewsService } from './reviews.service';
 import { PrismaService } from '../prisma/prisma.service';
 import {
+  BadRequestException,
   NotFoundException,
   ConflictException,
   ForbiddenException,
 } from '@nestjs/common';
 import { CreateReviewDto } from './dto/create-review.dto';
 import { UpdateReviewDto } from './dto/update-review.dto';
+import { Role } from '../auth/enums/role.enum';
+import { AlbumRatingsService } from '../albums/album-ratings.service';
+import { ReviewSort } from './enums/review-sort.enum';
 
 describe('ReviewsService', () => {
   let service: ReviewsService;
-  let prismaService: PrismaService;
 
   const mockPrismaService = {
     review: {
@@ -25,9 +28,41 @@ describe('ReviewsService', () => {
     album: {
       findUnique: jest.fn(),
     },
+    track: {
+      count: jest.fn(),
+    },
     user: {
       findUnique: jest.fn(),
     },
+    reviewLike: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      delete: jest.fn(),
+      count: jest.fn(),
+    },
+    reviewRevision: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      count: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    // Les callbacks de transaction reçoivent le même client mocké
+    $transaction: jest.fn((callback: (tx: unknown) => unknown): unknown =>
+      callback(mockPrismaService),
+    ),
+  };
+
+  const trackRatingsInclude = {
+    include: { track: true },
+    orderBy: [
+      { track: { discNumber: 'asc' } },
+      { track: { trackNumber: 'asc' } },
+    ],
+  };
+
+  const mockAlbumRatingsService = {
+    applyRatingChange: jest.fn(),
   };
 
   const mockUser = {
@@ -48,11 +83,13 @@ describe('ReviewsService', () => {
     id: 1,
     externalId: 'album123',
     title: 'Test Album',
-    releaseDate: new Date(),
+    releaseDate: new Date('2023-01-01'),
     coverUrl: 'https://example.com/cover.jpg',
     artistId: 1,
     artist: mockArtist,
   };
+  // Album tel que restitué par l'API (date de sortie à sa précision)
+  const mockAlbumOutput = { ...mockAlbum, releaseDate: '2023-01-01' };
 
   const mockReview = {
     id: 1,
@@ -76,11 +113,14 @@ describe('ReviewsService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: AlbumRatingsService,
+          useValue: mockAlbumRatingsService,
+        },
       ],
     }).compile();
 
     service = module.get<ReviewsService>(ReviewsService);
-    prismaService = module.get<PrismaService>(PrismaService);
 
     // Réinitialiser les mocks après chaque test
     jest.clearAllMocks();
@@ -145,9 +185,20 @@ describe('ReviewsService', () => {
               artist: true,
             },
           },
+          trackRatings: trackRatingsInclude,
         },
       });
-      expect(result).toEqual(mockReview);
+      expect(mockAlbumRatingsService.applyRatingChange).toHaveBeenCalledWith(
+        mockPrismaService,
+        createReviewDto.albumId,
+        { added: createReviewDto.rating },
+      );
+      expect(result).toEqual({
+        ...mockReview,
+        album: mockAlbumOutput,
+        stars: 2.5,
+        edited: false,
+      });
     });
 
     it('should throw NotFoundException if album does not exist', async () => {
@@ -173,6 +224,26 @@ describe('ReviewsService', () => {
       expect(mockPrismaService.review.create).not.toHaveBeenCalled();
     });
 
+    it('should throw BadRequestException if the album was removed from the catalog', async () => {
+      // Arrange
+      const userId = 1;
+      const createReviewDto: CreateReviewDto = {
+        albumId: 1,
+        rating: 5,
+      };
+
+      mockPrismaService.album.findUnique.mockResolvedValue({
+        ...mockAlbum,
+        removedAt: new Date('2024-01-01'),
+      });
+
+      // Act & Assert
+      await expect(service.create(userId, createReviewDto)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockPrismaService.review.create).not.toHaveBeenCalled();
+    });
+
     it('should throw ConflictException if user has already reviewed the album', async () => {
       // Arrange
       const userId = 1;
@@ -202,6 +273,74 @@ describe('ReviewsService', () => {
       });
       expect(mockPrismaService.review.create).not.toHaveBeenCalled();
     });
+
+    it('should create the track ratings of a review', async () => {
+      // Arrange
+      const trackRatings = [
+        { trackId: 3, rating: 5 },
+        { trackId: 4, rating: 4 },
+      ];
+      mockPrismaService.album.findUnique.mockResolvedValue(mockAlbum);
+      mockPrismaService.track.count.mockResolvedValue(2);
+      mockPrismaService.review.create.mockResolvedValue(mockReview);
+
+      // Act
+      await service.create(1, { albumId: 1, rating: 5, trackRatings });
+
+      // Assert
+      expect(mockPrismaService.track.count).toHaveBeenCalledWith({
+        where: { albumId: 1, id: { in: [3, 4] } },
+      });
+      expect(mockPrismaService.review.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            userId: 1,
+            albumId: 1,
+            rating: 5,
+            comment: undefined,
+            trackRatings: { create: trackRatings },
+          },
+        }),
+      );
+    });
+
+    it('should throw BadRequestException if a rated track is not on the album', async () => {
+      // Arrange
+      mockPrismaService.album.findUnique.mockResolvedValue(mockAlbum);
+      mockPrismaService.track.count.mockResolvedValue(0);
+
+      // Act & Assert
+      await expect(
+        service.create(1, {
+          albumId: 1,
+          rating: 5,
+          trackRatings: [{ trackId: 99, rating: 5 }],
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'Rated tracks must belong to the reviewed album',
+        ),
+      );
+      expect(mockPrismaService.review.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw BadRequestException if a track is rated twice', async () => {
+      // Arrange
+      mockPrismaService.album.findUnique.mockResolvedValue(mockAlbum);
+
+      // Act & Assert
+      await expect(
+        service.create(1, {
+          albumId: 1,
+          rating: 5,
+          trackRatings: [
+            { trackId: 3, rating: 5 },
+            { trackId: 3, rating: 2 },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.track.count).not.toHaveBeenCalled();
+    });
   });
 
   describe('findAll', () => {
@@ -216,15 +355,14 @@ describe('ReviewsService', () => {
       mockPrismaService.review.count.mockResolvedValue(total);
 
       // Act
-      const result = await service.findAll(skip, take);
+      const result = await service.findAll({ skip, take });
 
       // Assert
       expect(mockPrismaService.review.findMany).toHaveBeenCalledWith({
+        where: {},
         skip,
         take,
-        orderBy: {
-          createdAt: 'desc',
-        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
         include: {
           user: {
             select: {
@@ -237,21 +375,120 @@ describe('ReviewsService', () => {
               artist: true,
             },
           },
+          trackRatings: trackRatingsInclude,
+          _count: {
+            select: {
+              likes: true,
+              comments: { where: { deletedAt: null } },
+            },
+          },
         },
       });
       expect(mockPrismaService.review.count).toHaveBeenCalled();
       expect(result).toEqual({
-        reviews: mockReviews,
-        meta: {
-          total,
-          skip,
+        items: [
+          { ...mockReview, album: mockAlbumOutput, stars: 2.5, edited: false },
+        ],
+        pageInfo: {
           take,
-          hasMore: false,
+          hasNextPage: false,
+          nextCursor: null,
+          skip,
+          total,
         },
       });
     });
   });
 
+  describe('sorting and filtering', () => {
+    it('should sort by highest rating, then newest first', async () => {
+      await service.findAll({ sort: ReviewSort.HighestRating });
+
+      expect(mockPrismaService.review.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ rating: 'desc' }, { createdAt: 'desc' }, { id: 'desc' }],
+        }),
+      );
+    });
+
+    it('should sort by like count', async () => {
+      await service.findAll({ sort: ReviewSort.MostLiked });
+
+      expect(mockPrismaService.review.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [
+            { likeCount: 'desc' },
+            { createdAt: 'desc' },
+            { id: 'desc' },
+          ],
+        }),
+      );
+    });
+
+    it('should sort oldest first', async () => {
+      await service.findAll({ sort: ReviewSort.Oldest });
+
+      expect(mockPrismaService.review.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        }),
+      );
+    });
+
+    it('should combine rating, date, comment and artist filters', async () => {
+      const from = new Date('2026-01-01T00:00:00Z');
+      const to = new Date('2027-01-01T00:00:00Z');
+      mockPrismaService.album.findUnique.mockResolvedValue(mockAlbum);
+
+      await service.findByAlbumId(1, {
+        minRating: 3,
+        maxRating: 5,
+        from,
+        to,
+        hasComment: true,
+        artistId: 2,
+      });
+
+      expect(mockPrismaService.review.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            albumId: 1,
+            rating: { gte: 3, lte: 5 },
+            createdAt: { gte: from, lt: to },
+            NOT: [{ comment: null }, { comment: '' }],
+            album: { artists: { some: { artistId: 2 } } },
+          },
+        }),
+      );
+    });
+
+    it('should only keep reviews without comment', async () => {
+      await service.findAll({ hasComment: false });
+
+      expect(mockPrismaService.review.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { OR: [{ comment: null }, { comment: '' }] },
+        }),
+      );
+    });
+
+    it('should reject an inverted rating range', async () => {
+      await expect(
+        service.findAll({ minRating: 4, maxRating: 2 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.review.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject an inverted date range', async () => {
+      await expect(
+        service.findAll({
+          from: new Date('2026-06-01T00:00:00Z'),
+          to: new Date('2026-01-01T00:00:00Z'),
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
   describe('findByAlbumId', () => {
     it('should return all reviews for a specific album with pagination', async () => {
       // Arrange
@@ -266,7 +503,7 @@ describe('ReviewsService', () => {
       mockPrismaService.review.count.mockResolvedValue(total);
 
       // Act
-      const result = await service.findByAlbumId(albumId, skip, take);
+      const result = await service.findByAlbumId(albumId, { skip, take });
 
       // Assert
       expect(mockPrismaService.album.findUnique).toHaveBeenCalledWith({
@@ -276,9 +513,7 @@ describe('ReviewsService', () => {
         where: { albumId },
         skip,
         take,
-        orderBy: {
-          createdAt: 'desc',
-        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
         include: {
           user: {
             select: {
@@ -291,18 +526,28 @@ describe('ReviewsService', () => {
               artist: true,
             },
           },
+          trackRatings: trackRatingsInclude,
+          _count: {
+            select: {
+              likes: true,
+              comments: { where: { deletedAt: null } },
+            },
+          },
         },
       });
       expect(mockPrismaService.review.count).toHaveBeenCalledWith({
         where: { albumId },
       });
       expect(result).toEqual({
-        reviews: mockReviews,
-        meta: {
-          total,
-          skip,
+        items: [
+          { ...mockReview, album: mockAlbumOutput, stars: 2.5, edited: false },
+        ],
+        pageInfo: {
           take,
-          hasMore: false,
+          hasNextPage: false,
+          nextCursor: null,
+          skip,
+          total,
         },
       });
     });
@@ -338,7 +583,7 @@ describe('ReviewsService', () => {
       mockPrismaService.review.count.mockResolvedValue(total);
 
       // Act
-      const result = await service.findByUserId(userId, skip, take);
+      const result = await service.findByUserId(userId, { skip, take });
 
       // Assert
       expect(mockPrismaService.user.findUnique).toHaveBeenCalledWith({
@@ -348,9 +593,7 @@ describe('ReviewsService', () => {
         where: { userId },
         skip,
         take,
-        orderBy: {
-          createdAt: 'desc',
-        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
         include: {
           user: {
             select: {
@@ -363,18 +606,28 @@ describe('ReviewsService', () => {
               artist: true,
             },
           },
+          trackRatings: trackRatingsInclude,
+          _count: {
+            select: {
+              likes: true,
+              comments: { where: { deletedAt: null } },
+            },
+          },
         },
       });
       expect(mockPrismaService.review.count).toHaveBeenCalledWith({
         where: { userId },
       });
       expect(result).toEqual({
-        reviews: mockReviews,
-        meta: {
-          total,
-          skip,
+        items: [
+          { ...mockReview, album: mockAlbumOutput, stars: 2.5, edited: false },
+        ],
+        pageInfo: {
           take,
-          hasMore: false,
+          hasNextPage: false,
+          nextCursor: null,
+          skip,
+          total,
         },
       });
     });
@@ -421,9 +674,21 @@ describe('ReviewsService', () => {
               artist: true,
             },
           },
+          trackRatings: trackRatingsInclude,
+          _count: {
+            select: {
+              likes: true,
+              comments: { where: { deletedAt: null } },
+            },
+          },
         },
       });
-      expect(result).toEqual(mockReview);
+      expect(result).toEqual({
+        ...mockReview,
+        album: mockAlbumOutput,
+        stars: 2.5,
+        edited: false,
+      });
     });
 
     it('should throw NotFoundException if review does not exist', async () => {
@@ -438,7 +703,7 @@ describe('ReviewsService', () => {
       );
       expect(mockPrismaService.review.findUnique).toHaveBeenCalledWith({
         where: { id: reviewId },
-        include: expect.any(Object),
+        include: expect.any(Object) as object,
       });
     });
   });
@@ -453,11 +718,13 @@ describe('ReviewsService', () => {
         comment: 'Updated comment',
       };
 
+      const updatedAt = new Date();
       mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
       mockPrismaService.review.update.mockResolvedValue({
         ...mockReview,
         rating: 4,
         comment: 'Updated comment',
+        updatedAt,
       });
 
       // Act
@@ -467,9 +734,16 @@ describe('ReviewsService', () => {
       expect(mockPrismaService.review.findUnique).toHaveBeenCalledWith({
         where: { id: reviewId },
       });
+      expect(mockPrismaService.reviewRevision.create).toHaveBeenCalledWith({
+        data: {
+          reviewId,
+          rating: mockReview.rating,
+          comment: mockReview.comment,
+        },
+      });
       expect(mockPrismaService.review.update).toHaveBeenCalledWith({
         where: { id: reviewId },
-        data: updateReviewDto,
+        data: { ...updateReviewDto, updatedAt: expect.any(Date) as Date },
         include: {
           user: {
             select: {
@@ -482,12 +756,62 @@ describe('ReviewsService', () => {
               artist: true,
             },
           },
+          trackRatings: trackRatingsInclude,
         },
       });
+      expect(mockAlbumRatingsService.applyRatingChange).toHaveBeenCalledWith(
+        mockPrismaService,
+        mockReview.albumId,
+        { removed: mockReview.rating, added: 4 },
+      );
       expect(result).toEqual({
         ...mockReview,
+        album: mockAlbumOutput,
         rating: 4,
         comment: 'Updated comment',
+        updatedAt,
+        stars: 2,
+        edited: true,
+      });
+    });
+
+    it('should not update rating aggregates when the rating is unchanged', async () => {
+      // Arrange
+      mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
+      mockPrismaService.review.update.mockResolvedValue({
+        ...mockReview,
+        comment: 'Only the comment',
+      });
+
+      // Act
+      await service.update(1, 1, { comment: 'Only the comment' });
+
+      // Assert
+      expect(mockAlbumRatingsService.applyRatingChange).not.toHaveBeenCalled();
+    });
+
+    it('should base the aggregates and the revision on the locked review', async () => {
+      // Arrange : la note a changé entre la vérification et la transaction
+      mockPrismaService.review.findUnique
+        .mockResolvedValueOnce(mockReview)
+        .mockResolvedValueOnce({ ...mockReview, rating: 7 });
+      mockPrismaService.review.update.mockResolvedValue({
+        ...mockReview,
+        rating: 4,
+      });
+
+      // Act
+      await service.update(1, 1, { rating: 4 });
+
+      // Assert
+      expect(mockPrismaService.$queryRaw).toHaveBeenCalled();
+      expect(mockAlbumRatingsService.applyRatingChange).toHaveBeenCalledWith(
+        mockPrismaService,
+        mockReview.albumId,
+        { removed: 7, added: 4 },
+      );
+      expect(mockPrismaService.reviewRevision.create).toHaveBeenCalledWith({
+        data: { reviewId: 1, rating: 7, comment: mockReview.comment },
       });
     });
 
@@ -512,6 +836,7 @@ describe('ReviewsService', () => {
         where: { id: reviewId },
       });
       expect(mockPrismaService.review.update).not.toHaveBeenCalled();
+      expect(mockPrismaService.reviewRevision.create).not.toHaveBeenCalled();
     });
 
     it('should throw ForbiddenException if user is not the author', async () => {
@@ -535,6 +860,126 @@ describe('ReviewsService', () => {
         where: { id: reviewId },
       });
       expect(mockPrismaService.review.update).not.toHaveBeenCalled();
+      expect(mockPrismaService.reviewRevision.create).not.toHaveBeenCalled();
+    });
+
+    it('should replace the track ratings of a review', async () => {
+      // Arrange
+      const trackRatings = [{ trackId: 3, rating: 4 }];
+      mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
+      mockPrismaService.track.count.mockResolvedValue(1);
+      mockPrismaService.review.update.mockResolvedValue(mockReview);
+
+      // Act
+      await service.update(1, 1, { comment: 'Updated', trackRatings });
+
+      // Assert
+      expect(mockPrismaService.track.count).toHaveBeenCalledWith({
+        where: { albumId: mockReview.albumId, id: { in: [3] } },
+      });
+      expect(mockPrismaService.review.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            comment: 'Updated',
+            updatedAt: expect.any(Date) as Date,
+            trackRatings: { deleteMany: {}, create: trackRatings },
+          },
+        }),
+      );
+    });
+
+    it('should not record a revision when only the track ratings change', async () => {
+      // Arrange
+      const trackRatings = [{ trackId: 3, rating: 4 }];
+      mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
+      mockPrismaService.track.count.mockResolvedValue(1);
+      mockPrismaService.review.update.mockResolvedValue(mockReview);
+
+      // Act
+      const result = await service.update(1, 1, { trackRatings });
+
+      // Assert
+      expect(mockPrismaService.reviewRevision.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.review.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { trackRatings: { deleteMany: {}, create: trackRatings } },
+        }),
+      );
+      expect(result.edited).toBe(false);
+    });
+
+    it('should leave the review untouched when nothing changes', async () => {
+      // Arrange
+      mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
+      mockPrismaService.review.update.mockResolvedValue(mockReview);
+
+      // Act
+      await service.update(1, 1, {
+        rating: mockReview.rating,
+        comment: mockReview.comment,
+      });
+
+      // Assert
+      expect(mockAlbumRatingsService.applyRatingChange).not.toHaveBeenCalled();
+      expect(mockPrismaService.reviewRevision.create).not.toHaveBeenCalled();
+      expect(mockPrismaService.review.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { rating: mockReview.rating, comment: mockReview.comment },
+        }),
+      );
+    });
+  });
+
+  describe('findRevisions', () => {
+    const mockRevision = {
+      id: 3,
+      reviewId: 1,
+      rating: 4,
+      comment: 'First impression',
+      createdAt: new Date('2026-10-01T12:00:00Z'),
+    };
+
+    it('should return the previous versions to the author', async () => {
+      mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
+      mockPrismaService.reviewRevision.findMany.mockResolvedValue([
+        mockRevision,
+      ]);
+
+      const result = await service.findRevisions(1, 1);
+
+      expect(mockPrismaService.reviewRevision.findMany).toHaveBeenCalledWith({
+        where: { reviewId: 1 },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 11,
+      });
+      expect(result).toEqual({
+        items: [mockRevision],
+        pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+      });
+    });
+
+    it('should let an administrator see the revisions', async () => {
+      mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
+      mockPrismaService.reviewRevision.findMany.mockResolvedValue([]);
+
+      await expect(service.findRevisions(1, 2, Role.Admin)).resolves.toEqual(
+        expect.objectContaining({ items: [] }),
+      );
+    });
+
+    it('should forbid other users', async () => {
+      mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
+
+      await expect(service.findRevisions(1, 2)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockPrismaService.reviewRevision.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if review does not exist', async () => {
+      await expect(service.findRevisions(999, 1)).rejects.toThrow(
+        NotFoundException,
+      );
     });
   });
 
@@ -557,9 +1002,33 @@ describe('ReviewsService', () => {
       expect(mockPrismaService.review.delete).toHaveBeenCalledWith({
         where: { id: reviewId },
       });
+      expect(mockAlbumRatingsService.applyRatingChange).toHaveBeenCalledWith(
+        mockPrismaService,
+        mockReview.albumId,
+        { removed: mockReview.rating },
+      );
       expect(result).toEqual(mockReview);
     });
 
+    it('should remove the rating read under lock from the aggregates', async () => {
+      // Arrange : la note a changé entre la vérification et la transaction
+      mockPrismaService.review.findUnique
+        .mockResolvedValueOnce(mockReview)
+        .mockResolvedValueOnce({ ...mockReview, rating: 7 });
+      mockPrismaService.review.delete.mockResolvedValue(mockReview);
+
+      // Act
+      await service.remove(1, 1);
+
+      // Assert
+      expect(mockPrismaService.$queryRaw).toHaveBeenCalled();
+      expect(mockAlbumRatingsService.applyRatingChange).toHaveBeenCalledWith(
+        mockPrismaService,
+        mockReview.albumId,
+        { removed: 7 },
+      );
+    });
+
     it('should throw NotFoundException if review does not exist', async () => {
       // Arrange
       const reviewId = 999;
@@ -593,5 +1062,124 @@ describe('ReviewsService', () => {
       });
       expect(mockPrismaService.review.delete).not.toHaveBeenCalled();
     });
+
+    it('should allow an admin to delete any review', async () => {
+      // Arrange
+      const reviewId = 1;
+      const adminId = 2;
+
+      mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
+      mockPrismaService.review.delete.mockResolvedValue(mockReview);
+
+      // Act
+      const result = await service.remove(reviewId, adminId, Role.Admin);
+
+      // Assert
+      expect(mockPrismaService.review.delete).toHaveBeenCalledWith({
+        where: { id: reviewId },
+      });
+      expect(result).toEqual(mockReview);
+    });
+  });
+
+  describe('like', () => {
+    it('should like an existing review', async () => {
+      const like = { userId: 2, reviewId: 1, createdAt: new Date() };
+      mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
+      mockPrismaService.reviewLike.create.mockResolvedValue(like);
+
+      const result = await service.like(1, 2);
+
+      expect(mockPrismaService.reviewLike.create).toHaveBeenCalledWith({
+        data: { userId: 2, reviewId: 1 },
+      });
+      expect(mockPrismaService.review.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { likeCount: { increment: 1 } },
+      });
+      expect(result).toEqual(like);
+    });
+
+    it('should throw NotFoundException if review does not exist', async () => {
+      await expect(service.like(999, 2)).rejects.toThrow(
+        new NotFoundException('Review with ID 999 not found'),
+      );
+      expect(mockPrismaService.reviewLike.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException if the review is already liked', async () => {
+      mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
+      mockPrismaService.reviewLike.create.mockRejectedValue({
+        code: 'P2002',
+      });
+
+      await expect(service.like(1, 2)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('unlike', () => {
+    it('should remove an existing like', async () => {
+      mockPrismaService.reviewLike.findUnique.mockResolvedValue({
+        userId: 2,
+        reviewId: 1,
+      });
+
+      await service.unlike(1, 2);
+
+      expect(mockPrismaService.reviewLike.delete).toHaveBeenCalledWith({
+        where: { userId_reviewId: { userId: 2, reviewId: 1 } },
+      });
+      expect(mockPrismaService.review.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { likeCount: { decrement: 1 } },
+      });
+    });
+
+    it('should throw NotFoundException if the review is not liked', async () => {
+      mockPrismaService.reviewLike.findUnique.mockResolvedValue(null);
+
+      await expect(service.unlike(1, 2)).rejects.toThrow(
+        new NotFoundException('You do not like this review'),
+      );
+      expect(mockPrismaService.reviewLike.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findLikes', () => {
+    it('should return the likes of a review with pagination', async () => {
+      const likes = [
+        { userId: 2, reviewId: 1, user: { id: 2, username: 'fan' } },
+      ];
+      mockPrismaService.review.findUnique.mockResolvedValue(mockReview);
+      mockPrismaService.reviewLike.findMany.mockResolvedValue(likes);
+      mockPrismaService.reviewLike.count.mockResolvedValue(1);
+
+      const result = await service.findLikes(1, { skip: 0, take: 10 });
+
+      expect(mockPrismaService.reviewLike.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { reviewId: 1 },
+          orderBy: [{ createdAt: 'desc' }, { userId: 'desc' }],
+          skip: 0,
+          take: 10,
+        }),
+      );
+      expect(result).toEqual({
+        items: likes,
+        pageInfo: {
+          take: 10,
+          hasNextPage: false,
+          nextCursor: null,
+          skip: 0,
+          total: 1,
+        },
+      });
+    });
+
+    it('should throw NotFoundException if review does not exist', async () => {
+      await expect(service.findLikes(999)).rejects.toThrow(
+        new NotFoundException('Review with ID 999 not found'),
+      );
+    });
   });
 });
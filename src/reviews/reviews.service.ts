@@ -1,16 +1,84 @@
 import {
+  BadRequestException,
   Injectable,
   NotFoundException,
   ConflictException,
   ForbiddenException,
 } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateReviewDto } from './dto/create-review.dto';
 import { UpdateReviewDto } from './dto/update-review.dto';
+import { TrackRatingDto } from './dto/track-rating.dto';
+import { Role } from '../auth/enums/role.enum';
+import { AlbumRatingsService } from '../albums/album-ratings.service';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import {
+  CREATED_AT_ASC,
+  CREATED_AT_DESC,
+  paginate,
+  SortKey,
+} from '../common/pagination/paginate';
+import { GetReviewsDto } from './dto/get-reviews.dto';
+import { ReviewSort } from './enums/review-sort.enum';
+import { ReviewRow, toReviewOutput } from './review-output';
+
+// Notes de pistes d'une critique, dans l'ordre de lecture de l'album
+const trackRatingsInclude = {
+  include: { track: true },
+  orderBy: [
+    { track: { discNumber: 'asc' as const } },
+    { track: { trackNumber: 'asc' as const } },
+  ],
+};
+
+// Relations incluses dans les lectures de critiques, avec le nombre
+// de "j'aime" et de commentaires visibles
+const reviewInclude = {
+  user: {
+    select: {
+      id: true,
+      username: true,
+    },
+  },
+  album: {
+    include: {
+      artist: true,
+    },
+  },
+  trackRatings: trackRatingsInclude,
+  _count: {
+    select: {
+      likes: true,
+      comments: { where: { deletedAt: null } },
+    },
+  },
+};
+
+// Clés de tri de chaque ordre ; à note ou popularité égale, les plus récentes d'abord
+const reviewSortKeys: Record<ReviewSort, SortKey[]> = {
+  [ReviewSort.Newest]: CREATED_AT_DESC,
+  [ReviewSort.Oldest]: CREATED_AT_ASC,
+  [ReviewSort.HighestRating]: [
+    { field: 'rating', direction: 'desc' },
+    ...CREATED_AT_DESC,
+  ],
+  [ReviewSort.LowestRating]: [
+    { field: 'rating', direction: 'asc' },
+    ...CREATED_AT_DESC,
+  ],
+  [ReviewSort.MostLiked]: [
+    { field: 'likeCount', direction: 'desc' },
+    ...CREATED_AT_DESC,
+  ],
+};
 
 @Injectable()
 export class ReviewsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private albumRatingsService: AlbumRatingsService,
+  ) {}
 
   async create(userId: number, createReviewDto: CreateReviewDto) {
     // Vérifier si l'album existe
@@ -24,6 +92,13 @@ export class ReviewsService {
       );
     }
 
+    // Un album retiré du catalogue garde ses critiques mais n'en reçoit plus
+    if (album.removedAt) {
+      throw new BadRequestException(
+        'You cannot review an album removed from the catalog',
+      );
+    }
+
     // Vérifier si l'utilisateur a déjà écrit une critique pour cet album
     const existingReview = await this.prisma.review.findUnique({
       where: {
@@ -38,37 +113,24 @@ export class ReviewsService {
       throw new ConflictException('You have already reviewed this album');
     }
 
-    // Créer la critique
-    return this.prisma.review.create({
-      data: {
-        userId,
-        albumId: createReviewDto.albumId,
-        rating: createReviewDto.rating,
-        comment: createReviewDto.comment,
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-          },
-        },
-        album: {
-          include: {
-            artist: true,
-          },
-        },
-      },
-    });
-  }
+    const { trackRatings } = createReviewDto;
+    await this.validateTrackRatings(createReviewDto.albumId, trackRatings);
+
+    // Créer la critique et mettre à jour les agrégats de l'album
+    return this.prisma.$transaction(async (tx) => {
+      await this.albumRatingsService.applyRatingChange(
+        tx,
+        createReviewDto.albumId,
+        { added: createReviewDto.rating },
+      );
 
-  async findAll(skip = 0, take = 10) {
-    const [reviews, total] = await Promise.all([
-      this.prisma.review.findMany({
-        skip,
-        take,
-        orderBy: {
-          createdAt: 'desc',
+      const review = await tx.review.create({
+        data: {
+          userId,
+          albumId: createReviewDto.albumId,
+          rating: createReviewDto.rating,
+          comment: createReviewDto.comment,
+          ...(trackRatings && { trackRatings: { create: trackRatings } }),
         },
         include: {
           user: {
@@ -82,23 +144,19 @@ export class ReviewsService {
               artist: true,
             },
           },
+          trackRatings: trackRatingsInclude,
         },
-      }),
-      this.prisma.review.count(),
-    ]);
+      });
 
-    return {
-      reviews,
-      meta: {
-        total,
-        skip,
-        take,
-        hasMore: skip + take < total,
-      },
-    };
+      return toReviewOutput(review);
+    });
+  }
+
+  async findAll(query: GetReviewsDto = {}) {
+    return this.findPage({}, query);
   }
 
-  async findByAlbumId(albumId: number, skip = 0, take = 10) {
+  async findByAlbumId(albumId: number, query: GetReviewsDto = {}) {
     // Vérifier si l'album existe
     const album = await this.prisma.album.findUnique({
       where: { id: albumId },
@@ -108,45 +166,10 @@ export class ReviewsService {
       throw new NotFoundException(`Album with ID ${albumId} not found`);
     }
 
-    const [reviews, total] = await Promise.all([
-      this.prisma.review.findMany({
-        where: { albumId },
-        skip,
-        take,
-        orderBy: {
-          createdAt: 'desc',
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              username: true,
-            },
-          },
-          album: {
-            include: {
-              artist: true,
-            },
-          },
-        },
-      }),
-      this.prisma.review.count({
-        where: { albumId },
-      }),
-    ]);
-
-    return {
-      reviews,
-      meta: {
-        total,
-        skip,
-        take,
-        hasMore: skip + take < total,
-      },
-    };
+    return this.findPage({ albumId }, query);
   }
 
-  async findByUserId(userId: number, skip = 0, take = 10) {
+  async findByUserId(userId: number, query: GetReviewsDto = {}) {
     // Vérifier si l'utilisateur existe
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
@@ -156,13 +179,77 @@ export class ReviewsService {
       throw new NotFoundException(`User with ID ${userId} not found`);
     }
 
-    const [reviews, total] = await Promise.all([
-      this.prisma.review.findMany({
-        where: { userId },
-        skip,
-        take,
-        orderBy: {
-          createdAt: 'desc',
+    return this.findPage({ userId }, query);
+  }
+
+  async findOne(id: number) {
+    const review = await this.prisma.review.findUnique({
+      where: { id },
+      include: reviewInclude,
+    });
+
+    if (!review) {
+      throw new NotFoundException(`Review with ID ${id} not found`);
+    }
+
+    return toReviewOutput(review);
+  }
+
+  async update(id: number, userId: number, updateReviewDto: UpdateReviewDto) {
+    // Vérifier si la critique existe
+    const review = await this.prisma.review.findUnique({
+      where: { id },
+    });
+
+    if (!review) {
+      throw new NotFoundException(`Review with ID ${id} not found`);
+    }
+
+    // Vérifier si l'utilisateur est bien l'auteur de la critique
+    if (review.userId !== userId) {
+      throw new ForbiddenException('You can only update your own reviews');
+    }
+
+    const { trackRatings, ...data } = updateReviewDto;
+    await this.validateTrackRatings(review.albumId, trackRatings);
+
+    // Mettre à jour la critique et, si la note change, les agrégats de l'album
+    // Les notes de pistes fournies remplacent les précédentes
+    // Seuls la note et le commentaire sont historisés : la version remplacée
+    // n'est conservée, et la critique marquée comme modifiée, que s'ils changent
+    return this.prisma.$transaction(async (tx) => {
+      const current = await this.lockReview(tx, id);
+      const ratingChanged =
+        data.rating !== undefined && data.rating !== current.rating;
+      const commentChanged =
+        data.comment !== undefined && data.comment !== current.comment;
+      const edited = ratingChanged || commentChanged;
+
+      if (ratingChanged) {
+        await this.albumRatingsService.applyRatingChange(tx, current.albumId, {
+          removed: current.rating,
+          added: data.rating,
+        });
+      }
+
+      if (edited) {
+        await tx.reviewRevision.create({
+          data: {
+            reviewId: id,
+            rating: current.rating,
+            comment: current.comment,
+          },
+        });
+      }
+
+      const updated = await tx.review.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(edited && { updatedAt: new Date() }),
+          ...(trackRatings && {
+            trackRatings: { deleteMany: {}, create: trackRatings },
+          }),
         },
         include: {
           user: {
@@ -176,50 +263,44 @@ export class ReviewsService {
               artist: true,
             },
           },
+          trackRatings: trackRatingsInclude,
         },
-      }),
-      this.prisma.review.count({
-        where: { userId },
-      }),
-    ]);
+      });
 
-    return {
-      reviews,
-      meta: {
-        total,
-        skip,
-        take,
-        hasMore: skip + take < total,
-      },
-    };
+      return toReviewOutput(updated);
+    });
   }
 
-  async findOne(id: number) {
+  // Versions précédentes d'une critique, de la plus récente à la plus ancienne
+  // Réservées à l'auteur de la critique et aux modérateurs
+  async findRevisions(
+    id: number,
+    userId: number,
+    role: Role = Role.User,
+    query: PaginationQueryDto = {},
+  ) {
     const review = await this.prisma.review.findUnique({
       where: { id },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-          },
-        },
-        album: {
-          include: {
-            artist: true,
-          },
-        },
-      },
     });
 
     if (!review) {
       throw new NotFoundException(`Review with ID ${id} not found`);
     }
 
-    return review;
+    if (review.userId !== userId && role !== Role.Admin) {
+      throw new ForbiddenException(
+        'You can only view the revisions of your own reviews',
+      );
+    }
+
+    return paginate(
+      this.prisma.reviewRevision,
+      { where: { reviewId: id } },
+      query,
+    );
   }
 
-  async update(id: number, userId: number, updateReviewDto: UpdateReviewDto) {
+  async remove(id: number, userId: number, role: Role = Role.User) {
     // Vérifier si la critique existe
     const review = await this.prisma.review.findUnique({
       where: { id },
@@ -229,49 +310,205 @@ export class ReviewsService {
       throw new NotFoundException(`Review with ID ${id} not found`);
     }
 
-    // Vérifier si l'utilisateur est bien l'auteur de la critique
-    if (review.userId !== userId) {
-      throw new ForbiddenException('You can only update your own reviews');
+    // Vérifier si l'utilisateur est l'auteur de la critique ou un modérateur
+    if (review.userId !== userId && role !== Role.Admin) {
+      throw new ForbiddenException('You can only delete your own reviews');
     }
 
-    // Mettre à jour la critique
-    return this.prisma.review.update({
-      where: { id },
-      data: updateReviewDto,
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-          },
-        },
-        album: {
-          include: {
-            artist: true,
-          },
-        },
-      },
+    // Supprimer la critique et la retirer des agrégats de l'album
+    return this.prisma.$transaction(async (tx) => {
+      const current = await this.lockReview(tx, id);
+
+      await this.albumRatingsService.applyRatingChange(tx, current.albumId, {
+        removed: current.rating,
+      });
+
+      return tx.review.delete({
+        where: { id },
+      });
     });
   }
 
-  async remove(id: number, userId: number) {
-    // Vérifier si la critique existe
+  // Aimer une critique
+  async like(reviewId: number, userId: number) {
     const review = await this.prisma.review.findUnique({
-      where: { id },
+      where: { id: reviewId },
     });
+    if (!review) {
+      throw new NotFoundException(`Review with ID ${reviewId} not found`);
+    }
 
+    // Créer le "j'aime" et mettre à jour le compteur de la critique
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const like = await tx.reviewLike.create({
+          data: { userId, reviewId },
+        });
+        await tx.review.update({
+          where: { id: reviewId },
+          data: { likeCount: { increment: 1 } },
+        });
+        return like;
+      });
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException('You already like this review');
+      }
+      throw error;
+    }
+  }
+
+  // Retirer son "j'aime" d'une critique
+  async unlike(reviewId: number, userId: number) {
+    const like = await this.prisma.reviewLike.findUnique({
+      where: { userId_reviewId: { userId, reviewId } },
+    });
+    if (!like) {
+      throw new NotFoundException('You do not like this review');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.reviewLike.delete({
+        where: { userId_reviewId: { userId, reviewId } },
+      });
+      await tx.review.update({
+        where: { id: reviewId },
+        data: { likeCount: { decrement: 1 } },
+      });
+    });
+  }
+
+  // Utilisateurs ayant aimé une critique, des plus récents aux plus anciens
+  // (l'ID de l'utilisateur départage les "j'aime" d'une même critique)
+  async findLikes(reviewId: number, query: PaginationQueryDto = {}) {
+    const review = await this.prisma.review.findUnique({
+      where: { id: reviewId },
+    });
+    if (!review) {
+      throw new NotFoundException(`Review with ID ${reviewId} not found`);
+    }
+
+    return paginate(
+      this.prisma.reviewLike,
+      {
+        where: { reviewId },
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+            },
+          },
+        },
+      },
+      query,
+      [
+        { field: 'createdAt', direction: 'desc' },
+        { field: 'userId', direction: 'desc' },
+      ],
+    );
+  }
+
+  // Page de critiques triée et filtrée selon les paramètres de la requête
+  private async findPage(where: object, query: GetReviewsDto) {
+    const page = await paginate<ReviewRow>(
+      this.prisma.review,
+      {
+        where: { ...where, ...this.buildReviewFilter(query) },
+        include: reviewInclude,
+      },
+      query,
+      reviewSortKeys[query.sort ?? ReviewSort.Newest],
+    );
+
+    return {
+      ...page,
+      items: page.items.map((review) => toReviewOutput(review)),
+    };
+  }
+
+  // Relire la critique en verrouillant sa ligne jusqu'à la fin de la transaction :
+  // deux modifications concurrentes partent ainsi de la note réellement enregistrée
+  private async lockReview(tx: Prisma.TransactionClient, id: number) {
+    await tx.$queryRaw`SELECT "id" FROM "Review" WHERE "id" = ${id} FOR UPDATE`;
+
+    const review = await tx.review.findUnique({ where: { id } });
     if (!review) {
       throw new NotFoundException(`Review with ID ${id} not found`);
     }
 
-    // Vérifier si l'utilisateur est bien l'auteur de la critique
-    if (review.userId !== userId) {
-      throw new ForbiddenException('You can only delete your own reviews');
+    return review;
+  }
+
+  // Chaque piste notée doit appartenir à l'album critiqué, une seule fois
+  private async validateTrackRatings(
+    albumId: number,
+    trackRatings: TrackRatingDto[] = [],
+  ) {
+    if (trackRatings.length === 0) {
+      return;
     }
 
-    // Supprimer la critique
-    return this.prisma.review.delete({
-      where: { id },
+    const trackIds = new Set(trackRatings.map((rating) => rating.trackId));
+    if (trackIds.size !== trackRatings.length) {
+      throw new BadRequestException('Each track can only be rated once');
+    }
+
+    const trackCount = await this.prisma.track.count({
+      where: { albumId, id: { in: [...trackIds] } },
     });
+    if (trackCount !== trackIds.size) {
+      throw new BadRequestException(
+        'Rated tracks must belong to the reviewed album',
+      );
+    }
+  }
+
+  private buildReviewFilter({
+    minRating,
+    maxRating,
+    from,
+    to,
+    hasComment,
+    artistId,
+  }: GetReviewsDto) {
+    if (
+      minRating !== undefined &&
+      maxRating !== undefined &&
+      minRating > maxRating
+    ) {
+      throw new BadRequestException(
+        'minRating must be less than or equal to maxRating',
+      );
+    }
+
+    if (from !== undefined && to !== undefined && from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    return {
+      ...((minRating !== undefined || maxRating !== undefined) && {
+        rating: {
+          ...(minRating !== undefined && { gte: minRating }),
+          ...(maxRating !== undefined && { lte: maxRating }),
+        },
+      }),
+      ...((from !== undefined || to !== undefined) && {
+        createdAt: {
+          ...(from !== undefined && { gte: from }),
+          ...(to !== undefined && { lt: to }),
+        },
+      }),
+      // Un commentaire vide compte comme une note seule
+      ...(hasComment === true && {
+        NOT: [{ comment: null }, { comment: '' }],
+      }),
+      ...(hasComment === false && {
+        OR: [{ comment: null }, { comment: '' }],
+      }),
+      ...(artistId !== undefined && {
+        album: { artists: { some: { artistId } } },
+      }),
+    };
   }
 }
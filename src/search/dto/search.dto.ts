@@ -0,0 +1,48 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { SearchType } from '../enums/search-type.enum';
+
+export class SearchDto {
+  @ApiProperty({
+    description:
+      'Texte recherché (insensible aux accents et à la casse, chaque mot peut être incomplet)',
+    example: 'daft pun',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  q: string;
+
+  @ApiProperty({
+    description: 'Type de résultats (tous par défaut)',
+    enum: SearchType,
+    required: false,
+    default: SearchType.All,
+  })
+  @IsOptional()
+  @IsEnum(SearchType)
+  type?: SearchType = SearchType.All;
+
+  @ApiProperty({
+    description: 'Nombre maximal de résultats par type',
+    example: 5,
+    required: false,
+    default: 5,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  @Type(() => Number)
+  limit?: number = 5;
+}
@@ -0,0 +1,8 @@
+// Types de résultats de la recherche locale
+export enum SearchType {
+  All = 'all',
+  Albums = 'albums',
+  Artists = 'artists',
+  Users = 'users',
+  Reviews = 'reviews',
+}
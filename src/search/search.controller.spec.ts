@@ -0,0 +1,57 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext } from '@nestjs/common';
+import { SearchController } from './search.controller';
+import { SearchService } from './search.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { SearchType } from './enums/search-type.enum';
+
+describe('SearchController', () => {
+  let controller: SearchController;
+
+  const mockResults = {
+    query: 'daft',
+    albums: [],
+    artists: [{ id: 1, name: 'Daft Punk', relevance: 0.6 }],
+    users: [],
+    reviews: [],
+  };
+
+  const mockSearchService = {
+    search: jest.fn().mockResolvedValue(mockResults),
+  };
+
+  const mockJwtAuthGuard = {
+    canActivate: jest.fn().mockImplementation((context: ExecutionContext) => {
+      const request = context.switchToHttp().getRequest();
+      request.user = { id: 1, username: 'testuser' };
+      return true;
+    }),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SearchController],
+      providers: [{ provide: SearchService, useValue: mockSearchService }],
+    })
+      .overrideGuard(JwtAuthGuard)
+      .useValue(mockJwtAuthGuard)
+      .compile();
+
+    controller = module.get<SearchController>(SearchController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should search with the query parameters', async () => {
+    const query = { q: 'daft', type: SearchType.Artists, limit: 5 };
+
+    const result = await controller.search(query);
+
+    expect(mockSearchService.search).toHaveBeenCalledWith(query);
+    expect(result).toEqual(mockResults);
+  });
+});
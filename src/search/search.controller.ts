@@ -0,0 +1,41 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SearchService } from './search.service';
+import { SearchDto } from './dto/search.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('search')
+@ApiBearerAuth()
+@Controller('search')
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @ApiOperation({
+    summary: 'Rechercher dans le catalogue local',
+    description:
+      'Recherche plein texte, insensible aux accents, dans les albums, artistes, utilisateurs et commentaires de critiques déjà enregistrés',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Résultats regroupés par type, chacun classé par pertinence (relevance)',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Paramètres de recherche invalides',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Non autorisé',
+  })
+  @UseGuards(JwtAuthGuard)
+  @Get()
+  search(@Query() query: SearchDto) {
+    return this.searchService.search(query);
+  }
+}
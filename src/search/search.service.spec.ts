@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SearchService } from './search.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SearchType } from './enums/search-type.enum';
+import { ReleaseDatePrecision } from '../albums/enums/release-date-precision.enum';
+
+describe('SearchService', () => {
+  let service: SearchService;
+
+  const mockPrismaService = {
+    $queryRaw: jest.fn(),
+    album: { findMany: jest.fn() },
+    artist: { findMany: jest.fn() },
+    user: { findMany: jest.fn() },
+    review: { findMany: jest.fn() },
+  };
+
+  // Valeurs interpolées dans la requête SQL (après le tableau de chaînes)
+  const queryValues = (call: number) =>
+    mockPrismaService.$queryRaw.mock.calls[call].slice(1);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<SearchService>(SearchService);
+
+    mockPrismaService.$queryRaw.mockResolvedValue([]);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should search every type by default', async () => {
+    const result = await service.search({ q: 'daft' });
+
+    expect(mockPrismaService.$queryRaw).toHaveBeenCalledTimes(4);
+    expect(result).toEqual({
+      query: 'daft',
+      albums: [],
+      artists: [],
+      users: [],
+      reviews: [],
+    });
+  });
+
+  it('should build a prefix query where every word must match', async () => {
+    await service.search({
+      q: 'Daft  pun!',
+      type: SearchType.Artists,
+      limit: 3,
+    });
+
+    expect(mockPrismaService.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(queryValues(0)).toEqual([
+      'public.simple_unaccent',
+      'Daft:* & pun:*',
+      3,
+    ]);
+  });
+
+  it('should keep accented letters and let PostgreSQL remove the accents', async () => {
+    await service.search({ q: 'Télépopmusik', type: SearchType.Artists });
+
+    expect(queryValues(0)[1]).toBe('Télépopmusik:*');
+  });
+
+  it('should leave albums removed from the catalog out of the results', async () => {
+    await service.search({ q: 'daft', type: SearchType.Albums });
+
+    const [fragments] = mockPrismaService.$queryRaw.mock.calls[0] as [
+      TemplateStringsArray,
+    ];
+    expect(fragments.join('')).toContain('"removedAt" IS NULL');
+  });
+
+  it('should search review comments with the French configuration', async () => {
+    await service.search({ q: 'chansons', type: SearchType.Reviews });
+
+    expect(queryValues(0)[0]).toBe('public.french_unaccent');
+  });
+
+  it('should give the ratings of the reviews found in stars', async () => {
+    mockPrismaService.$queryRaw.mockResolvedValue([{ id: 4, rank: 0.5 }]);
+    mockPrismaService.review.findMany.mockResolvedValue([
+      {
+        id: 4,
+        rating: 9,
+        updatedAt: null,
+        album: { id: 1, releaseDate: null, averageRating: 9 },
+      },
+    ]);
+
+    const result = await service.search({
+      q: 'chansons',
+      type: SearchType.Reviews,
+    });
+
+    expect(result.reviews).toEqual([
+      {
+        id: 4,
+        rating: 9,
+        updatedAt: null,
+        album: {
+          id: 1,
+          releaseDate: null,
+          averageRating: 9,
+          averageStars: 4.5,
+        },
+        stars: 4.5,
+        edited: false,
+        relevance: 0.5,
+      },
+    ]);
+  });
+
+  it('should not query the database when the text has no word', async () => {
+    const result = await service.search({ q: '&|!' });
+
+    expect(mockPrismaService.$queryRaw).not.toHaveBeenCalled();
+    expect(result.albums).toEqual([]);
+  });
+
+  it('should return the albums in relevance order', async () => {
+    mockPrismaService.$queryRaw.mockResolvedValue([
+      { id: 2, rank: 0.9 },
+      { id: 1, rank: 0.4 },
+    ]);
+    mockPrismaService.album.findMany.mockResolvedValue([
+      {
+        id: 1,
+        title: 'Homework',
+        releaseDate: new Date('1997-01-01T00:00:00Z'),
+        releaseDatePrecision: ReleaseDatePrecision.Year,
+      },
+      { id: 2, title: 'Discovery', releaseDate: null },
+    ]);
+
+    const result = await service.search({
+      q: 'daft',
+      type: SearchType.Albums,
+    });
+
+    expect(mockPrismaService.album.findMany).toHaveBeenCalledWith({
+      where: { id: { in: [2, 1] } },
+      include: { artist: true },
+    });
+    expect(result.albums).toEqual([
+      { id: 2, title: 'Discovery', releaseDate: null, relevance: 0.9 },
+      {
+        id: 1,
+        title: 'Homework',
+        releaseDate: '1997',
+        releaseDatePrecision: ReleaseDatePrecision.Year,
+        relevance: 0.4,
+      },
+    ]);
+  });
+
+  it('should never expose user emails', async () => {
+    mockPrismaService.$queryRaw.mockResolvedValue([{ id: 1, rank: 0.5 }]);
+    mockPrismaService.user.findMany.mockResolvedValue([
+      { id: 1, username: 'enzo' },
+    ]);
+
+    await service.search({ q: 'enzo', type: SearchType.Users });
+
+    expect(mockPrismaService.user.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        select: { id: true, username: true, createdAt: true },
+      }),
+    );
+  });
+
+  describe('searchAlbumIds', () => {
+    it('should return the IDs of the local albums matching a text', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValue([
+        { id: 2, rank: 0.9 },
+        { id: 1, rank: 0.4 },
+      ]);
+
+      const result = await service.searchAlbumIds('discov', 5);
+
+      expect(queryValues(0)).toEqual(['public.simple_unaccent', 'discov:*', 5]);
+      expect(result).toEqual([2, 1]);
+      expect(mockPrismaService.album.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should return nothing for a text without words', async () => {
+      const result = await service.searchAlbumIds('...', 5);
+
+      expect(result).toEqual([]);
+      expect(mockPrismaService.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+});
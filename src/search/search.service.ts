@@ -0,0 +1,191 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { SearchDto } from './dto/search.dto';
+import { SearchType } from './enums/search-type.enum';
+import { toAlbumOutput } from '../albums/album-output';
+import { toReviewOutput } from '../reviews/review-output';
+
+// Configurations plein texte créées par la migration add_full_text_search :
+// les deux retirent les accents, la seconde applique en plus la racinisation
+// française au texte libre des critiques
+const NAME_SEARCH_CONFIG = 'public.simple_unaccent';
+const TEXT_SEARCH_CONFIG = 'public.french_unaccent';
+
+// Nombre maximal de mots pris en compte dans une recherche
+const MAX_TERMS = 10;
+
+// Ligne trouvée par PostgreSQL et sa pertinence (ts_rank)
+interface SearchHit {
+  id: number;
+  rank: number;
+}
+
+@Injectable()
+export class SearchService {
+  constructor(private prisma: PrismaService) {}
+
+  // Recherche plein texte dans le catalogue local (albums, artistes),
+  // les utilisateurs et les commentaires des critiques
+  // Chaque type de résultat est classé par pertinence (ts_rank)
+  async search({ q, type = SearchType.All, limit = 5 }: SearchDto) {
+    const tsquery = this.toPrefixQuery(q);
+    if (tsquery === null) {
+      return { query: q, albums: [], artists: [], users: [], reviews: [] };
+    }
+
+    const includes = (searchType: SearchType) =>
+      type === SearchType.All || type === searchType;
+
+    const [albums, artists, users, reviews] = await Promise.all([
+      includes(SearchType.Albums) ? this.findAlbums(tsquery, limit) : [],
+      includes(SearchType.Artists) ? this.searchArtists(tsquery, limit) : [],
+      includes(SearchType.Users) ? this.searchUsers(tsquery, limit) : [],
+      includes(SearchType.Reviews) ? this.searchReviews(tsquery, limit) : [],
+    ]);
+
+    return { query: q, albums, artists, users, reviews };
+  }
+
+  // IDs des albums locaux correspondant à un texte, classés par pertinence
+  // (utilisé par la recherche hybride d'AlbumsService)
+  async searchAlbumIds(q: string, limit: number): Promise<number[]> {
+    const tsquery = this.toPrefixQuery(q);
+    if (tsquery === null) {
+      return [];
+    }
+
+    const hits = await this.findAlbumHits(tsquery, limit);
+    return hits.map((hit) => hit.id);
+  }
+
+  private async findAlbums(tsquery: string, limit: number) {
+    const hits = await this.findAlbumHits(tsquery, limit);
+
+    return this.withRelevance(hits, async (ids) => {
+      const albums = await this.prisma.album.findMany({
+        where: { id: { in: ids } },
+        include: { artist: true },
+      });
+
+      return albums.map((album) => toAlbumOutput(album));
+    });
+  }
+
+  // Les albums retirés du catalogue ne sont plus proposés
+  private findAlbumHits(tsquery: string, limit: number): Promise<SearchHit[]> {
+    return this.prisma.$queryRaw`
+      SELECT "id", ts_rank("searchVector", query) AS "rank"
+      FROM "public"."Album", to_tsquery(${NAME_SEARCH_CONFIG}::regconfig, ${tsquery}) AS query
+      WHERE "searchVector" @@ query AND "removedAt" IS NULL
+      ORDER BY "rank" DESC, "id" ASC
+      LIMIT ${limit}
+    `;
+  }
+
+  private async searchArtists(tsquery: string, limit: number) {
+    const hits: SearchHit[] = await this.prisma.$queryRaw`
+      SELECT "id", ts_rank("searchVector", query) AS "rank"
+      FROM "public"."Artist", to_tsquery(${NAME_SEARCH_CONFIG}::regconfig, ${tsquery}) AS query
+      WHERE "searchVector" @@ query
+      ORDER BY "rank" DESC, "id" ASC
+      LIMIT ${limit}
+    `;
+
+    return this.withRelevance(hits, (ids) =>
+      this.prisma.artist.findMany({
+        where: { id: { in: ids } },
+        include: {
+          _count: {
+            select: { albums: true },
+          },
+        },
+      }),
+    );
+  }
+
+  private async searchUsers(tsquery: string, limit: number) {
+    const hits: SearchHit[] = await this.prisma.$queryRaw`
+      SELECT "id", ts_rank("searchVector", query) AS "rank"
+      FROM "public"."User", to_tsquery(${NAME_SEARCH_CONFIG}::regconfig, ${tsquery}) AS query
+      WHERE "searchVector" @@ query
+      ORDER BY "rank" DESC, "id" ASC
+      LIMIT ${limit}
+    `;
+
+    return this.withRelevance(hits, (ids) =>
+      this.prisma.user.findMany({
+        where: { id: { in: ids } },
+        select: {
+          id: true,
+          username: true,
+          createdAt: true,
+        },
+      }),
+    );
+  }
+
+  private async searchReviews(tsquery: string, limit: number) {
+    const hits: SearchHit[] = await this.prisma.$queryRaw`
+      SELECT "id", ts_rank("searchVector", query) AS "rank"
+      FROM "public"."Review", to_tsquery(${TEXT_SEARCH_CONFIG}::regconfig, ${tsquery}) AS query
+      WHERE "searchVector" @@ query
+      ORDER BY "rank" DESC, "id" ASC
+      LIMIT ${limit}
+    `;
+
+    return this.withRelevance(hits, async (ids) => {
+      const reviews = await this.prisma.review.findMany({
+        where: { id: { in: ids } },
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+            },
+          },
+          album: {
+            include: {
+              artist: true,
+            },
+          },
+        },
+      });
+
+      return reviews.map((review) => toReviewOutput(review));
+    });
+  }
+
+  // Charger les lignes trouvées en conservant l'ordre de pertinence
+  private async withRelevance<T extends { id: number }>(
+    hits: SearchHit[],
+    load: (ids: number[]) => Promise<T[]>,
+  ) {
+    if (hits.length === 0) {
+      return [];
+    }
+
+    const rows = await load(hits.map((hit) => hit.id));
+    const rowsById = new Map<number, T>(rows.map((row) => [row.id, row]));
+
+    return hits.flatMap((hit) => {
+      const row = rowsById.get(hit.id);
+      return row ? [{ ...row, relevance: hit.rank }] : [];
+    });
+  }
+
+  // "Daft pun" -> "Daft:* & pun:*" : tous les mots doivent correspondre,
+  // chacun pouvant être le début d'un mot (recherche au fil de la saisie)
+  // Seuls les lettres et chiffres sont conservés, ce qui neutralise la syntaxe tsquery
+  private toPrefixQuery(q: string): string | null {
+    const terms = q
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((term) => term.length > 0)
+      .slice(0, MAX_TERMS);
+
+    if (terms.length === 0) {
+      return null;
+    }
+
+    return terms.map((term) => `${term}:*`).join(' & ');
+  }
+}
@@ -0,0 +1,13 @@
+import { IsEnum } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { Role } from '../../auth/enums/role.enum';
+
+export class UpdateUserRoleDto {
+  @ApiProperty({
+    description: "Nouveau rôle de l'utilisateur",
+    enum: Role,
+    example: Role.Admin,
+  })
+  @IsEnum(Role)
+  role: Role;
+}
@@ -4,7 +4,8 @@ import { UsersService } from './users.service';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { ExecutionContext } from '@nestjs/common';
-import { NotFoundException } from '@nestjs/common';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Role } from '../auth/enums/role.enum';
 
 describe('UsersController', () => {
   let controller: UsersController;
@@ -45,6 +46,29 @@ describe('UsersController', () => {
         throw new NotFoundException(`User with ID ${id} not found`);
       }
     }),
+    updateRole: jest.fn().mockImplementation((id, role) => {
+      return Promise.resolve({
+        id,
+        username: 'testuser',
+        email: 'test@example.com',
+        role,
+        createdAt: new Date(),
+      });
+    }),
+    follow: jest
+      .fn()
+      .mockImplementation((followerId, followingId) =>
+        Promise.resolve({ followerId, followingId, createdAt: new Date() }),
+      ),
+    unfollow: jest.fn().mockResolvedValue(undefined),
+    findFollowers: jest.fn().mockResolvedValue({
+      items: [],
+      pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+    }),
+    findFollowing: jest.fn().mockResolvedValue({
+      items: [],
+      pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+    }),
     remove: jest.fn().mockImplementation((id) => {
       if (id === 1) {
         return Promise.resolve({ id: 1 });
@@ -91,9 +115,9 @@ describe('UsersController', () => {
 
   describe('findAll', () => {
     it('should return an array of users', async () => {
-      const result = await controller.findAll();
+      const result = await controller.findAll({ take: 10 });
       expect(result).toEqual([mockUser]);
-      expect(usersService.findAll).toHaveBeenCalled();
+      expect(usersService.findAll).toHaveBeenCalledWith({ take: 10 });
     });
   });
 
@@ -122,6 +146,26 @@ describe('UsersController', () => {
     });
   });
 
+  describe('findFollowers', () => {
+    it('should return a page of followers', async () => {
+      const result = await controller.findFollowers(1, { take: 10 });
+      expect(result.items).toEqual([]);
+      expect(mockUsersService.findFollowers).toHaveBeenCalledWith(1, {
+        take: 10,
+      });
+    });
+  });
+
+  describe('findFollowing', () => {
+    it('should return a page of followed users', async () => {
+      const result = await controller.findFollowing(1, { take: 10 });
+      expect(result.items).toEqual([]);
+      expect(mockUsersService.findFollowing).toHaveBeenCalledWith(1, {
+        take: 10,
+      });
+    });
+  });
+
   describe('getMe', () => {
     it('should return the current user', async () => {
       const result = await controller.getMe(mockUser);
@@ -161,11 +205,52 @@ describe('UsersController', () => {
         // Si on arrive ici, c'est que l'exception n'a pas été lancée
         fail('Expected Error was not thrown');
       } catch (error) {
-        expect(error).toBeInstanceOf(Error);
+        expect(error).toBeInstanceOf(ForbiddenException);
         expect(error.message).toBe('You can only update your own profile');
         expect(usersService.update).not.toHaveBeenCalled();
       }
     });
+
+    it('should allow an admin to update another user', async () => {
+      const updateUserDto: UpdateUserDto = {
+        username: 'moderated',
+      };
+      const admin = { ...mockUser, id: 3, role: Role.Admin };
+
+      await controller.update(1, updateUserDto, admin);
+
+      expect(usersService.update).toHaveBeenCalledWith(1, updateUserDto);
+    });
+  });
+
+  describe('updateRole', () => {
+    it('should update the role of a user', async () => {
+      const result = await controller.updateRole(1, { role: Role.Admin });
+
+      expect(result).toEqual(
+        expect.objectContaining({ id: 1, role: Role.Admin }),
+      );
+      expect(usersService.updateRole).toHaveBeenCalledWith(1, Role.Admin);
+    });
+  });
+
+  describe('follow', () => {
+    it('should follow a user as the current user', async () => {
+      const result = await controller.follow(2, mockUser);
+
+      expect(result).toEqual(
+        expect.objectContaining({ followerId: 1, followingId: 2 }),
+      );
+      expect(usersService.follow).toHaveBeenCalledWith(1, 2);
+    });
+  });
+
+  describe('unfollow', () => {
+    it('should unfollow a user as the current user', async () => {
+      await controller.unfollow(2, mockUser);
+
+      expect(usersService.unfollow).toHaveBeenCalledWith(1, 2);
+    });
   });
 
   describe('remove', () => {
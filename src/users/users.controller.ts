@@ -6,14 +6,23 @@ import {
   Patch,
   Param,
   Delete,
+  Query,
   UseGuards,
   ParseIntPipe,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateUserRoleDto } from './dto/update-user-role.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../auth/enums/role.enum';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
 import { ApiTags } from '@nestjs/swagger';
 
 @ApiTags('users')
@@ -23,8 +32,8 @@ export class UsersController {
 
   @UseGuards(JwtAuthGuard)
   @Get()
-  findAll() {
-    return this.usersService.findAll();
+  findAll(@Query() query: PaginationQueryDto) {
+    return this.usersService.findAll(query);
   }
 
   @UseGuards(JwtAuthGuard)
@@ -39,6 +48,24 @@ export class UsersController {
     return this.usersService.findOne(id);
   }
 
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/followers')
+  findFollowers(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.usersService.findFollowers(id, query);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Get(':id/following')
+  findFollowing(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: PaginationQueryDto,
+  ) {
+    return this.usersService.findFollowing(id, query);
+  }
+
   @UseGuards(JwtAuthGuard)
   @Patch(':id')
   update(
@@ -46,13 +73,36 @@ export class UsersController {
     @Body() updateUserDto: UpdateUserDto,
     @CurrentUser() user,
   ) {
-    // Vérifier que l'utilisateur ne modifie que son propre profil
-    if (user.id !== id) {
-      throw new Error('You can only update your own profile');
+    // Vérifier que l'utilisateur ne modifie que son propre profil (sauf administrateur)
+    if (user.id !== id && user.role !== Role.Admin) {
+      throw new ForbiddenException('You can only update your own profile');
     }
     return this.usersService.update(id, updateUserDto);
   }
 
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(Role.Admin)
+  @Patch(':id/role')
+  updateRole(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateUserRoleDto: UpdateUserRoleDto,
+  ) {
+    return this.usersService.updateRole(id, updateUserRoleDto.role);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Post(':id/follow')
+  follow(@Param('id', ParseIntPipe) id: number, @CurrentUser() user) {
+    return this.usersService.follow(user.id, id);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Delete(':id/follow')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  unfollow(@Param('id', ParseIntPipe) id: number, @CurrentUser() user) {
+    return this.usersService.unfollow(user.id, id);
+  }
+
   @UseGuards(JwtAuthGuard)
   @Delete(':id')
   remove(@Param('id', ParseIntPipe) id: number, @CurrentUser() user) {
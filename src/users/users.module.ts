@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { AlbumsModule } from '../albums/albums.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, AlbumsModule],
   controllers: [UsersController],
   providers: [UsersService],
   exports: [UsersService],
@@ -1,9 +1,15 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UsersService } from './users.service';
 import { PrismaService } from '../prisma/prisma.service';
-import { ConflictException, NotFoundException } from '@nestjs/common';
+import { AlbumRatingsService } from '../albums/album-ratings.service';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { Role } from '../auth/enums/role.enum';
 import * as bcrypt from 'bcrypt';
 
 // Mock bcrypt pour éviter les opérations de hashing réelles dans les tests
@@ -21,6 +27,23 @@ describe('UsersService', () => {
       update: jest.fn(),
       delete: jest.fn(),
     },
+    follow: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    review: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn((callback: (tx: unknown) => unknown): unknown =>
+      callback(mockPrismaService),
+    ),
+  };
+
+  const mockAlbumRatingsService = {
+    applyRatingChange: jest.fn(),
   };
 
   const mockUser = {
@@ -40,6 +63,10 @@ describe('UsersService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: AlbumRatingsService,
+          useValue: mockAlbumRatingsService,
+        },
       ],
     }).compile();
 
@@ -138,18 +165,29 @@ describe('UsersService', () => {
           id: true,
           username: true,
           email: true,
+          role: true,
           createdAt: true,
         },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 11,
+      });
+      expect(result).toEqual({
+        items: users,
+        pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
       });
-      expect(result).toEqual(users);
     });
   });
 
   describe('findOne', () => {
-    it('should return a user if it exists', async () => {
+    it('should return a user with follower and following counts', async () => {
       // Arrange
       const id = 1;
-      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      const review = { id: 3, rating: 8, updatedAt: null };
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        reviews: [review],
+        _count: { followers: 1, following: 0 },
+      });
 
       // Act
       const result = await service.findOne(id);
@@ -161,11 +199,20 @@ describe('UsersService', () => {
           id: true,
           username: true,
           email: true,
+          role: true,
           createdAt: true,
           reviews: true,
+          _count: {
+            select: { followers: true, following: true },
+          },
         },
       });
-      expect(result).toEqual(mockUser);
+      expect(result).toEqual({
+        ...mockUser,
+        reviews: [{ ...review, stars: 4, edited: false }],
+        followersCount: 1,
+        followingCount: 0,
+      });
     });
 
     it('should throw NotFoundException if user does not exist', async () => {
@@ -182,6 +229,130 @@ describe('UsersService', () => {
     });
   });
 
+  describe('findFollowers', () => {
+    it('should paginate the followers of a user', async () => {
+      // Arrange
+      const follow = {
+        followerId: 2,
+        followingId: 1,
+        createdAt: new Date(),
+        follower: { id: 2, username: 'fan' },
+      };
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockPrismaService.follow.findMany.mockResolvedValue([follow]);
+
+      // Act
+      const result = await service.findFollowers(1, { take: 10 });
+
+      // Assert
+      expect(mockPrismaService.follow.findMany).toHaveBeenCalledWith({
+        where: { followingId: 1 },
+        include: { follower: { select: { id: true, username: true } } },
+        orderBy: [{ createdAt: 'desc' }, { followerId: 'desc' }],
+        take: 11,
+      });
+      expect(result).toEqual({
+        items: [follow],
+        pageInfo: { take: 10, hasNextPage: false, nextCursor: null },
+      });
+    });
+
+    it('should throw NotFoundException if user does not exist', async () => {
+      // Arrange
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.findFollowers(999)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.follow.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findFollowing', () => {
+    it('should paginate the users followed by a user', async () => {
+      // Arrange
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockPrismaService.follow.findMany.mockResolvedValue([]);
+
+      // Act
+      await service.findFollowing(1, { take: 10 });
+
+      // Assert
+      expect(mockPrismaService.follow.findMany).toHaveBeenCalledWith({
+        where: { followerId: 1 },
+        include: { following: { select: { id: true, username: true } } },
+        orderBy: [{ createdAt: 'desc' }, { followingId: 'desc' }],
+        take: 11,
+      });
+    });
+  });
+
+  describe('follow', () => {
+    it('should create a follow relation', async () => {
+      // Arrange
+      const follow = { followerId: 1, followingId: 2, createdAt: new Date() };
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        id: 2,
+      });
+      mockPrismaService.follow.create.mockResolvedValue(follow);
+
+      // Act
+      const result = await service.follow(1, 2);
+
+      // Assert
+      expect(mockPrismaService.follow.create).toHaveBeenCalledWith({
+        data: { followerId: 1, followingId: 2 },
+      });
+      expect(result).toEqual(follow);
+    });
+
+    it('should throw BadRequestException when following yourself', async () => {
+      await expect(service.follow(1, 1)).rejects.toThrow(BadRequestException);
+      expect(mockPrismaService.follow.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException if the followed user does not exist', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.follow(1, 999)).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.follow.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw ConflictException if already following', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        ...mockUser,
+        id: 2,
+      });
+      mockPrismaService.follow.create.mockRejectedValue({ code: 'P2002' });
+
+      await expect(service.follow(1, 2)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('unfollow', () => {
+    it('should delete the follow relation', async () => {
+      mockPrismaService.follow.findUnique.mockResolvedValue({
+        followerId: 1,
+        followingId: 2,
+      });
+
+      await service.unfollow(1, 2);
+
+      expect(mockPrismaService.follow.delete).toHaveBeenCalledWith({
+        where: { followerId_followingId: { followerId: 1, followingId: 2 } },
+      });
+    });
+
+    it('should throw NotFoundException if not following', async () => {
+      mockPrismaService.follow.findUnique.mockResolvedValue(null);
+
+      await expect(service.unfollow(1, 2)).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.follow.delete).not.toHaveBeenCalled();
+    });
+  });
+
   describe('findByUsername', () => {
     it('should return a user if found by username', async () => {
       // Arrange
@@ -246,6 +417,7 @@ describe('UsersService', () => {
           id: true,
           username: true,
           email: true,
+          role: true,
           createdAt: true,
         },
       });
@@ -315,11 +487,57 @@ describe('UsersService', () => {
     });
   });
 
+  describe('updateRole', () => {
+    it('should update the role of an existing user', async () => {
+      // Arrange
+      const id = 1;
+      const updatedUser = {
+        id,
+        username: 'testuser',
+        email: 'test@example.com',
+        role: Role.Admin,
+        createdAt: new Date(),
+      };
+
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockPrismaService.user.update.mockResolvedValue(updatedUser);
+
+      // Act
+      const result = await service.updateRole(id, Role.Admin);
+
+      // Assert
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id },
+        data: { role: Role.Admin },
+        select: {
+          id: true,
+          username: true,
+          email: true,
+          role: true,
+          createdAt: true,
+        },
+      });
+      expect(result).toEqual(updatedUser);
+    });
+
+    it('should throw NotFoundException if user does not exist', async () => {
+      // Arrange
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(service.updateRole(999, Role.Admin)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('remove', () => {
     it('should delete a user if it exists', async () => {
       // Arrange
       const id = 1;
       mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockPrismaService.review.findMany.mockResolvedValue([]);
       mockPrismaService.user.delete.mockResolvedValue(mockUser);
 
       // Act
@@ -335,6 +553,43 @@ describe('UsersService', () => {
       expect(result).toEqual(mockUser);
     });
 
+    it('should remove the ratings and likes of the user from the aggregates', async () => {
+      // Arrange
+      mockPrismaService.user.findUnique.mockResolvedValue(mockUser);
+      mockPrismaService.review.findMany.mockResolvedValue([
+        { albumId: 3, rating: 8 },
+        { albumId: 4, rating: 5 },
+      ]);
+      mockPrismaService.user.delete.mockResolvedValue(mockUser);
+
+      // Act
+      await service.remove(1);
+
+      // Assert
+      expect(mockPrismaService.review.findMany).toHaveBeenCalledWith({
+        where: { userId: 1 },
+        select: { albumId: true, rating: true },
+      });
+      expect(mockAlbumRatingsService.applyRatingChange).toHaveBeenCalledWith(
+        mockPrismaService,
+        3,
+        { removed: 8 },
+      );
+      expect(mockAlbumRatingsService.applyRatingChange).toHaveBeenCalledWith(
+        mockPrismaService,
+        4,
+        { removed: 5 },
+      );
+      expect(mockPrismaService.review.updateMany).toHaveBeenCalledWith({
+        where: { likes: { some: { userId: 1 } } },
+        data: { likeCount: { decrement: 1 } },
+      });
+      // Agrégats mis à jour avant la suppression en cascade
+      expect(
+        mockAlbumRatingsService.applyRatingChange.mock.invocationCallOrder[1],
+      ).toBeLessThan(mockPrismaService.user.delete.mock.invocationCallOrder[0]);
+    });
+
     it('should throw NotFoundException if user does not exist', async () => {
       // Arrange
       const id = 999;
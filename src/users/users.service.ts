@@ -1,16 +1,25 @@
 import {
   Injectable,
+  BadRequestException,
   ConflictException,
   NotFoundException,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { AlbumRatingsService } from '../albums/album-ratings.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { Role } from '../auth/enums/role.enum';
+import { PaginationQueryDto } from '../common/pagination/pagination-query.dto';
+import { paginate } from '../common/pagination/paginate';
+import { toReviewOutput } from '../reviews/review-output';
 import * as bcrypt from 'bcrypt';
 
 @Injectable()
 export class UsersService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private albumRatingsService: AlbumRatingsService,
+  ) {}
 
   async create(createUserDto: CreateUserDto) {
     try {
@@ -31,15 +40,20 @@ export class UsersService {
     }
   }
 
-  async findAll() {
-    return this.prisma.user.findMany({
-      select: {
-        id: true,
-        username: true,
-        email: true,
-        createdAt: true,
+  async findAll(query: PaginationQueryDto = {}) {
+    return paginate(
+      this.prisma.user,
+      {
+        select: {
+          id: true,
+          username: true,
+          email: true,
+          role: true,
+          createdAt: true,
+        },
       },
-    });
+      query,
+    );
   }
 
   async findOne(id: number) {
@@ -49,8 +63,12 @@ export class UsersService {
         id: true,
         username: true,
         email: true,
+        role: true,
         createdAt: true,
         reviews: true,
+        _count: {
+          select: { followers: true, following: true },
+        },
       },
     });
 
@@ -58,7 +76,98 @@ export class UsersService {
       throw new NotFoundException(`User with ID ${id} not found`);
     }
 
-    return user;
+    // Seuls les nombres d'abonnés et d'abonnements sont renvoyés : les listes
+    // sont paginées par findFollowers et findFollowing
+    const { reviews, _count, ...profile } = user;
+
+    return {
+      ...profile,
+      reviews: reviews.map((review) => toReviewOutput(review)),
+      followersCount: _count.followers,
+      followingCount: _count.following,
+    };
+  }
+
+  // Abonnés d'un utilisateur, des plus récents aux plus anciens
+  // (l'ID de l'abonné départage les abonnements d'un même instant)
+  async findFollowers(id: number, query: PaginationQueryDto = {}) {
+    const user = await this.prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return paginate(
+      this.prisma.follow,
+      {
+        where: { followingId: id },
+        include: { follower: { select: { id: true, username: true } } },
+      },
+      query,
+      [
+        { field: 'createdAt', direction: 'desc' },
+        { field: 'followerId', direction: 'desc' },
+      ],
+    );
+  }
+
+  // Utilisateurs suivis, des abonnements les plus récents aux plus anciens
+  async findFollowing(id: number, query: PaginationQueryDto = {}) {
+    const user = await this.prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return paginate(
+      this.prisma.follow,
+      {
+        where: { followerId: id },
+        include: { following: { select: { id: true, username: true } } },
+      },
+      query,
+      [
+        { field: 'createdAt', direction: 'desc' },
+        { field: 'followingId', direction: 'desc' },
+      ],
+    );
+  }
+
+  // S'abonner aux critiques d'un autre utilisateur
+  async follow(followerId: number, followingId: number) {
+    if (followerId === followingId) {
+      throw new BadRequestException('You cannot follow yourself');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: followingId },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${followingId} not found`);
+    }
+
+    try {
+      return await this.prisma.follow.create({
+        data: { followerId, followingId },
+      });
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException('You already follow this user');
+      }
+      throw error;
+    }
+  }
+
+  // Se désabonner d'un utilisateur
+  async unfollow(followerId: number, followingId: number) {
+    const follow = await this.prisma.follow.findUnique({
+      where: { followerId_followingId: { followerId, followingId } },
+    });
+    if (!follow) {
+      throw new NotFoundException('You do not follow this user');
+    }
+
+    await this.prisma.follow.delete({
+      where: { followerId_followingId: { followerId, followingId } },
+    });
   }
 
   async findByUsername(username: string) {
@@ -97,6 +206,7 @@ export class UsersService {
           id: true,
           username: true,
           email: true,
+          role: true,
           createdAt: true,
         },
       });
@@ -108,6 +218,29 @@ export class UsersService {
     }
   }
 
+  // Modifier le rôle d'un utilisateur (réservé aux administrateurs)
+  async updateRole(id: number, role: Role) {
+    const user = await this.prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${id} not found`);
+    }
+
+    return this.prisma.user.update({
+      where: { id },
+      data: { role },
+      select: {
+        id: true,
+        username: true,
+        email: true,
+        role: true,
+        createdAt: true,
+      },
+    });
+  }
+
+  // Les critiques et "j'aime" de l'utilisateur sont supprimés en cascade :
+  // leurs notes sont d'abord retirées des agrégats des albums et ses "j'aime"
+  // des compteurs des critiques, dans la même transaction que la suppression
   async remove(id: number) {
     // Vérifier si l'utilisateur existe
     const user = await this.prisma.user.findUnique({ where: { id } });
@@ -115,8 +248,25 @@ export class UsersService {
       throw new NotFoundException(`User with ID ${id} not found`);
     }
 
-    return this.prisma.user.delete({
-      where: { id },
+    return this.prisma.$transaction(async (tx) => {
+      const reviews = await tx.review.findMany({
+        where: { userId: id },
+        select: { albumId: true, rating: true },
+      });
+      for (const review of reviews) {
+        await this.albumRatingsService.applyRatingChange(tx, review.albumId, {
+          removed: review.rating,
+        });
+      }
+
+      await tx.review.updateMany({
+        where: { likes: { some: { userId: id } } },
+        data: { likeCount: { decrement: 1 } },
+      });
+
+      return tx.user.delete({
+        where: { id },
+      });
     });
   }
 }
@@ -3,19 +3,25 @@ import { INestApplication, ValidationPipe } from '@nestjs/common';
 import request from 'supertest';
 import { AppModule } from './../src/app.module';
 import { PrismaService } from '../src/prisma/prisma.service';
-import { JwtService } from '@nestjs/jwt';
+import { AuthService } from '../src/auth/auth.service';
 import * as bcrypt from 'bcrypt';
 
+// Album "Discovery" de Daft Punk, enregistré dans test/fixtures/music-api
+const FIXTURE_ALBUM_ID = '2noRn2Aes5aoNVsU6iWThc';
+
 describe('ReviewsController (e2e)', () => {
   let app: INestApplication;
   let prismaService: PrismaService;
-  let jwtService: JwtService;
+  let authService: AuthService;
   let authToken: string;
   let userId: number;
   let albumId: number;
   let reviewId: number;
 
   beforeAll(async () => {
+    // Rejouer les réponses enregistrées au lieu d'appeler Spotify
+    process.env.MUSIC_API_MODE = 'fixture';
+
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
     }).compile();
@@ -26,7 +32,7 @@ describe('ReviewsController (e2e)', () => {
     );
 
     prismaService = moduleFixture.get<PrismaService>(PrismaService);
-    jwtService = moduleFixture.get<JwtService>(JwtService);
+    authService = moduleFixture.get<AuthService>(AuthService);
 
     await app.init();
 
@@ -34,6 +40,7 @@ describe('ReviewsController (e2e)', () => {
     await prismaService.review.deleteMany({});
     await prismaService.album.deleteMany({});
     await prismaService.artist.deleteMany({});
+    await prismaService.session.deleteMany({});
     await prismaService.user.deleteMany({});
 
     // Créer un utilisateur de test
@@ -47,28 +54,16 @@ describe('ReviewsController (e2e)', () => {
     });
     userId = user.id;
 
-    // Créer un artiste de test
-    const artist = await prismaService.artist.create({
-      data: {
-        name: 'Test Artist',
-        externalId: 'artist123',
-      },
-    });
+    // Ouvrir une session pour obtenir un token JWT d'authentification
+    const { access_token } = await authService.login(user);
+    authToken = access_token;
 
-    // Créer un album de test
-    const album = await prismaService.album.create({
-      data: {
-        title: 'Test Album',
-        externalId: 'album123',
-        artistId: artist.id,
-        coverUrl: 'https://example.com/cover.jpg',
-        releaseDate: new Date(),
-      },
-    });
-    albumId = album.id;
-
-    // Générer un token JWT pour l'authentification
-    authToken = jwtService.sign({ sub: user.id, username: user.username });
+    // Importer un album depuis les fixtures du catalogue (aucun appel réseau)
+    const response = await request(app.getHttpServer())
+      .get(`/albums/external/${FIXTURE_ALBUM_ID}`)
+      .set('Authorization', `Bearer ${authToken}`)
+      .expect(200);
+    albumId = response.body.id;
   });
 
   afterAll(async () => {
@@ -76,6 +71,7 @@ describe('ReviewsController (e2e)', () => {
     await prismaService.review.deleteMany({});
     await prismaService.album.deleteMany({});
     await prismaService.artist.deleteMany({});
+    await prismaService.session.deleteMany({});
     await prismaService.user.deleteMany({});
     await app.close();
   });
@@ -130,10 +126,10 @@ describe('ReviewsController (e2e)', () => {
         .expect(409); // ConflictException
     });
 
-    it('should validate the rating is between 1 and 5', () => {
+    it('should validate the rating is between 1 and 10', () => {
       const createReviewDto = {
         albumId: albumId,
-        rating: 6, // Invalid rating
+        rating: 11, // Invalid rating
         comment: 'Invalid rating',
       };
 
@@ -151,25 +147,31 @@ describe('ReviewsController (e2e)', () => {
         .get('/reviews')
         .expect(200)
         .then((response) => {
-          expect(response.body).toHaveProperty('reviews');
-          expect(response.body).toHaveProperty('meta');
-          expect(response.body.meta).toHaveProperty('total');
-          expect(response.body.meta).toHaveProperty('skip');
-          expect(response.body.meta).toHaveProperty('take');
-          expect(response.body.meta).toHaveProperty('hasMore');
-          expect(Array.isArray(response.body.reviews)).toBe(true);
+          expect(response.body).toHaveProperty('items');
+          expect(response.body).toHaveProperty('pageInfo');
+          expect(response.body.pageInfo).toHaveProperty('take');
+          expect(response.body.pageInfo).toHaveProperty('hasNextPage');
+          expect(response.body.pageInfo).toHaveProperty('nextCursor');
+          expect(Array.isArray(response.body.items)).toBe(true);
         });
     });
 
-    it('should respect pagination parameters', () => {
+    it('should keep offset pagination parameters', () => {
       return request(app.getHttpServer())
         .get('/reviews?skip=0&take=5')
         .expect(200)
         .then((response) => {
-          expect(response.body.meta.skip).toBe(0);
-          expect(response.body.meta.take).toBe(5);
+          expect(response.body.pageInfo.skip).toBe(0);
+          expect(response.body.pageInfo.take).toBe(5);
+          expect(response.body.pageInfo).toHaveProperty('total');
         });
     });
+
+    it('should reject an invalid cursor', () => {
+      return request(app.getHttpServer())
+        .get('/reviews?cursor=invalid')
+        .expect(400);
+    });
   });
 
   describe('/reviews/album/:albumId (GET)', () => {
@@ -178,11 +180,11 @@ describe('ReviewsController (e2e)', () => {
         .get(`/reviews/album/${albumId}`)
         .expect(200)
         .then((response) => {
-          expect(response.body).toHaveProperty('reviews');
-          expect(response.body).toHaveProperty('meta');
-          expect(Array.isArray(response.body.reviews)).toBe(true);
-          if (response.body.reviews.length > 0) {
-            expect(response.body.reviews[0].albumId).toBe(albumId);
+          expect(response.body).toHaveProperty('items');
+          expect(response.body).toHaveProperty('pageInfo');
+          expect(Array.isArray(response.body.items)).toBe(true);
+          if (response.body.items.length > 0) {
+            expect(response.body.items[0].albumId).toBe(albumId);
           }
         });
     });
@@ -200,11 +202,11 @@ describe('ReviewsController (e2e)', () => {
         .get(`/reviews/user/${userId}`)
         .expect(200)
         .then((response) => {
-          expect(response.body).toHaveProperty('reviews');
-          expect(response.body).toHaveProperty('meta');
-          expect(Array.isArray(response.body.reviews)).toBe(true);
-          if (response.body.reviews.length > 0) {
-            expect(response.body.reviews[0].userId).toBe(userId);
+          expect(response.body).toHaveProperty('items');
+          expect(response.body).toHaveProperty('pageInfo');
+          expect(Array.isArray(response.body.items)).toBe(true);
+          if (response.body.items.length > 0) {
+            expect(response.body.items[0].userId).toBe(userId);
           }
         });
     });